@@ -0,0 +1,359 @@
+/**
+ * Argument Validator Module
+ *
+ * Validates tool call arguments against the tool's inputSchema before the
+ * call is forwarded, so every child reports malformed input the same way.
+ *
+ * Supports the JSON Schema keywords tool schemas use in practice: type, enum,
+ * const, properties, required, additionalProperties, items / prefixItems,
+ * minItems / maxItems, minLength / maxLength, pattern, minimum / maximum,
+ * exclusiveMinimum / exclusiveMaximum, allOf / anyOf / oneOf / not and local
+ * $ref. Other keywords (e.g., format) are ignored, so an argument is only
+ * rejected for a violation the validator understands.
+ */
+
+import type { JSONSchema } from './types.js';
+
+/**
+ * Nesting depth after which validation stops (guards against $ref cycles)
+ */
+const MAX_DEPTH = 64;
+
+/**
+ * A single argument validation failure
+ */
+export interface ArgumentError {
+  /** Path of the failing value (e.g., "$.filters[0].field") */
+  path: string;
+
+  /** What is wrong with the value */
+  message: string;
+}
+
+/**
+ * Schema as found in a tool's inputSchema (any JSON Schema object)
+ */
+type Schema = Record<string, unknown>;
+
+/**
+ * Validate tool call arguments against a tool's inputSchema
+ *
+ * @param schema - Tool inputSchema
+ * @param args - Arguments from the tools/call request
+ * @returns All validation failures (empty if the arguments are valid)
+ *
+ * @example
+ * validateArguments(
+ *   { type: 'object', properties: { path: { type: 'string' } }, required: ['path'] },
+ *   { path: 42 }
+ * );
+ * // [{ path: '$.path', message: 'must be a string' }]
+ */
+export function validateArguments(
+  schema: JSONSchema,
+  args: Record<string, unknown>
+): ArgumentError[] {
+  const errors: ArgumentError[] = [];
+  const root = schema as unknown as Schema;
+  validateValue(root, root, args, '$', errors, 0);
+  return errors;
+}
+
+/**
+ * Format validation failures the way config validation errors are formatted
+ * @param errors - Validation failures
+ * @returns "path: message" pairs separated by "; "
+ */
+export function formatArgumentErrors(errors: ArgumentError[]): string {
+  return errors.map(e => `${e.path}: ${e.message}`).join('; ');
+}
+
+/**
+ * Validate one value against a (sub)schema, appending failures to errors
+ * @param root - Root schema (for $ref resolution)
+ * @param schema - Schema to validate against
+ * @param value - Value to validate
+ * @param path - Path of the value
+ * @param errors - Collected failures
+ * @param depth - Current nesting depth
+ */
+function validateValue(
+  root: Schema,
+  schema: unknown,
+  value: unknown,
+  path: string,
+  errors: ArgumentError[],
+  depth: number
+): void {
+  if (!isSchema(schema) || depth > MAX_DEPTH) {
+    return;
+  }
+
+  if (typeof schema.$ref === 'string') {
+    validateValue(root, resolveRef(root, schema.$ref), value, path, errors, depth + 1);
+  }
+
+  const types = typeof schema.type === 'string' ? [schema.type]
+    : Array.isArray(schema.type) ? schema.type.filter((t): t is string => typeof t === 'string')
+    : [];
+  if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+    errors.push({ path, message: `must be ${types.map(describeType).join(' or ')}` });
+    // Further keywords would only repeat the type mismatch
+    return;
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some(option => isEqual(option, value))) {
+    errors.push({
+      path,
+      message: `must be one of: ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`
+    });
+  }
+
+  if ('const' in schema && !isEqual(schema.const, value)) {
+    errors.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+  }
+
+  if (typeof value === 'string') {
+    validateString(schema, value, path, errors);
+  } else if (typeof value === 'number') {
+    validateNumber(schema, value, path, errors);
+  } else if (Array.isArray(value)) {
+    validateArray(root, schema, value, path, errors, depth);
+  } else if (isPlainObject(value)) {
+    validateObject(root, schema, value, path, errors, depth);
+  }
+
+  validateCombinators(root, schema, value, path, errors, depth);
+}
+
+/**
+ * Check string length and pattern
+ */
+function validateString(schema: Schema, value: string, path: string, errors: ArgumentError[]): void {
+  // Count code points, not UTF-16 units, as JSON Schema does
+  const length = Array.from(value).length;
+  if (typeof schema.minLength === 'number' && length < schema.minLength) {
+    errors.push({ path, message: `must be at least ${schema.minLength} characters long` });
+  }
+  if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+    errors.push({ path, message: `must be at most ${schema.maxLength} characters long` });
+  }
+  if (typeof schema.pattern === 'string') {
+    let regex: RegExp | undefined;
+    try {
+      regex = new RegExp(schema.pattern, 'u');
+    } catch {
+      // An invalid pattern is the child's problem, not the caller's
+    }
+    if (regex && !regex.test(value)) {
+      errors.push({ path, message: `must match pattern ${schema.pattern}` });
+    }
+  }
+}
+
+/**
+ * Check numeric bounds
+ */
+function validateNumber(schema: Schema, value: number, path: string, errors: ArgumentError[]): void {
+  if (typeof schema.minimum === 'number' && value < schema.minimum) {
+    errors.push({ path, message: `must be >= ${schema.minimum}` });
+  }
+  if (typeof schema.maximum === 'number' && value > schema.maximum) {
+    errors.push({ path, message: `must be <= ${schema.maximum}` });
+  }
+  if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+    errors.push({ path, message: `must be > ${schema.exclusiveMinimum}` });
+  }
+  if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+    errors.push({ path, message: `must be < ${schema.exclusiveMaximum}` });
+  }
+}
+
+/**
+ * Check array length and items
+ */
+function validateArray(
+  root: Schema,
+  schema: Schema,
+  value: unknown[],
+  path: string,
+  errors: ArgumentError[],
+  depth: number
+): void {
+  if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+    errors.push({ path, message: `must contain at least ${schema.minItems} items` });
+  }
+  if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+    errors.push({ path, message: `must contain at most ${schema.maxItems} items` });
+  }
+
+  // Tuple items: prefixItems (2020-12) or an items array (draft-07)
+  const tuple = Array.isArray(schema.prefixItems) ? schema.prefixItems
+    : Array.isArray(schema.items) ? schema.items
+    : [];
+  const rest = Array.isArray(schema.items) ? schema.additionalItems : schema.items;
+
+  value.forEach((item, index) => {
+    const itemSchema = index < tuple.length ? tuple[index] : rest;
+    if (itemSchema === false) {
+      errors.push({ path: `${path}[${index}]`, message: 'is not allowed' });
+    } else {
+      validateValue(root, itemSchema, item, `${path}[${index}]`, errors, depth + 1);
+    }
+  });
+}
+
+/**
+ * Check required, declared and additional properties
+ */
+function validateObject(
+  root: Schema,
+  schema: Schema,
+  value: Record<string, unknown>,
+  path: string,
+  errors: ArgumentError[],
+  depth: number
+): void {
+  const properties = isSchema(schema.properties) ? schema.properties : {};
+
+  if (Array.isArray(schema.required)) {
+    for (const name of schema.required) {
+      if (typeof name === 'string' && value[name] === undefined) {
+        errors.push({ path: `${path}.${name}`, message: 'is required' });
+      }
+    }
+  }
+
+  for (const [name, propertyValue] of Object.entries(value)) {
+    if (Object.hasOwn(properties, name)) {
+      validateValue(root, properties[name], propertyValue, `${path}.${name}`, errors, depth + 1);
+    } else if (schema.additionalProperties === false) {
+      errors.push({ path: `${path}.${name}`, message: 'is not a known property' });
+    } else {
+      validateValue(root, schema.additionalProperties, propertyValue, `${path}.${name}`, errors, depth + 1);
+    }
+  }
+}
+
+/**
+ * Check allOf, anyOf, oneOf and not
+ */
+function validateCombinators(
+  root: Schema,
+  schema: Schema,
+  value: unknown,
+  path: string,
+  errors: ArgumentError[],
+  depth: number
+): void {
+  if (Array.isArray(schema.allOf)) {
+    for (const subschema of schema.allOf) {
+      validateValue(root, subschema, value, path, errors, depth + 1);
+    }
+  }
+
+  const matches = (subschema: unknown): boolean => {
+    const subErrors: ArgumentError[] = [];
+    validateValue(root, subschema, value, path, subErrors, depth + 1);
+    return subErrors.length === 0;
+  };
+
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.some(matches)) {
+    errors.push({ path, message: 'must match at least one of the allowed schemas (anyOf)' });
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const matched = schema.oneOf.filter(matches).length;
+    if (matched !== 1) {
+      errors.push({
+        path,
+        message: matched === 0
+          ? 'must match one of the allowed schemas (oneOf)'
+          : `must match exactly one of the allowed schemas (oneOf), matched ${matched}`
+      });
+    }
+  }
+
+  if (isSchema(schema.not) && matches(schema.not)) {
+    errors.push({ path, message: 'must not match the disallowed schema (not)' });
+  }
+}
+
+/**
+ * Resolve a local $ref ("#", "#/$defs/x", "#/definitions/x", ...)
+ * @param root - Root schema
+ * @param ref - Reference string
+ * @returns Referenced schema, or undefined for remote or unresolvable refs
+ */
+function resolveRef(root: Schema, ref: string): unknown {
+  if (!ref.startsWith('#')) {
+    return undefined;
+  }
+
+  let target: unknown = root;
+  for (const token of ref.slice(1).split('/').slice(1)) {
+    if (!isSchema(target)) {
+      return undefined;
+    }
+    const key = decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~');
+    target = target[key];
+  }
+  return target;
+}
+
+/**
+ * Check a value against a JSON Schema type name
+ */
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'integer': return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'null': return value === null;
+    case 'array': return Array.isArray(value);
+    case 'object': return isPlainObject(value);
+    // Unknown type names never reject a value
+    default: return true;
+  }
+}
+
+/**
+ * Type name with an article for messages ("an object", "a string")
+ */
+function describeType(type: string): string {
+  if (type === 'null') return 'null';
+  return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+}
+
+/**
+ * Structural equality of JSON values (for enum and const)
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+      keys.every(key => Object.hasOwn(b, key) && isEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+/**
+ * Check for a JSON object (not null, not an array)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check for an object-form schema (boolean schemas are not validated)
+ */
+function isSchema(value: unknown): value is Schema {
+  return isPlainObject(value);
+}
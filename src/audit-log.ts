@@ -0,0 +1,238 @@
+/**
+ * Audit Log Module
+ *
+ * Appends one JSON record per tools/call to an audit file: when and which
+ * tool was called on which server, the (redacted) arguments with a digest of
+ * the original arguments, how long the call took and how it ended.
+ *
+ * Arguments are redacted per tool with `redactArguments` paths from the
+ * server config and its `tools` overrides. A path is a dot-separated list of
+ * keys where `*` matches any key or array index, e.g. "auth.token" or
+ * "items.*.secret".
+ */
+
+import { createHash } from 'crypto';
+import { openSync, writeSync, closeSync } from 'fs';
+import type { ToolRegistryEntry } from './types.js';
+import { stableStringify } from './schema-cache.js';
+import { resolveToolArguments } from './tool-overrides.js';
+import { logError } from './logger.js';
+
+/**
+ * Replacement for redacted argument values
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * One line of the audit file
+ */
+export interface AuditRecord {
+  /** When the call finished (ISO 8601) */
+  timestamp: string;
+
+  /** JSON-RPC id of the upstream request */
+  requestId?: string | number;
+
+  /** Tool name as called (prefixed) */
+  tool: string;
+
+  /** Tool name on the child server (unset if the tool was not found) */
+  originalName?: string;
+
+  /** Server the call was routed to (unset if the tool was not found) */
+  serverKey?: string;
+
+  /** Arguments as forwarded (pinned and default arguments applied), with redacted paths replaced by "[REDACTED]" */
+  arguments: Record<string, unknown>;
+
+  /** SHA-256 of the forwarded arguments before redaction (keys sorted), e.g. "sha256:9f86d0..." */
+  argumentsDigest: string;
+
+  /** Duration of the call in milliseconds */
+  durationMs: number;
+
+  /** True if the call returned a result without isError */
+  success: boolean;
+
+  /** True if the child returned a result with isError */
+  isError: boolean;
+
+  /** Error message if the call failed (thrown error or isError result text) */
+  error?: string;
+}
+
+/**
+ * A finished tools/call to record
+ */
+export interface AuditedToolCall {
+  /** Tool name as called (prefixed) */
+  tool: string;
+
+  /** Registry entry the call was routed to, if the tool exists */
+  entry?: ToolRegistryEntry | undefined;
+
+  /** Arguments from the request */
+  args: Record<string, unknown>;
+
+  /** JSON-RPC id of the upstream request */
+  requestId?: string | number;
+
+  /** Duration of the call in milliseconds */
+  durationMs: number;
+
+  /** Result returned to the caller (unset if the call threw) */
+  result?: Record<string, unknown>;
+
+  /** Error thrown to the caller */
+  error?: unknown;
+}
+
+/**
+ * Append-only audit file
+ */
+export interface AuditLog {
+  /** Path of the audit file */
+  readonly path: string;
+
+  /**
+   * Append a record for a finished call
+   * @param call - The call to record
+   */
+  record(call: AuditedToolCall): void;
+
+  /** Close the file; later records are dropped */
+  close(): void;
+}
+
+/**
+ * Open (or create) the audit file for appending
+ *
+ * The file is opened synchronously so a missing directory or permission
+ * problem stops the aggregator at startup instead of silently losing the
+ * audit trail. Records are written synchronously as well, so a record is on
+ * disk before the call's response is sent and survives an abrupt exit.
+ *
+ * @param filePath - Path of the audit file
+ * @returns Audit log writing to the file
+ * @throws Error if the file cannot be opened
+ */
+export function openAuditLog(filePath: string): AuditLog {
+  const fd = openSync(filePath, 'a');
+  let closed = false;
+
+  return {
+    path: filePath,
+
+    record(call: AuditedToolCall): void {
+      if (closed) return;
+      try {
+        writeSync(fd, `${JSON.stringify(createAuditRecord(call))}\n`);
+      } catch (error) {
+        logError(`[ERROR] Failed to write audit record to ${filePath}:`, (error as Error).message);
+      }
+    },
+
+    close(): void {
+      if (closed) return;
+      closed = true;
+      closeSync(fd);
+    }
+  };
+}
+
+/**
+ * Build the audit record of a finished call
+ * @param call - The call to record
+ * @returns Record with the forwarded arguments, redacted
+ */
+export function createAuditRecord(call: AuditedToolCall): AuditRecord {
+  const { entry, result, error } = call;
+  const isError = result?.isError === true;
+  // Record what the child received, including pinned and default arguments
+  const args = entry ? resolveToolArguments(entry, call.args) : call.args;
+
+  let message: string | undefined;
+  if (error !== undefined) {
+    message = error instanceof Error ? error.message : String(error);
+  } else if (isError) {
+    message = getResultText(result?.content);
+  }
+
+  return {
+    timestamp: new Date().toISOString(),
+    ...(call.requestId !== undefined && { requestId: call.requestId }),
+    tool: call.tool,
+    ...(entry && { originalName: entry.originalName, serverKey: entry.serverKey }),
+    arguments: redactArguments(args, entry?.redactArguments ?? []),
+    argumentsDigest: `sha256:${createHash('sha256').update(stableStringify(args)).digest('hex')}`,
+    durationMs: call.durationMs,
+    success: error === undefined && !isError,
+    isError,
+    ...(message !== undefined && { error: message })
+  };
+}
+
+/**
+ * Replace the values at the given argument paths with "[REDACTED]"
+ *
+ * @param args - Tool call arguments (not modified)
+ * @param paths - Dot-separated paths; `*` matches any key or array index
+ * @returns Copy of the arguments with matching values redacted
+ *
+ * @example
+ * redactArguments({ user: 'ann', auth: { token: 'abc' } }, ['auth.token']);
+ * // { user: 'ann', auth: { token: '[REDACTED]' } }
+ */
+export function redactArguments(
+  args: Record<string, unknown>,
+  paths: string[]
+): Record<string, unknown> {
+  if (paths.length === 0) {
+    return args;
+  }
+
+  const copy = structuredClone(args);
+  for (const path of paths) {
+    redactPath(copy, path.split('.'));
+  }
+  return copy;
+}
+
+/**
+ * Redact one path inside an object or array (in place)
+ */
+function redactPath(target: unknown, segments: string[]): void {
+  if (typeof target !== 'object' || target === null) {
+    return;
+  }
+
+  const [segment, ...rest] = segments;
+  const container = target as Record<string, unknown>;
+  const keys = segment === '*' ? Object.keys(container) : [segment!];
+
+  for (const key of keys) {
+    if (!Object.hasOwn(container, key)) {
+      continue;
+    }
+    if (rest.length === 0) {
+      container[key] = REDACTED;
+    } else {
+      redactPath(container[key], rest);
+    }
+  }
+}
+
+/**
+ * Join the text blocks of a tool result (for isError results)
+ */
+function getResultText(content: unknown): string | undefined {
+  if (!Array.isArray(content)) {
+    return undefined;
+  }
+  const text = content
+    .filter((block): block is { type: 'text'; text: string } =>
+      typeof block === 'object' && block !== null && block.type === 'text' && typeof block.text === 'string')
+    .map(block => block.text)
+    .join('\n');
+  return text === '' ? undefined : text;
+}
@@ -1,20 +1,53 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import path from 'path';
 import fs from 'fs';
+import type { Readable } from 'stream';
 import type {
   McpConfig,
   ServerConfig,
   ChildServerClient,
-  ToolRegistry
+  ToolRegistry,
+  ResourceRegistry,
+  PromptRegistry,
+  StartupPolicy,
+  ServerStatusReport
 } from './types.js';
 import {
   ServerStatus,
   ChildServerError,
   ErrorPhase
 } from './types.js';
-import { removeServerTools } from './registry.js';
-import { logInfo, logError } from './logger.js';
+import { removeServerTools, refreshServerTools } from './registry.js';
+import { removeServerResources, refreshServerResources } from './resource-registry.js';
+import { removeServerPrompts, refreshServerPrompts } from './prompt-registry.js';
+import { scheduleRestart, cancelRestart, isRestartPending } from './supervisor.js';
+import { subscribeToToolListChanges } from './notifications.js';
+import { getCachedTools } from './schema-cache.js';
+import type { SchemaCache } from './schema-cache.js';
+import { captureChildStderr, formatStderrTail } from './child-stderr.js';
+import type { StderrCapture } from './child-stderr.js';
+import { log, logInfo, logError } from './logger.js';
+import { withSpan } from './tracing.js';
+
+/**
+ * Time allowed for a child's connect handshake and health check when
+ * ServerConfig.startupTimeoutMs is not set
+ */
+export const DEFAULT_STARTUP_TIMEOUT_MS = 30000;
+
+/**
+ * Number of child servers started at the same time by default
+ */
+export const DEFAULT_STARTUP_CONCURRENCY = 4;
+
+/**
+ * Time a failed child gets to flush its remaining stderr output
+ */
+const STDERR_DRAIN_TIMEOUT_MS = 200;
 
 /**
  * Resolves node-related commands to absolute paths
@@ -89,11 +122,18 @@ export function createChildClient(serverKey: string, _config: ServerConfig): Cli
 }
 
 /**
- * T049: Connect to a single child MCP server via stdio
+ * T049: Connect to a single child MCP server via stdio, or to a remote one via `url`
+ *
+ * The connect handshake and health check must finish within
+ * config.startupTimeoutMs (default: DEFAULT_STARTUP_TIMEOUT_MS).
+ *
+ * A stdio child's stderr is captured (see child-stderr.ts); if the child
+ * fails to start, the last lines are attached to the ChildServerError.
+ *
  * @param serverKey - Unique identifier for this server
- * @param config - Server configuration with command, args, and env
+ * @param config - Server configuration with command, args and env, or url, transport and headers
  * @returns Connected ChildServerClient
- * @throws ChildServerError if connection fails
+ * @throws ChildServerError if connection fails or times out
  */
 export async function connectToChild(
   serverKey: string,
@@ -105,127 +145,360 @@ export async function connectToChild(
     serverKey,
     client,
     config,
-    status: ServerStatus.INITIALIZING
+    status: ServerStatus.INITIALIZING,
+    restartCount: 0
   };
 
+  let stderrCapture: StderrCapture | undefined;
+
   try {
-    // Create stdio transport with server configuration
-    const mergedEnv: Record<string, string> = {};
-    for (const [key, value] of Object.entries(process.env)) {
-      if (value !== undefined) {
-        mergedEnv[key] = value;
-      }
-    }
-    for (const [key, value] of Object.entries(config.env || {})) {
-      mergedEnv[key] = value;
+    const transport = createChildTransport(config);
+    if (transport instanceof StdioClientTransport && transport.stderr) {
+      stderrCapture = captureChildStderr(serverKey, transport.stderr as Readable);
     }
 
-    // Resolve command to absolute path if it's "node", "npm", or "npx"
-    const resolvedCommand = resolveCommand(config.command);
+    const timeoutMs = config.startupTimeoutMs ?? DEFAULT_STARTUP_TIMEOUT_MS;
 
-    const transport = new StdioClientTransport({
-      command: resolvedCommand,
-      args: config.args || [],
-      env: mergedEnv
-    });
+    const handshake = async (): Promise<void> => {
+      // T048: Connect client to child server
+      await client.connect(transport);
 
-    // T048: Connect client to child server
-    await client.connect(transport);
+      // T051: Health check - verify server responds
+      try {
+        await client.listTools();
+      } catch (error) {
+        throw new ChildServerError(
+          `Child server '${serverKey}' failed health check: ${(error as Error).message}\n\nExample: Ensure the child server implements the MCP protocol correctly:\n- Server must respond to listTools() request\n- Check that the ${config.url ? 'url and transport' : 'command and args'} in your config are correct\n- Verify the server ${config.url ? 'is reachable' : 'executable exists and is accessible'}`,
+          serverKey,
+          ErrorPhase.INITIALIZATION,
+          error as Error
+        );
+      }
+    };
 
-    // T051: Health check - verify server responds
-    try {
-      await client.listTools();
-      childServerClient.status = ServerStatus.RUNNING;
-    } catch (error) {
-      throw new ChildServerError(
-        `Child server '${serverKey}' failed health check: ${(error as Error).message}\n\nExample: Ensure the child server implements the MCP protocol correctly:\n- Server must respond to listTools() request\n- Check that the command and args in your config are correct\n- Verify the server executable exists and is accessible`,
-        serverKey,
-        ErrorPhase.INITIALIZATION,
-        error as Error
-      );
-    }
+    await withStartupTimeout(handshake(), timeoutMs, serverKey);
+    childServerClient.status = ServerStatus.RUNNING;
+    childServerClient.startedAt = Date.now();
 
     // T052: Set up error handling for runtime failures
     client.onerror = (error) => {
-      logError(`Child server '${serverKey}' crashed:`, error);
+      log('error', `Child server '${serverKey}' crashed: ${error.message}`, { serverKey });
       childServerClient.status = ServerStatus.FAILED;
       childServerClient.error = error;
     };
 
     return childServerClient;
   } catch (error) {
+    // Don't leave a half-started process behind
+    await client.close().catch(() => undefined);
+
+    // Give the child's last stderr output a moment to arrive
+    const stderr = stderrCapture ? await collectStderrTail(stderrCapture) : [];
+
+    childServerClient.status = ServerStatus.FAILED;
+    childServerClient.error = error as Error;
+
     // T052: Wrap errors with ChildServerError
     if (error instanceof ChildServerError) {
-      throw error;
+      if (stderr.length === 0) {
+        throw error;
+      }
+      throw new ChildServerError(
+        `${error.message}${formatStderrTail(stderr)}`,
+        serverKey,
+        error.phase,
+        error.cause,
+        stderr
+      );
     }
 
-    childServerClient.status = ServerStatus.FAILED;
-    childServerClient.error = error as Error;
+    const troubleshooting = config.url
+      ? `1. Verify the server is running: curl -i ${config.url}\n2. Check that transport matches the server (${config.transport ?? 'streamable-http'})\n3. Check headers (e.g., Authorization) and server logs for errors`
+      : `1. Verify command exists: which ${config.command}\n2. Test manually: ${config.command} ${config.args?.join(' ') || ''}\n3. Check server logs for errors\n4. Ensure server uses stdio transport`;
 
     throw new ChildServerError(
-      `Failed to connect to child server '${serverKey}': ${(error as Error).message}\n\nExample troubleshooting steps:\n1. Verify command exists: which ${config.command}\n2. Test manually: ${config.command} ${config.args?.join(' ') || ''}\n3. Check server logs for errors\n4. Ensure server uses stdio transport`,
+      `Failed to connect to child server '${serverKey}': ${(error as Error).message}${formatStderrTail(stderr)}\n\nExample troubleshooting steps:\n${troubleshooting}`,
       serverKey,
       ErrorPhase.STARTUP,
-      error as Error
+      error as Error,
+      stderrCapture ? stderr : undefined
     );
   }
 }
 
+/**
+ * Wait briefly for a failed child's stderr to end and return its tail
+ * @param capture - Stderr capture of the child
+ * @returns Last stderr lines
+ */
+async function collectStderrTail(capture: StderrCapture): Promise<string[]> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  await Promise.race([
+    capture.ended,
+    new Promise<void>((resolve) => { timer = setTimeout(resolve, STDERR_DRAIN_TIMEOUT_MS); })
+  ]);
+  clearTimeout(timer);
+  return [...capture.tail];
+}
+
+/**
+ * Create the client transport for a child server
+ *
+ * Remote servers (`url`) use Streamable HTTP unless `transport` is "sse";
+ * `headers` are sent with every request. Local servers are spawned over stdio
+ * with the parent's environment merged with `env`, and their stderr piped.
+ *
+ * @param config - Server configuration
+ * @returns Unconnected client transport
+ */
+export function createChildTransport(config: ServerConfig): Transport {
+  if (config.url) {
+    const url = new URL(config.url);
+    const requestInit: RequestInit = config.headers ? { headers: config.headers } : {};
+
+    if (config.transport === 'sse') {
+      return new SSEClientTransport(url, { requestInit });
+    }
+    // The SDK declares optional members on this class that
+    // exactOptionalPropertyTypes rejects against the Transport interface
+    return new StreamableHTTPClientTransport(url, { requestInit }) as Transport;
+  }
+
+  // Create stdio transport with server configuration
+  const mergedEnv: Record<string, string> = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    if (value !== undefined) {
+      mergedEnv[key] = value;
+    }
+  }
+  for (const [key, value] of Object.entries(config.env || {})) {
+    mergedEnv[key] = value;
+  }
+
+  // Resolve command to absolute path if it's "node", "npm", or "npx"
+  const resolvedCommand = resolveCommand(config.command ?? '');
+
+  return new StdioClientTransport({
+    command: resolvedCommand,
+    args: config.args || [],
+    env: mergedEnv,
+    // Captured by connectToChild() instead of leaking into the aggregator's stderr
+    stderr: 'pipe'
+  });
+}
+
 /**
  * T050: Initialize all child servers from configuration
+ *
+ * Children are started concurrently, at most `concurrency` at a time. Under
+ * the default failFast policy the first failure (in config order) aborts
+ * startup. Under bestEffort and requireAtLeast, failed servers are kept in the
+ * returned map with FAILED status and their ChildServerError (which records the
+ * ErrorPhase), so setupErrorHandlers() can retry them in the background.
+ * Servers that were already started are shut down when startup is aborted.
+ *
+ * Lazy servers with an entry in the schema cache are not started; they are
+ * returned with IDLE status and started by their first tool call (see
+ * lazy-start.ts).
+ *
  * @param config - MCP configuration with all servers
- * @returns Map of serverKey to connected ChildServerClient
- * @throws ChildServerError if any server fails to start (fail-fast behavior)
+ * @param policy - Startup policy (default: failFast)
+ * @param concurrency - Maximum number of children starting at once (default: 4)
+ * @param schemaCache - Cached tool lists of lazy servers (lazy servers start eagerly without it)
+ * @returns Map of serverKey to ChildServerClient (RUNNING or FAILED), in config order
+ * @throws ChildServerError if the policy or a required server is not satisfied
  */
 export async function initializeChildren(
-  config: McpConfig
+  config: McpConfig,
+  policy: StartupPolicy = { mode: 'failFast' },
+  concurrency: number = DEFAULT_STARTUP_CONCURRENCY,
+  schemaCache?: SchemaCache
+): Promise<Map<string, ChildServerClient>> {
+  return withSpan('initializeChildren', {
+    attributes: {
+      'mcp.server_count': Object.keys(config.mcpServers).length,
+      'mcp.startup_policy': policy.mode,
+      'mcp.startup_concurrency': concurrency
+    }
+  }, () => startChildren(config, policy, concurrency, schemaCache));
+}
+
+/**
+ * Start the children of initializeChildren() (see there)
+ */
+async function startChildren(
+  config: McpConfig,
+  policy: StartupPolicy,
+  concurrency: number,
+  schemaCache: SchemaCache | undefined
 ): Promise<Map<string, ChildServerClient>> {
-  const children = new Map<string, ChildServerClient>();
   const serverKeys = Object.keys(config.mcpServers);
+  const results = new Map<string, ChildServerClient | ChildServerError>();
+  let aborted = false;
+
+  const isFatal = (serverKey: string): boolean =>
+    policy.mode === 'failFast' || config.mcpServers[serverKey]?.required === true;
+
+  await runWithConcurrency(serverKeys, concurrency, async (serverKey) => {
+    // T053: Fail-fast startup behavior - don't start anything after a fatal failure
+    if (aborted) {
+      return;
+    }
 
-  // T053: Fail-fast startup behavior - if any child fails, exit immediately
-  for (const serverKey of serverKeys) {
     const serverConfig = config.mcpServers[serverKey];
     if (!serverConfig) {
-      throw new ChildServerError(
+      results.set(serverKey, new ChildServerError(
         `Server config not found for '${serverKey}'`,
         serverKey,
         ErrorPhase.STARTUP
-      );
+      ));
+      aborted = true;
+      return;
+    }
+
+    if (serverConfig.lazy && schemaCache && getCachedTools(schemaCache, serverConfig)) {
+      logInfo(`Child server '${serverKey}' is lazy; serving cached tools until its first call`);
+      results.set(serverKey, {
+        serverKey,
+        client: createChildClient(serverKey, serverConfig),
+        config: serverConfig,
+        status: ServerStatus.IDLE,
+        restartCount: 0
+      });
+      return;
     }
 
     try {
       logInfo(`Starting child server '${serverKey}'...`);
-      const childClient = await connectToChild(serverKey, serverConfig);
-      children.set(serverKey, childClient);
+      const childClient = await withSpan('startChild', { attributes: { 'mcp.server_key': serverKey } },
+        () => connectToChild(serverKey, serverConfig));
+      results.set(serverKey, childClient);
       logInfo(`Child server '${serverKey}' started successfully`);
     } catch (error) {
-      // T053: Exit on any child failure
-      if (error instanceof ChildServerError) {
-        logError(`Failed to start server '${serverKey}':`, error.message);
-        throw error;
-      }
-      throw new ChildServerError(
-        `Unexpected error starting '${serverKey}': ${(error as Error).message}`,
+      const childError = error instanceof ChildServerError
+        ? error
+        : new ChildServerError(
+          `Unexpected error starting '${serverKey}': ${(error as Error).message}`,
+          serverKey,
+          ErrorPhase.STARTUP,
+          error as Error
+        );
+      log('error', `Failed to start server '${serverKey}': ${childError.message}`, {
         serverKey,
-        ErrorPhase.STARTUP,
-        error as Error
-      );
+        phase: childError.phase
+      });
+      results.set(serverKey, childError);
+
+      if (isFatal(serverKey)) {
+        aborted = true;
+      }
+    }
+  });
+
+  // Assemble results in config order so failures and the returned map are deterministic
+  const children = new Map<string, ChildServerClient>();
+  const failures: ChildServerError[] = [];
+  let fatalError: ChildServerError | undefined;
+
+  for (const serverKey of serverKeys) {
+    const result = results.get(serverKey);
+    if (result === undefined) {
+      continue;
+    }
+
+    if (!(result instanceof ChildServerError)) {
+      children.set(serverKey, result);
+      continue;
     }
+
+    if (isFatal(serverKey) || !config.mcpServers[serverKey]) {
+      fatalError ??= result;
+      continue;
+    }
+
+    const serverConfig = config.mcpServers[serverKey]!;
+    failures.push(result);
+    children.set(serverKey, {
+      serverKey,
+      client: createChildClient(serverKey, serverConfig),
+      config: serverConfig,
+      status: ServerStatus.FAILED,
+      error: result,
+      restartCount: 0
+    });
+  }
+
+  const startedCount = children.size - failures.length;
+
+  if (!fatalError && policy.mode === 'requireAtLeast' && startedCount < policy.count) {
+    fatalError = new ChildServerError(
+      `Only ${startedCount} of ${serverKeys.length} child servers started, but the startup policy requires at least ${policy.count}`,
+      failures[0]?.serverKey ?? '',
+      failures[0]?.phase ?? ErrorPhase.STARTUP,
+      failures[0]
+    );
   }
 
-  logInfo(`All ${children.size} child servers started successfully`);
+  if (fatalError) {
+    await shutdownAllChildren(children);
+    throw fatalError;
+  }
+
+  if (failures.length === 0) {
+    logInfo(`All ${children.size} child servers started successfully`);
+  } else {
+    logInfo(
+      `Started ${startedCount} of ${serverKeys.length} child servers; failed: ${failures.map(f => f.serverKey).join(', ')}`
+    );
+  }
   return children;
 }
 
+/**
+ * Report the current status of every child server
+ *
+ * @param children - Map of child server clients
+ * @returns One status report per child, in config order
+ *
+ * @example
+ * getServerStatuses(children);
+ * // [{ serverKey: 'postgres', status: 'failed', required: false, restartCount: 0,
+ * //    restartPending: true, error: { message: '...', phase: 'startup' } }]
+ */
+export function getServerStatuses(
+  children: Map<string, ChildServerClient>
+): ServerStatusReport[] {
+  return Array.from(children.values()).map(child => {
+    const report: ServerStatusReport = {
+      serverKey: child.serverKey,
+      status: child.status,
+      required: child.config.required ?? false,
+      restartCount: child.restartCount,
+      restartPending: isRestartPending(child)
+    };
+
+    if (child.error) {
+      report.error = child.error instanceof ChildServerError
+        ? { message: child.error.message, phase: child.error.phase }
+        : { message: child.error.message };
+    }
+
+    return report;
+  });
+}
+
 /**
  * Gracefully shutdown a child server connection
  * @param childClient - Child server client to shutdown
  */
 export async function shutdownChild(childClient: ChildServerClient): Promise<void> {
+  cancelRestart(childClient);
+
+  // Mark as stopped first so the close event is not treated as a crash
+  childClient.status = ServerStatus.STOPPED;
+
   try {
     await childClient.client.close();
-    childClient.status = ServerStatus.STOPPED;
   } catch (error) {
     logError(`Error shutting down '${childClient.serverKey}':`, error);
     childClient.status = ServerStatus.FAILED;
@@ -247,51 +520,530 @@ export async function shutdownAllChildren(
   await Promise.all(shutdownPromises);
 }
 
+/**
+ * Optional registries and settings for setupErrorHandlers()
+ */
+export interface ErrorHandlerOptions {
+  /** Separator used for namespacing (default: ':') */
+  separator?: string;
+
+  /** Resource registry to clean up alongside the tool registry */
+  resourceRegistry?: ResourceRegistry;
+
+  /** Prompt registry to clean up alongside the tool registry */
+  promptRegistry?: PromptRegistry;
+
+  /**
+   * Called whenever a crash, restart or child tools/list_changed notification
+   * changes the set of tools in the registry. When set, each child's
+   * tools/list_changed notification is also subscribed to.
+   */
+  onToolsChanged?: () => void;
+}
+
 /**
  * T109-T112: Setup error handlers for child servers with registry integration
  *
  * Sets up error event handlers for all child servers to implement graceful degradation.
  * When a child server crashes:
- * - T109: Error event handler is triggered
+ * - T109: Error or close event handler is triggered
  * - T110: Gracefully degrades by removing crashed server's tools from registry
  * - T111: Logs error for debugging
  * - T112: Aggregator continues serving remaining servers
+ * - The server is restarted with exponential backoff (see supervisor.ts) and its
+ *   tools are re-registered once it is running again
+ * - options.onToolsChanged is invoked whenever the registry actually changes
+ *
+ * Children that failed during a non-failFast startup are retried in the
+ * background with the same backoff and registered once they come up.
  *
  * @param children - Map of all child server clients
  * @param registry - Tool registry to update when servers crash
+ * @param options - Separator and additional registries to update when servers crash
  */
 export function setupErrorHandlers(
   children: Map<string, ChildServerClient>,
-  registry: ToolRegistry
+  registry: ToolRegistry,
+  options: ErrorHandlerOptions = {}
 ): void {
-  for (const [serverKey, childClient] of children.entries()) {
-    // T109: Implement child error event handlers
-    childClient.client.onerror = (error: Error) => {
-      // T111: Add error logging for child failures
-      logError(
-        `[ERROR] Child server '${serverKey}' crashed: ${error.message}`
-      );
-      logError(`[ERROR] Stack trace:`, error.stack);
+  for (const childClient of children.values()) {
+    // Idle (lazy) servers get their handlers when activateChildServer() starts them
+    if (childClient.status === ServerStatus.IDLE) {
+      continue;
+    }
 
-      // Update child status
-      childClient.status = ServerStatus.FAILED;
-      childClient.error = error;
+    if (childClient.status === ServerStatus.FAILED) {
+      logInfo(`[INFO] Retrying failed server '${childClient.serverKey}' in the background`);
+      scheduleChildRestart(childClient, registry, options);
+      continue;
+    }
 
-      // T110: Implement graceful degradation on child crash
-      // T112: Ensure aggregator continues with remaining servers
-      logInfo(
-        `[INFO] Removing tools for crashed server '${serverKey}' from registry`
+    attachCrashHandlers(childClient, registry, options);
+    if (options.onToolsChanged) {
+      subscribeToToolListChanges(
+        childClient,
+        registry,
+        options.separator ?? ':',
+        options.onToolsChanged
       );
-      removeServerTools(registry, serverKey);
+    }
+  }
+
+  logInfo(
+    `[INFO] Error handlers configured for ${children.size} child servers`
+  );
+}
+
+/**
+ * Start a single child server while the aggregator is running
+ *
+ * Used when servers are added or reconfigured by a config reload. A server
+ * that fails to start is kept with FAILED status and retried in the
+ * background, like a failed server under the bestEffort startup policy.
+ *
+ * @param children - Map of child server clients (updated in place)
+ * @param serverKey - Server to start
+ * @param serverConfig - Configuration of the server
+ * @param registry - Tool registry to register the server's tools in
+ * @param options - Separator and additional registries
+ * @returns True if the server's tools were added to the registry
+ */
+export async function startChildServer(
+  children: Map<string, ChildServerClient>,
+  serverKey: string,
+  serverConfig: ServerConfig,
+  registry: ToolRegistry,
+  options: ErrorHandlerOptions = {}
+): Promise<boolean> {
+  let childClient: ChildServerClient;
 
-      const remainingTools = registry.size;
-      logInfo(
-        `[INFO] Aggregator continues serving with ${remainingTools} tools from remaining servers`
+  try {
+    logInfo(`Starting child server '${serverKey}'...`);
+    childClient = await connectToChild(serverKey, serverConfig);
+  } catch (error) {
+    const childError = error instanceof ChildServerError
+      ? error
+      : new ChildServerError(
+        `Unexpected error starting '${serverKey}': ${(error as Error).message}`,
+        serverKey,
+        ErrorPhase.STARTUP,
+        error as Error
       );
+    log('error', `Failed to start server '${serverKey}': ${childError.message}`, {
+      serverKey,
+      phase: childError.phase
+    });
+
+    const failed: ChildServerClient = {
+      serverKey,
+      client: createChildClient(serverKey, serverConfig),
+      config: serverConfig,
+      status: ServerStatus.FAILED,
+      error: childError,
+      restartCount: 0
     };
+    children.set(serverKey, failed);
+    logInfo(`[INFO] Retrying failed server '${serverKey}' in the background`);
+    scheduleChildRestart(failed, registry, options);
+    return false;
   }
 
-  logInfo(
-    `[INFO] Error handlers configured for ${children.size} child servers`
+  children.set(serverKey, childClient);
+  attachCrashHandlers(childClient, registry, options);
+  if (options.onToolsChanged) {
+    subscribeToToolListChanges(
+      childClient,
+      registry,
+      options.separator ?? ':',
+      options.onToolsChanged
+    );
+  }
+  logInfo(`Child server '${serverKey}' started successfully`);
+
+  return registerChildServer(childClient, registry, options);
+}
+
+/**
+ * Stop a single child server and remove it from the registries
+ *
+ * @param children - Map of child server clients (updated in place)
+ * @param serverKey - Server to stop
+ * @param registry - Tool registry to remove the server's tools from
+ * @param options - Separator and additional registries
+ * @returns True if any tools were removed from the registry
+ */
+export async function stopChildServer(
+  children: Map<string, ChildServerClient>,
+  serverKey: string,
+  registry: ToolRegistry,
+  options: ErrorHandlerOptions = {}
+): Promise<boolean> {
+  const toolsRemoved = await disableChildServer(children, serverKey, registry, options);
+  children.delete(serverKey);
+  return toolsRemoved;
+}
+
+/**
+ * Stop a single child server but keep it in the map with STOPPED status
+ *
+ * Its tools, resources and prompts are removed and it is not restarted until
+ * restartChildServer() is called.
+ *
+ * @param children - Map of child server clients
+ * @param serverKey - Server to disable
+ * @param registry - Tool registry to remove the server's tools from
+ * @param options - Separator and additional registries
+ * @returns True if any tools were removed from the registry
+ */
+export async function disableChildServer(
+  children: Map<string, ChildServerClient>,
+  serverKey: string,
+  registry: ToolRegistry,
+  options: ErrorHandlerOptions = {}
+): Promise<boolean> {
+  const childClient = children.get(serverKey);
+  if (!childClient) {
+    return false;
+  }
+
+  await shutdownChild(childClient);
+  delete childClient.startedAt;
+
+  const toolsRemoved = removeServerTools(registry, serverKey);
+  if (options.resourceRegistry) {
+    removeServerResources(options.resourceRegistry, serverKey);
+  }
+  if (options.promptRegistry) {
+    removeServerPrompts(options.promptRegistry, serverKey);
+  }
+  logInfo(`Child server '${serverKey}' stopped`);
+
+  return toolsRemoved;
+}
+
+/**
+ * Restart a single child server on demand (also re-enables a disabled server)
+ *
+ * The server keeps its position in the map and its restart count is
+ * incremented. A server that fails to come back is kept with FAILED status
+ * and retried in the background.
+ *
+ * @param children - Map of child server clients (updated in place)
+ * @param serverKey - Server to restart
+ * @param registry - Tool registry to update
+ * @param options - Separator and additional registries
+ * @returns True if the server's exposed tools changed
+ */
+export async function restartChildServer(
+  children: Map<string, ChildServerClient>,
+  serverKey: string,
+  registry: ToolRegistry,
+  options: ErrorHandlerOptions = {}
+): Promise<boolean> {
+  const previous = children.get(serverKey);
+  if (!previous) {
+    return false;
+  }
+
+  const order = Array.from(children.keys());
+  const toolsRemoved = await disableChildServer(children, serverKey, registry, options);
+  const toolsAdded = await startChildServer(children, serverKey, previous.config, registry, options);
+  children.get(serverKey)!.restartCount = previous.restartCount + 1;
+
+  for (const key of order) {
+    const child = children.get(key);
+    if (child) {
+      children.delete(key);
+      children.set(key, child);
+    }
+  }
+
+  return toolsRemoved || toolsAdded;
+}
+
+/**
+ * Re-register a running child's tools after its configuration changed
+ *
+ * Applies new tool filters, overrides and timeouts without restarting the
+ * server. A child that is not running picks up the config on its next
+ * (re)start.
+ *
+ * @param childClient - Child server to update
+ * @param serverConfig - New configuration (same connection settings)
+ * @param registry - Tool registry to update
+ * @param options - Separator and additional registries
+ * @returns True if the server's exposed tools changed
+ */
+export async function updateChildServerConfig(
+  childClient: ChildServerClient,
+  serverConfig: ServerConfig,
+  registry: ToolRegistry,
+  options: ErrorHandlerOptions = {}
+): Promise<boolean> {
+  childClient.config = serverConfig;
+  if (childClient.status !== ServerStatus.RUNNING) {
+    return false;
+  }
+  return registerChildServer(childClient, registry, options);
+}
+
+/**
+ * Start an idle (lazy or idled-out) child server in place
+ *
+ * The ChildServerClient keeps its identity, so callers holding it see the new
+ * connection. Crash handlers and tool list subscriptions are attached and the
+ * registry entries are refreshed to point at the new client.
+ *
+ * @param childClient - Idle child server
+ * @param registry - Tool registry to refresh
+ * @param options - Separator and additional registries
+ * @returns True if the server's exposed tools changed
+ * @throws ChildServerError if the server fails to start (it stays IDLE with the error recorded)
+ */
+export async function activateChildServer(
+  childClient: ChildServerClient,
+  registry: ToolRegistry,
+  options: ErrorHandlerOptions = {}
+): Promise<boolean> {
+  const { serverKey } = childClient;
+  childClient.status = ServerStatus.INITIALIZING;
+
+  let started: ChildServerClient;
+  try {
+    logInfo(`Starting child server '${serverKey}' on demand...`);
+    started = await connectToChild(serverKey, childClient.config);
+  } catch (error) {
+    childClient.status = ServerStatus.IDLE;
+    childClient.error = error as Error;
+    throw error;
+  }
+
+  childClient.client = started.client;
+  childClient.status = ServerStatus.RUNNING;
+  childClient.startedAt = started.startedAt ?? Date.now();
+  delete childClient.error;
+
+  attachCrashHandlers(childClient, registry, options);
+  if (options.onToolsChanged) {
+    subscribeToToolListChanges(
+      childClient,
+      registry,
+      options.separator ?? ':',
+      options.onToolsChanged
+    );
+  }
+  logInfo(`Child server '${serverKey}' started on demand`);
+
+  return registerChildServer(childClient, registry, options);
+}
+
+/**
+ * Shut down a running child server but keep its tools, resources and prompts listed
+ *
+ * The server is marked IDLE before its connection is closed, so a call that
+ * arrives while it is shutting down starts it again via activateChildServer()
+ * instead of being sent to the closing connection.
+ *
+ * @param childClient - Running child server
+ */
+export async function deactivateChildServer(childClient: ChildServerClient): Promise<void> {
+  const { serverKey, client } = childClient;
+  cancelRestart(childClient);
+
+  // Not RUNNING, so the close event is not treated as a crash either
+  childClient.status = ServerStatus.IDLE;
+  delete childClient.startedAt;
+
+  try {
+    await client.close();
+  } catch (error) {
+    logError(`Error shutting down '${serverKey}':`, error);
+  }
+  logInfo(`Child server '${serverKey}' shut down after being idle`);
+}
+
+/**
+ * Attach crash handlers to a child's current client connection
+ *
+ * @param childClient - Child server to watch
+ * @param registry - Tool registry to update when the server crashes
+ * @param options - Separator and additional registries
+ */
+function attachCrashHandlers(
+  childClient: ChildServerClient,
+  registry: ToolRegistry,
+  options: ErrorHandlerOptions
+): void {
+  const { serverKey, client } = childClient;
+
+  const handleCrash = (error: Error): void => {
+    // Ignore events from a replaced client or a server that is not running
+    // (already crashed, restarting, or intentionally stopped)
+    if (childClient.client !== client || childClient.status !== ServerStatus.RUNNING) {
+      return;
+    }
+
+    // T111: Add error logging for child failures
+    logError(
+      `[ERROR] Child server '${serverKey}' crashed: ${error.message}`
+    );
+    logError(`[ERROR] Stack trace:`, error.stack);
+
+    // Update child status
+    childClient.status = ServerStatus.FAILED;
+    childClient.error = error;
+
+    // T110: Implement graceful degradation on child crash
+    // T112: Ensure aggregator continues with remaining servers
+    logInfo(
+      `[INFO] Removing tools for crashed server '${serverKey}' from registry`
+    );
+    const toolsRemoved = removeServerTools(registry, serverKey);
+    if (options.resourceRegistry) {
+      removeServerResources(options.resourceRegistry, serverKey);
+    }
+    if (options.promptRegistry) {
+      removeServerPrompts(options.promptRegistry, serverKey);
+    }
+
+    const remainingTools = registry.size;
+    logInfo(
+      `[INFO] Aggregator continues serving with ${remainingTools} tools from remaining servers`
+    );
+    if (toolsRemoved) {
+      options.onToolsChanged?.();
+    }
+
+    // Make sure the old process is gone before a replacement is spawned
+    client.close().catch((closeError: unknown) => {
+      logError(`[ERROR] Error closing crashed server '${serverKey}':`, closeError);
+    });
+
+    scheduleChildRestart(childClient, registry, options);
+  };
+
+  // T109: Implement child error event handlers
+  client.onerror = handleCrash;
+  client.onclose = () => {
+    handleCrash(new Error(`Connection to child server '${serverKey}' closed`));
+  };
+}
+
+/**
+ * Schedule a restart of a failed child and re-register it once it is running
+ *
+ * @param childClient - Failed child server
+ * @param registry - Tool registry to update after the restart
+ * @param options - Separator and additional registries
+ */
+function scheduleChildRestart(
+  childClient: ChildServerClient,
+  registry: ToolRegistry,
+  options: ErrorHandlerOptions
+): void {
+  const { serverKey } = childClient;
+  const separator = options.separator ?? ':';
+
+  scheduleRestart(childClient, connectToChild, async (restarted) => {
+    attachCrashHandlers(restarted, registry, options);
+    if (options.onToolsChanged) {
+      subscribeToToolListChanges(restarted, registry, separator, options.onToolsChanged);
+    }
+    const toolsChanged = await registerChildServer(restarted, registry, options);
+    if (toolsChanged) {
+      options.onToolsChanged?.();
+    }
+    logInfo(
+      `[INFO] Child server '${serverKey}' restarted (restart #${restarted.restartCount}) with ${registry.size} tools in registry`
+    );
+  });
+}
+
+/**
+ * Register a running child's tools, resources and prompts
+ *
+ * @param childClient - Running child server
+ * @param registry - Tool registry to update
+ * @param options - Separator and additional registries
+ * @returns True if the server's exposed tools changed
+ */
+async function registerChildServer(
+  childClient: ChildServerClient,
+  registry: ToolRegistry,
+  options: ErrorHandlerOptions
+): Promise<boolean> {
+  const { serverKey, client } = childClient;
+  const separator = options.separator ?? ':';
+
+  const toolsChanged = await refreshServerTools(
+    registry,
+    serverKey,
+    client,
+    separator,
+    childClient.config
   );
+  if (options.resourceRegistry) {
+    await refreshServerResources(options.resourceRegistry, serverKey, client, separator);
+  }
+  if (options.promptRegistry) {
+    await refreshServerPrompts(options.promptRegistry, serverKey, client, separator);
+  }
+
+  return toolsChanged;
+}
+
+/**
+ * Reject with an INITIALIZATION ChildServerError if a startup step takes too long
+ *
+ * @param promise - Connect handshake and health check
+ * @param timeoutMs - Time allowed in milliseconds
+ * @param serverKey - Server being started (for the error)
+ */
+async function withStartupTimeout(
+  promise: Promise<void>,
+  timeoutMs: number,
+  serverKey: string
+): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(new ChildServerError(
+        `Child server '${serverKey}' did not finish starting within ${timeoutMs}ms\n\nExample: Increase the timeout for slow servers (e.g., first-time npx installs):\n  "startupTimeoutMs": 120000`,
+        serverKey,
+        ErrorPhase.INITIALIZATION
+      ));
+    }, timeoutMs);
+  });
+
+  try {
+    await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run an async worker over items with at most `limit` in flight at once
+ *
+ * @param items - Items to process
+ * @param limit - Maximum concurrent workers (at least 1)
+ * @param worker - Async function applied to each item; must not reject
+ */
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const runnerCount = Math.min(Math.max(1, limit), items.length);
+
+  const runners = Array.from({ length: runnerCount }, async () => {
+    while (next < items.length) {
+      const item = items[next++] as T;
+      await worker(item);
+    }
+  });
+
+  await Promise.all(runners);
 }
@@ -0,0 +1,119 @@
+/**
+ * Child Stderr Module
+ *
+ * Captures the stderr output of stdio child servers line by line. Lines are
+ * written through the aggregator's logger tagged with the serverKey, or to
+ * one log file per child when a child log directory is set, and the last
+ * lines are kept so a failed start can report what the child printed.
+ */
+
+import { createWriteStream } from 'fs';
+import type { WriteStream } from 'fs';
+import { createInterface } from 'readline';
+import type { Readable } from 'stream';
+import path from 'path';
+import { log } from './logger.js';
+
+/**
+ * Number of stderr lines kept per child (and attached to startup errors)
+ */
+export const DEFAULT_STDERR_TAIL_LINES = 20;
+
+/**
+ * Directory for per-child stderr log files (unset: write through the logger)
+ */
+let childLogDir: string | null = null;
+
+/**
+ * Captured stderr of one child process
+ */
+export interface StderrCapture {
+  /** Last lines written by the child, oldest first */
+  readonly tail: string[];
+
+  /** Resolves once the child's stderr has ended */
+  readonly ended: Promise<void>;
+}
+
+/**
+ * Write child stderr to `<dir>/<serverKey>.log` instead of the aggregator log
+ * (characters other than letters, digits, `.`, `_` and `-` become `_`)
+ * @param dir - Directory for per-child log files, or null to use the logger
+ */
+export function setChildLogDir(dir: string | null): void {
+  childLogDir = dir;
+}
+
+/**
+ * Capture a child's stderr stream
+ *
+ * @param serverKey - Server the stream belongs to
+ * @param stream - Child stderr (e.g., StdioClientTransport.stderr with stderr: 'pipe')
+ * @param maxLines - Number of lines to keep in the tail (default: 20)
+ * @returns Capture with the tail of the output
+ *
+ * @example
+ * const capture = captureChildStderr('filesystem', transport.stderr);
+ * // later: capture.tail -> ['Error: EACCES: permission denied, open ...']
+ */
+export function captureChildStderr(
+  serverKey: string,
+  stream: Readable,
+  maxLines: number = DEFAULT_STDERR_TAIL_LINES
+): StderrCapture {
+  const tail: string[] = [];
+  let file: WriteStream | null = null;
+
+  if (childLogDir) {
+    file = createWriteStream(path.join(childLogDir, toLogFileName(serverKey)), { flags: 'a' });
+    file.on('error', () => {
+      // Silent fallback - a broken log file must not affect the child
+    });
+  }
+
+  const lines = createInterface({ input: stream, crlfDelay: Infinity });
+  lines.on('line', (line) => {
+    tail.push(line);
+    if (tail.length > maxLines) {
+      tail.shift();
+    }
+
+    if (file) {
+      file.write(`${new Date().toISOString()} ${line}\n`);
+    } else {
+      log('info', `[${serverKey}] ${line}`, { serverKey, stream: 'stderr' });
+    }
+  });
+
+  const ended = new Promise<void>((resolve) => {
+    lines.on('close', () => {
+      file?.end();
+      resolve();
+    });
+  });
+
+  return { tail, ended };
+}
+
+/**
+ * Name of a child's log file, with characters that are unsafe in file names
+ * (path separators included) replaced by `_`, so every file stays in the
+ * child log directory
+ * @param serverKey - Server the log file belongs to
+ * @returns e.g. "github.log", or ".._x.log" for the server key "../x"
+ */
+function toLogFileName(serverKey: string): string {
+  return `${serverKey.replace(/[^a-zA-Z0-9._-]/g, '_')}.log`;
+}
+
+/**
+ * Format a stderr tail for an error message
+ * @param tail - Captured lines
+ * @returns Text block to append to the message, or '' if there is no output
+ */
+export function formatStderrTail(tail: string[]): string {
+  if (tail.length === 0) {
+    return '';
+  }
+  return `\n\nLast ${tail.length} line${tail.length === 1 ? '' : 's'} of stderr:\n${tail.map(line => `  ${line}`).join('\n')}`;
+}
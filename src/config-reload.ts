@@ -0,0 +1,331 @@
+/**
+ * Config Reload Module
+ *
+ * Applies an edited config file to the running aggregator without a restart.
+ * The new config is diffed against the running children: added servers are
+ * started, removed ones stopped, servers whose connection settings changed
+ * are restarted, and servers with other changes (tool filters, overrides,
+ * timeouts) have their tools re-registered. Lazy servers are added and
+ * updated from the schema cache without being started. Virtual tools are
+ * only read at startup; a reload that changes them logs a warning. Reloads
+ * are triggered by SIGHUP or, with --watch, by changes to the config file.
+ */
+
+import { watch } from 'fs';
+import path from 'path';
+import type { ChildServerClient, McpConfig, ServerConfig, ToolRegistry, VirtualToolConfig } from './types.js';
+import { ServerStatus } from './types.js';
+import {
+  readConfigFile,
+  parseConfig,
+  expandConfigEnvVars,
+  assertNoReservedServerKeys,
+  CONNECTION_FIELDS
+} from './config.js';
+import {
+  startChildServer,
+  stopChildServer,
+  updateChildServerConfig
+} from './child-manager.js';
+import type { ErrorHandlerOptions } from './child-manager.js';
+import { startLazyServer, updateIdleServerConfig } from './lazy-start.js';
+import type { ChildActivator } from './lazy-start.js';
+import type { SchemaCache } from './schema-cache.js';
+import { logInfo, logDebug, logWarn, logError } from './logger.js';
+
+/**
+ * Time to wait for a burst of file change events to settle before reloading
+ */
+export const DEFAULT_RELOAD_DEBOUNCE_MS = 200;
+
+/**
+ * Server keys grouped by how a config reload affects them
+ */
+export interface ConfigDiff {
+  /** Servers new in the config (started) */
+  added: string[];
+
+  /** Servers no longer in the config (stopped) */
+  removed: string[];
+
+  /** Servers whose command, args, env, remote connection or lazy setting changed (restarted) */
+  restarted: string[];
+
+  /** Servers with other changes, e.g. tool filters or overrides (tools re-registered) */
+  updated: string[];
+}
+
+/**
+ * Settings for createConfigReloader()
+ */
+export interface ConfigReloaderOptions {
+  /** Also reload whenever the config file changes (default: false) */
+  watch?: boolean;
+
+  /** Quiet period after a file change before reloading (default: 200) */
+  debounceMs?: number;
+
+  /** Server keys the config may not use, e.g. the management tools namespace */
+  reservedServerKeys?: string[];
+
+  /** Schema cache for lazy servers (without it, lazy servers are started right away) */
+  schemaCache?: SchemaCache;
+
+  /** Virtual tools served since startup (changes need a restart) */
+  virtualTools?: Record<string, VirtualToolConfig>;
+
+  /** Activator that shuts down idle servers, including those a reload starts */
+  activator?: ChildActivator;
+}
+
+/**
+ * Handle for a running config reloader
+ */
+export interface ConfigReloader {
+  /**
+   * Re-read the config file and apply it. Reloads never overlap; an invalid
+   * config is logged and the running config is kept.
+   * @returns The applied changes, or undefined if the config could not be loaded
+   */
+  reload(): Promise<ConfigDiff | undefined>;
+
+  /** Stop watching the config file */
+  close(): void;
+}
+
+/**
+ * Compare two sets of server configurations
+ *
+ * @param current - Server configs currently running, keyed by server key
+ * @param next - Server configs from the reloaded config file
+ * @returns Server keys grouped by the action a reload takes
+ *
+ * @example
+ * diffServerConfigs({ db: { command: 'node' } }, { db: { command: 'node', args: ['v2'] } });
+ * // { added: [], removed: [], restarted: ['db'], updated: [] }
+ */
+export function diffServerConfigs(
+  current: Record<string, ServerConfig>,
+  next: Record<string, ServerConfig>
+): ConfigDiff {
+  const diff: ConfigDiff = { added: [], removed: [], restarted: [], updated: [] };
+
+  for (const serverKey of Object.keys(current)) {
+    if (!(serverKey in next)) {
+      diff.removed.push(serverKey);
+    }
+  }
+
+  for (const [serverKey, nextConfig] of Object.entries(next)) {
+    const currentConfig = current[serverKey];
+    if (!currentConfig) {
+      diff.added.push(serverKey);
+    } else if (
+      CONNECTION_FIELDS.some(field => !isSameValue(currentConfig[field], nextConfig[field])) ||
+      Boolean(currentConfig.lazy) !== Boolean(nextConfig.lazy)
+    ) {
+      diff.restarted.push(serverKey);
+    } else if (!isSameValue(currentConfig, nextConfig)) {
+      diff.updated.push(serverKey);
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Apply a new configuration to the running children
+ *
+ * Removed and restarted servers are stopped first, then restarted and added
+ * servers are started. Servers that fail to start are kept with FAILED status
+ * and retried in the background; startup policies and `required` only apply
+ * at initial startup. With a schema cache, lazy servers with a cache entry
+ * are registered IDLE instead of started, and IDLE servers re-register their
+ * cached tools under the new config. Servers with idleTimeoutMs that were
+ * started get their idle timer from the activator. options.onToolsChanged is
+ * called once if the tool set changed.
+ *
+ * @param children - Map of child server clients (updated in place, kept in config order)
+ * @param config - New (validated and expanded) configuration
+ * @param registry - Tool registry to update
+ * @param options - Separator, additional registries and change callback
+ * @param schemaCache - Schema cache for lazy servers (optional)
+ * @param activator - Activator timing idle shutdowns (optional)
+ * @returns The applied changes
+ */
+export async function applyConfigChanges(
+  children: Map<string, ChildServerClient>,
+  config: McpConfig,
+  registry: ToolRegistry,
+  options: ErrorHandlerOptions = {},
+  schemaCache?: SchemaCache,
+  activator?: ChildActivator
+): Promise<ConfigDiff> {
+  const current = Object.fromEntries(
+    Array.from(children, ([serverKey, child]) => [serverKey, child.config])
+  );
+  const diff = diffServerConfigs(current, config.mcpServers);
+
+  const stopped = await Promise.all(
+    [...diff.removed, ...diff.restarted].map(serverKey =>
+      stopChildServer(children, serverKey, registry, options)
+    )
+  );
+
+  const started = await Promise.all(
+    [...diff.restarted, ...diff.added].map(serverKey => {
+      const serverConfig = config.mcpServers[serverKey]!;
+      return serverConfig.lazy && schemaCache
+        ? startLazyServer(children, serverKey, serverConfig, registry, schemaCache, options)
+        : startChildServer(children, serverKey, serverConfig, registry, options);
+    })
+  );
+  for (const serverKey of [...diff.restarted, ...diff.added]) {
+    activator?.startIdleTimer(serverKey);
+  }
+
+  const updated = await Promise.all(
+    diff.updated.map(async serverKey => {
+      const child = children.get(serverKey)!;
+      const serverConfig = config.mcpServers[serverKey]!;
+      try {
+        if (child.status === ServerStatus.IDLE && schemaCache) {
+          return updateIdleServerConfig(child, serverConfig, registry, schemaCache, options.separator);
+        }
+        return await updateChildServerConfig(child, serverConfig, registry, options);
+      } catch (error) {
+        logError(`[ERROR] Failed to refresh tools for '${serverKey}':`, (error as Error).message);
+        return false;
+      }
+    })
+  );
+
+  // Keep the children map (and status reports) in config order
+  for (const serverKey of Object.keys(config.mcpServers)) {
+    const child = children.get(serverKey);
+    if (child) {
+      children.delete(serverKey);
+      children.set(serverKey, child);
+    }
+  }
+
+  if ([...stopped, ...started, ...updated].some(Boolean)) {
+    options.onToolsChanged?.();
+  }
+
+  logInfo(
+    `[INFO] Config reloaded: ${diff.added.length} added, ${diff.removed.length} removed, ${diff.restarted.length} restarted, ${diff.updated.length} updated`
+  );
+  return diff;
+}
+
+/**
+ * Create a reloader that re-reads the config file into the running children
+ *
+ * @param configPath - Path to the config file
+ * @param children - Map of child server clients (updated in place)
+ * @param registry - Tool registry to update
+ * @param options - Separator, additional registries and change callback
+ * @param reloaderOptions - File watching, reserved server keys, schema cache, virtual tools and activator
+ * @returns Reloader; call reload() on SIGHUP and close() on shutdown
+ *
+ * @example
+ * const reloader = createConfigReloader(args.configPath, children, registry, options, { watch: true });
+ * process.on('SIGHUP', () => void reloader.reload());
+ */
+export function createConfigReloader(
+  configPath: string,
+  children: Map<string, ChildServerClient>,
+  registry: ToolRegistry,
+  options: ErrorHandlerOptions = {},
+  reloaderOptions: ConfigReloaderOptions = {}
+): ConfigReloader {
+  const {
+    watch: watchFile = false,
+    debounceMs = DEFAULT_RELOAD_DEBOUNCE_MS,
+    reservedServerKeys = [],
+    schemaCache,
+    virtualTools,
+    activator
+  } = reloaderOptions;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const runReload = async (): Promise<ConfigDiff | undefined> => {
+    let config: McpConfig;
+    try {
+      const rawConfig = await readConfigFile(configPath);
+      config = expandConfigEnvVars(parseConfig(rawConfig)) as McpConfig;
+      assertNoReservedServerKeys(config, reservedServerKeys);
+    } catch (error) {
+      logError(
+        `[ERROR] Config reload failed, keeping the running config: ${(error as Error).message}`
+      );
+      return undefined;
+    }
+
+    if (!isSameValue(config.virtualTools, virtualTools)) {
+      logWarn('[WARN] virtualTools changed in the config; restart the aggregator to apply them');
+    }
+
+    return applyConfigChanges(children, config, registry, options, schemaCache, activator);
+  };
+
+  const reload = (): Promise<ConfigDiff | undefined> => {
+    const result = queue.then(runReload);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  let watcher: ReturnType<typeof watch> | undefined;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  if (watchFile) {
+    // Watch the directory: editors often replace the file instead of writing in place
+    const fileName = path.basename(configPath);
+    watcher = watch(path.dirname(configPath), (_event, changed) => {
+      if (changed !== null && changed.toString() !== fileName) {
+        return;
+      }
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        logDebug(`[DEBUG] Config file changed: ${configPath}`);
+        reload().catch((error: unknown) => {
+          logError('[ERROR] Config reload failed:', (error as Error).message);
+        });
+      }, debounceMs);
+    });
+    logInfo(`[INFO] Watching ${configPath} for changes`);
+  }
+
+  return {
+    reload,
+    close(): void {
+      clearTimeout(timer);
+      watcher?.close();
+    }
+  };
+}
+
+/**
+ * Deep equality for JSON config values (object key order is ignored)
+ * @param a - First value
+ * @param b - Second value
+ * @returns True if both values are equal
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = Object.keys(aRecord);
+  return keys.length === Object.keys(bRecord).length &&
+    keys.every(key => key in bRecord && isSameValue(aRecord[key], bRecord[key]));
+}
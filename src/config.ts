@@ -10,6 +10,14 @@ import {
   ConfigErrorCode
 } from './types.js';
 
+/**
+ * ServerConfig fields that decide which process or endpoint a child connects to
+ *
+ * A change to any of them requires restarting the child and invalidates its
+ * schema cache entry.
+ */
+export const CONNECTION_FIELDS = ['command', 'args', 'env', 'url', 'transport', 'headers'] as const;
+
 /**
  * T029: Read and parse MCP configuration from a JSON file
  * @param filePath - Absolute path to the configuration file
@@ -128,8 +136,22 @@ export function validateConfig(config: unknown): ConfigValidation {
 
     const server = serverValue as Record<string, unknown>;
 
-    // T032: Command field is required
-    if (!('command' in server)) {
+    // T032: Command field is required for local servers; remote servers use url instead
+    if ('command' in server && 'url' in server) {
+      errors.push({
+        path: `$.mcpServers.${serverKey}`,
+        message: 'Server config must have either command or url, not both',
+        value: server
+      });
+    } else if ('url' in server) {
+      if (typeof server.url !== 'string' || !isHttpUrl(server.url)) {
+        errors.push({
+          path: `$.mcpServers.${serverKey}.url`,
+          message: 'url must be an http:// or https:// URL',
+          value: server.url
+        });
+      }
+    } else if (!('command' in server)) {
       errors.push({
         path: `$.mcpServers.${serverKey}.command`,
         message: 'Missing required field: command',
@@ -143,6 +165,45 @@ export function validateConfig(config: unknown): ConfigValidation {
       });
     }
 
+    // Transport must match the kind of server if present
+    if ('transport' in server) {
+      const allowed = 'url' in server ? ['sse', 'streamable-http'] : ['stdio'];
+      if (typeof server.transport !== 'string' || !allowed.includes(server.transport)) {
+        errors.push({
+          path: `$.mcpServers.${serverKey}.transport`,
+          message: `transport must be one of: ${allowed.join(', ')} (for a server with ${'url' in server ? 'url' : 'command'})`,
+          value: server.transport
+        });
+      }
+    }
+
+    // Headers must be an object of strings, and only apply to remote servers
+    if ('headers' in server) {
+      if (typeof server.headers !== 'object' || server.headers === null || Array.isArray(server.headers)) {
+        errors.push({
+          path: `$.mcpServers.${serverKey}.headers`,
+          message: 'headers must be an object',
+          value: server.headers
+        });
+      } else if (!('url' in server)) {
+        errors.push({
+          path: `$.mcpServers.${serverKey}.headers`,
+          message: 'headers can only be used with url',
+          value: server.headers
+        });
+      } else {
+        for (const [headerName, headerValue] of Object.entries(server.headers as Record<string, unknown>)) {
+          if (typeof headerValue !== 'string') {
+            errors.push({
+              path: `$.mcpServers.${serverKey}.headers.${headerName}`,
+              message: 'Header value must be a string',
+              value: headerValue
+            });
+          }
+        }
+      }
+    }
+
     // Args must be an array of strings if present
     if ('args' in server) {
       if (!Array.isArray(server.args)) {
@@ -186,6 +247,120 @@ export function validateConfig(config: unknown): ConfigValidation {
         }
       }
     }
+
+    // Restart policy must be an object of non-negative numbers if present
+    if ('restart' in server) {
+      if (typeof server.restart !== 'object' || server.restart === null || Array.isArray(server.restart)) {
+        errors.push({
+          path: `$.mcpServers.${serverKey}.restart`,
+          message: 'restart must be an object',
+          value: server.restart
+        });
+      } else {
+        const restartObj = server.restart as Record<string, unknown>;
+        for (const field of ['initialDelayMs', 'maxDelayMs', 'maxAttempts']) {
+          if (field in restartObj && !isNonNegativeNumber(restartObj[field])) {
+            errors.push({
+              path: `$.mcpServers.${serverKey}.restart.${field}`,
+              message: `${field} must be a non-negative number`,
+              value: restartObj[field]
+            });
+          }
+        }
+      }
+    }
+
+    // Startup, call and idle timeouts must be positive numbers if present
+    for (const field of ['startupTimeoutMs', 'callTimeoutMs', 'idleTimeoutMs']) {
+      if (field in server && !isPositiveNumber(server[field])) {
+        errors.push({
+          path: `$.mcpServers.${serverKey}.${field}`,
+          message: `${field} must be a positive number`,
+          value: server[field]
+        });
+      }
+    }
+
+    // Tool filters must be arrays of non-empty strings if present
+    for (const field of ['includeTools', 'excludeTools']) {
+      if (!(field in server)) {
+        continue;
+      }
+      const patterns = server[field];
+      if (!Array.isArray(patterns)) {
+        errors.push({
+          path: `$.mcpServers.${serverKey}.${field}`,
+          message: `${field} must be an array`,
+          value: patterns
+        });
+        continue;
+      }
+      patterns.forEach((pattern, index) => {
+        if (typeof pattern !== 'string' || pattern.trim() === '') {
+          errors.push({
+            path: `$.mcpServers.${serverKey}.${field}[${index}]`,
+            message: 'Each tool pattern must be a non-empty string',
+            value: pattern
+          });
+        }
+      });
+    }
+
+    // Tool prefix must be a non-empty string or false if present
+    if ('prefix' in server && server.prefix !== false
+      && (typeof server.prefix !== 'string' || server.prefix.trim() === '')) {
+      errors.push({
+        path: `$.mcpServers.${serverKey}.prefix`,
+        message: 'prefix must be a non-empty string or false',
+        value: server.prefix
+      });
+    }
+
+    if ('redactArguments' in server) {
+      errors.push(...validateRedactArguments(`$.mcpServers.${serverKey}.redactArguments`, server.redactArguments));
+    }
+
+    // Tool overrides must be an object of override objects if present
+    if ('tools' in server) {
+      if (typeof server.tools !== 'object' || server.tools === null || Array.isArray(server.tools)) {
+        errors.push({
+          path: `$.mcpServers.${serverKey}.tools`,
+          message: 'tools must be an object keyed by tool name',
+          value: server.tools
+        });
+      } else {
+        for (const [toolName, override] of Object.entries(server.tools as Record<string, unknown>)) {
+          errors.push(...validateToolOverride(`$.mcpServers.${serverKey}.tools.${toolName}`, override));
+        }
+      }
+    }
+
+    // Required and lazy flags must be booleans if present
+    for (const field of ['required', 'lazy']) {
+      if (field in server && typeof server[field] !== 'boolean') {
+        errors.push({
+          path: `$.mcpServers.${serverKey}.${field}`,
+          message: `${field} must be a boolean`,
+          value: server[field]
+        });
+      }
+    }
+  }
+
+  // Virtual tools must be an object of virtual tool definitions if present
+  if ('virtualTools' in typed) {
+    if (!isObject(typed.virtualTools)) {
+      errors.push({
+        path: '$.virtualTools',
+        message: 'virtualTools must be an object keyed by tool name',
+        value: typed.virtualTools
+      });
+    } else {
+      const virtualToolNames = Object.keys(typed.virtualTools);
+      for (const [toolName, virtualTool] of Object.entries(typed.virtualTools)) {
+        errors.push(...validateVirtualTool(`$.virtualTools.${toolName}`, toolName, virtualTool, virtualToolNames));
+      }
+    }
   }
 
   return {
@@ -194,6 +369,276 @@ export function validateConfig(config: unknown): ConfigValidation {
   };
 }
 
+/**
+ * Reject a config that uses a reserved server key
+ *
+ * @param config - Configuration to check
+ * @param reservedServerKeys - Server keys used by the aggregator itself
+ * @throws ConfigError with INVALID_SCHEMA if a reserved key is configured
+ */
+export function assertNoReservedServerKeys(config: McpConfig, reservedServerKeys: string[]): void {
+  for (const serverKey of reservedServerKeys) {
+    if (serverKey in config.mcpServers) {
+      throw new ConfigError(
+        `Server key '${serverKey}' is reserved by the aggregator\n\nExample: Rename the server in your config (e.g., "${serverKey}-server")`,
+        ConfigErrorCode.INVALID_SCHEMA,
+        { path: `$.mcpServers.${serverKey}` }
+      );
+    }
+  }
+}
+
+/**
+ * Validate a single entry of a server's `tools` override block
+ * @param path - JSON path of the override (for error messages)
+ * @param override - Raw override value
+ * @returns Validation errors (empty if valid)
+ */
+function validateToolOverride(path: string, override: unknown): ValidationError[] {
+  if (typeof override !== 'object' || override === null || Array.isArray(override)) {
+    return [{ path, message: 'Tool override must be an object', value: override }];
+  }
+
+  const errors: ValidationError[] = [];
+  const typed = override as Record<string, unknown>;
+
+  if ('name' in typed && !isToolName(typed.name)) {
+    errors.push({
+      path: `${path}.name`,
+      message: 'name must be a non-empty string without whitespace',
+      value: typed.name
+    });
+  }
+
+  if ('aliases' in typed) {
+    if (!Array.isArray(typed.aliases)) {
+      errors.push({ path: `${path}.aliases`, message: 'aliases must be an array', value: typed.aliases });
+    } else {
+      typed.aliases.forEach((alias, index) => {
+        if (!isToolName(alias)) {
+          errors.push({
+            path: `${path}.aliases[${index}]`,
+            message: 'Each alias must be a non-empty string without whitespace',
+            value: alias
+          });
+        }
+      });
+    }
+  }
+
+  for (const field of ['description', 'appendDescription']) {
+    if (field in typed && typeof typed[field] !== 'string') {
+      errors.push({ path: `${path}.${field}`, message: `${field} must be a string`, value: typed[field] });
+    }
+  }
+
+  if ('callTimeoutMs' in typed && !isPositiveNumber(typed.callTimeoutMs)) {
+    errors.push({
+      path: `${path}.callTimeoutMs`,
+      message: 'callTimeoutMs must be a positive number',
+      value: typed.callTimeoutMs
+    });
+  }
+
+  if ('redactArguments' in typed) {
+    errors.push(...validateRedactArguments(`${path}.redactArguments`, typed.redactArguments));
+  }
+
+  // Pinned and default arguments must be objects keyed by argument name
+  for (const field of ['pinnedArguments', 'defaultArguments']) {
+    if (field in typed && !isObject(typed[field])) {
+      errors.push({ path: `${path}.${field}`, message: `${field} must be an object`, value: typed[field] });
+    }
+  }
+  if (isObject(typed.pinnedArguments) && isObject(typed.defaultArguments)) {
+    for (const name of Object.keys(typed.pinnedArguments)) {
+      if (name in typed.defaultArguments) {
+        errors.push({
+          path: `${path}.defaultArguments.${name}`,
+          message: 'An argument cannot be both pinned and defaulted',
+          value: typed.defaultArguments[name]
+        });
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a single virtual tool definition
+ * @param path - JSON path of the virtual tool (for error messages)
+ * @param toolName - Exposed name of the virtual tool
+ * @param virtualTool - Raw virtual tool value
+ * @param virtualToolNames - Names of all virtual tools (steps may not call them)
+ * @returns Validation errors (empty if valid)
+ */
+function validateVirtualTool(
+  path: string,
+  toolName: string,
+  virtualTool: unknown,
+  virtualToolNames: string[]
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (!isToolName(toolName)) {
+    errors.push({ path, message: 'Virtual tool name must be a non-empty string without whitespace', value: toolName });
+  }
+  if (!isObject(virtualTool)) {
+    return [...errors, { path, message: 'Virtual tool must be an object', value: virtualTool }];
+  }
+
+  const { mode, steps } = virtualTool;
+  if (mode !== 'fanOut' && mode !== 'chain') {
+    errors.push({ path: `${path}.mode`, message: 'mode must be "fanOut" or "chain"', value: mode });
+  }
+
+  if ('description' in virtualTool && typeof virtualTool.description !== 'string') {
+    errors.push({ path: `${path}.description`, message: 'description must be a string', value: virtualTool.description });
+  }
+
+  if ('inputSchema' in virtualTool && !isObject(virtualTool.inputSchema)) {
+    errors.push({ path: `${path}.inputSchema`, message: 'inputSchema must be an object', value: virtualTool.inputSchema });
+  }
+
+  if ('callTimeoutMs' in virtualTool && !isPositiveNumber(virtualTool.callTimeoutMs)) {
+    errors.push({
+      path: `${path}.callTimeoutMs`,
+      message: 'callTimeoutMs must be a positive number',
+      value: virtualTool.callTimeoutMs
+    });
+  }
+
+  if (!Array.isArray(steps) || steps.length === 0) {
+    errors.push({ path: `${path}.steps`, message: 'steps must be a non-empty array', value: steps });
+    return errors;
+  }
+
+  steps.forEach((step, index) => {
+    const stepPath = `${path}.steps[${index}]`;
+    if (!isObject(step)) {
+      errors.push({ path: stepPath, message: 'Each step must be an object', value: step });
+      return;
+    }
+
+    if (typeof step.tool !== 'string' || step.tool === '') {
+      errors.push({ path: `${stepPath}.tool`, message: 'tool must be a non-empty string', value: step.tool });
+    } else if (virtualToolNames.includes(step.tool)) {
+      errors.push({ path: `${stepPath}.tool`, message: 'Steps cannot call virtual tools', value: step.tool });
+    }
+
+    if (!('arguments' in step)) {
+      return;
+    }
+    if (!isObject(step.arguments)) {
+      errors.push({ path: `${stepPath}.arguments`, message: 'arguments must be an object', value: step.arguments });
+      return;
+    }
+
+    // {{input.*}} is always available; {{previous.*}} only after the first step of a chain
+    const placeholders = JSON.stringify(step.arguments).match(/\{\{[^{}]*\}\}/g) ?? [];
+    for (const placeholder of placeholders) {
+      const root = placeholder.slice(2, -2).trim().split('.')[0];
+      if (root === 'previous' && (mode !== 'chain' || index === 0)) {
+        errors.push({
+          path: `${stepPath}.arguments`,
+          message: '{{previous.*}} is only available after the first step of a chain',
+          value: placeholder
+        });
+      } else if (root !== 'input' && root !== 'previous') {
+        errors.push({
+          path: `${stepPath}.arguments`,
+          message: 'Placeholders must start with "input" or "previous"',
+          value: placeholder
+        });
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Validate a list of audit log redaction paths
+ * @param path - JSON path of the list (for error messages)
+ * @param value - Raw redactArguments value
+ * @returns Validation errors (empty if valid)
+ */
+function validateRedactArguments(path: string, value: unknown): ValidationError[] {
+  if (!Array.isArray(value)) {
+    return [{ path, message: 'redactArguments must be an array', value }];
+  }
+
+  const errors: ValidationError[] = [];
+  value.forEach((argumentPath, index) => {
+    if (typeof argumentPath !== 'string' || argumentPath.split('.').some(segment => segment === '')) {
+      errors.push({
+        path: `${path}[${index}]`,
+        message: 'Each argument path must be a non-empty, dot-separated string (e.g., "auth.token")',
+        value: argumentPath
+      });
+    }
+  });
+  return errors;
+}
+
+/**
+ * Check that a config value can be used as an exposed tool name
+ * @param value - Value to check
+ * @returns True if value is a non-empty string without whitespace
+ */
+function isToolName(value: unknown): boolean {
+  return typeof value === 'string' && value !== '' && !/\s/.test(value);
+}
+
+/**
+ * Check that a config value is a plain object
+ * @param value - Value to check
+ * @returns True if value is a non-null, non-array object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check that a config value is a finite number >= 0
+ * @param value - Value to check
+ * @returns True if value is a non-negative number
+ */
+function isNonNegativeNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Check that a config value is a finite number > 0
+ * @param value - Value to check
+ * @returns True if value is a positive number
+ */
+function isPositiveNumber(value: unknown): boolean {
+  return isNonNegativeNumber(value) && value !== 0;
+}
+
+/**
+ * Check that a value is an http(s) URL
+ *
+ * Config is validated before environment expansion, so URLs containing
+ * $VAR / ${VAR} references are accepted here and checked when connecting.
+ *
+ * @param value - Candidate URL
+ * @returns True if the value is an http:// or https:// URL
+ */
+function isHttpUrl(value: string): boolean {
+  if (value.includes('$')) {
+    return value.trim() !== '';
+  }
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
 /**
  * T039: Expand environment variables in a string using regex replacement
  * Supports both ${VAR} and $VAR syntax
@@ -0,0 +1,359 @@
+/**
+ * HTTP Server Module
+ *
+ * Serves the aggregator over HTTP so several MCP clients can share one set of
+ * child servers. Each client session gets its own MCP Server instance (from
+ * createServer), all backed by the same registries and child connections.
+ *
+ * Endpoints:
+ * - /mcp       Streamable HTTP (POST, GET and DELETE with Mcp-Session-Id)
+ * - /sse       Legacy HTTP+SSE stream (GET)
+ * - /messages  Legacy HTTP+SSE messages (POST ?sessionId=...)
+ *
+ * Requests whose Host or Origin header names another host are rejected with
+ * 403 (DNS rebinding protection). By default only the bind host is allowed,
+ * plus the loopback names when bound to a loopback or wildcard address.
+ */
+
+import { createServer as createHttpServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { randomUUID } from 'node:crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { logInfo, logDebug, logError } from './logger.js';
+
+/**
+ * Default port for --transport http
+ */
+export const DEFAULT_HTTP_PORT = 3000;
+
+/**
+ * Default host for --transport http (local connections only)
+ */
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+
+/**
+ * Largest JSON request body accepted on /mcp (the SDK transports' own limit)
+ */
+export const MAX_HTTP_BODY_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Returned by readJsonBody() for a body larger than MAX_HTTP_BODY_SIZE
+ */
+const BODY_TOO_LARGE = Symbol('bodyTooLarge');
+
+/**
+ * Host names a loopback server can be reached under
+ */
+const LOOPBACK_HOSTNAMES = ['127.0.0.1', 'localhost', '[::1]'];
+
+/**
+ * HTTP server configuration options
+ */
+export interface HttpServerOptions {
+  /** Port to listen on (default: 3000, 0 picks a free port) */
+  port?: number;
+
+  /** Host/interface to bind (default: 127.0.0.1) */
+  host?: string;
+
+  /**
+   * Additional host names clients may use in the Host and Origin headers
+   * (e.g., "aggregator.internal"). The bind host is always allowed.
+   */
+  allowedHosts?: string[];
+}
+
+/**
+ * Running HTTP aggregator server
+ */
+export interface HttpAggregatorServer {
+  /** Base URL the server is listening on (e.g., http://127.0.0.1:3000) */
+  url: string;
+
+  /** MCP Server instances of all connected sessions */
+  servers: Set<Server>;
+
+  /** Close all sessions and stop listening */
+  close(): Promise<void>;
+}
+
+/**
+ * Start serving the aggregator over Streamable HTTP and HTTP+SSE
+ *
+ * @param createServer - Creates a fully configured MCP Server for a new session
+ * @param options - Port and host to listen on
+ * @returns Running server with its URL and live session servers
+ *
+ * @example
+ * const http = await startHttpServer(() => createSessionServer(), { port: 3000 });
+ * const notifier = createToolListChangedNotifier(http.servers);
+ */
+export async function startHttpServer(
+  createServer: () => Server,
+  options: HttpServerOptions = {}
+): Promise<HttpAggregatorServer> {
+  const { port = DEFAULT_HTTP_PORT, host = DEFAULT_HTTP_HOST } = options;
+
+  // Filled in once listening, when the actual port is known
+  let allowedHosts: string[] = [];
+  let allowedOrigins: string[] = [];
+  const dnsRebindingProtection = () => ({ enableDnsRebindingProtection: true, allowedHosts, allowedOrigins });
+
+  const servers = new Set<Server>();
+  const streamableSessions = new Map<string, StreamableHTTPServerTransport>();
+  const sseSessions = new Map<string, SSEServerTransport>();
+
+  const connectSession = async (transport: Transport, onClosed: () => void): Promise<void> => {
+    const server = createServer();
+    servers.add(server);
+    server.onclose = () => {
+      servers.delete(server);
+      onClosed();
+    };
+    await server.connect(transport);
+  };
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionId = req.headers['mcp-session-id'];
+    const existing = typeof sessionId === 'string' ? streamableSessions.get(sessionId) : undefined;
+
+    if (req.method !== 'POST') {
+      if (!existing) {
+        sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+        return;
+      }
+      await existing.handleRequest(req, res);
+      return;
+    }
+
+    const body = await readJsonBody(req);
+    if (body === BODY_TOO_LARGE) {
+      // Close the connection instead of reading the rest of the upload
+      res.setHeader('Connection', 'close');
+      sendJsonRpcError(res, 413, `Payload too large: request body exceeds ${MAX_HTTP_BODY_SIZE} bytes`);
+      return;
+    }
+    if (body === undefined) {
+      sendJsonRpcError(res, 400, 'Parse error: Invalid JSON', -32700);
+      return;
+    }
+
+    if (existing) {
+      await existing.handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId !== undefined || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      ...dnsRebindingProtection(),
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        streamableSessions.set(id, transport);
+        logInfo(`[INFO] HTTP session ${id} started (${servers.size} active)`);
+      }
+    });
+
+    // The SDK declares onclose as optional on this class, which
+    // exactOptionalPropertyTypes rejects against the Transport interface
+    await connectSession(transport as Transport, () => {
+      if (transport.sessionId) {
+        streamableSessions.delete(transport.sessionId);
+        logInfo(`[INFO] HTTP session ${transport.sessionId} closed (${servers.size} active)`);
+      }
+    });
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseStream = async (res: ServerResponse): Promise<void> => {
+    const transport = new SSEServerTransport('/messages', res, dnsRebindingProtection());
+    sseSessions.set(transport.sessionId, transport);
+
+    await connectSession(transport, () => {
+      sseSessions.delete(transport.sessionId);
+      logInfo(`[INFO] SSE session ${transport.sessionId} closed (${servers.size} active)`);
+    });
+    logInfo(`[INFO] SSE session ${transport.sessionId} started (${servers.size} active)`);
+  };
+
+  const handleSseMessage = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ): Promise<void> => {
+    const transport = sseSessions.get(url.searchParams.get('sessionId') ?? '');
+    if (!transport) {
+      sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+    await transport.handlePostMessage(req, res);
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    logDebug(`[DEBUG] HTTP ${req.method} ${url.pathname}`);
+
+    // The transports check these headers too, but not before a session is
+    // created or when an SSE stream is opened
+    const rejection = checkRequestHeaders(req, allowedHosts, allowedOrigins);
+    if (rejection) {
+      logError(`[ERROR] Rejected HTTP ${req.method} ${url.pathname}: ${rejection}`);
+      sendJsonRpcError(res, 403, `Forbidden: ${rejection}`);
+      return;
+    }
+
+    let handled: Promise<void>;
+    if (url.pathname === '/mcp') {
+      handled = handleStreamable(req, res);
+    } else if (url.pathname === '/sse' && req.method === 'GET') {
+      handled = handleSseStream(res);
+    } else if (url.pathname === '/messages' && req.method === 'POST') {
+      handled = handleSseMessage(req, res, url);
+    } else {
+      res.writeHead(404).end('Not Found');
+      return;
+    }
+
+    handled.catch((error: unknown) => {
+      logError(
+        `[ERROR] Failed to handle HTTP ${req.method} ${url.pathname}:`,
+        error instanceof Error ? error.message : String(error)
+      );
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error', -32603);
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address() as AddressInfo;
+  const url = `http://${host.includes(':') ? `[${host}]` : host}:${address.port}`;
+  allowedHosts = getAllowedHostnames(host, options.allowedHosts ?? []).map(name => `${name}:${address.port}`);
+  allowedOrigins = allowedHosts.map(hostHeader => `http://${hostHeader}`);
+  logInfo(`[INFO] Aggregator listening on ${url}/mcp (Streamable HTTP) and ${url}/sse (SSE)`);
+
+  return {
+    url,
+    servers,
+    async close(): Promise<void> {
+      await Promise.all(Array.from(servers).map(server => server.close()));
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
+  };
+}
+
+/**
+ * Get the host names clients may use for a bind host
+ * @param host - Host/interface the server is bound to
+ * @param extraHosts - Additionally allowed host names
+ * @returns Host names without port (IPv6 addresses in brackets)
+ */
+function getAllowedHostnames(host: string, extraHosts: string[]): string[] {
+  const bindHost = host.includes(':') ? `[${host}]` : host;
+  const isLoopbackOrWildcard = /^127\./.test(host) || ['localhost', '::1', '0.0.0.0', '::'].includes(host);
+  const names = [bindHost, ...(isLoopbackOrWildcard ? LOOPBACK_HOSTNAMES : []), ...extraHosts];
+  return Array.from(new Set(names.map(name => name.toLowerCase())));
+}
+
+/**
+ * Check the Host and Origin headers against the allowed values
+ *
+ * Requests without an Origin header (non-browser clients) are accepted.
+ *
+ * @param req - Incoming HTTP request
+ * @param allowedHosts - Allowed Host header values (name:port)
+ * @param allowedOrigins - Allowed Origin header values
+ * @returns Reason for rejecting the request, or undefined if it is allowed
+ */
+function checkRequestHeaders(
+  req: IncomingMessage,
+  allowedHosts: string[],
+  allowedOrigins: string[]
+): string | undefined {
+  const hostHeader = req.headers.host?.toLowerCase();
+  if (!hostHeader || !allowedHosts.includes(hostHeader)) {
+    return `Invalid Host header: ${req.headers.host}`;
+  }
+  const originHeader = req.headers.origin;
+  if (originHeader !== undefined && !allowedOrigins.includes(originHeader.toLowerCase())) {
+    return `Invalid Origin header: ${originHeader}`;
+  }
+  return undefined;
+}
+
+/**
+ * Read and parse a JSON request body
+ *
+ * Stops buffering as soon as the body (or its Content-Length) exceeds
+ * MAX_HTTP_BODY_SIZE; the rest of the upload is discarded.
+ *
+ * @param req - Incoming HTTP request
+ * @returns Parsed body, undefined if it is not valid JSON, or BODY_TOO_LARGE
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  if (Number(req.headers['content-length']) > MAX_HTTP_BODY_SIZE) {
+    req.resume();
+    return BODY_TOO_LARGE;
+  }
+
+  const raw = await new Promise<Buffer | typeof BODY_TOO_LARGE>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer): void => {
+      size += chunk.length;
+      if (size > MAX_HTTP_BODY_SIZE) {
+        req.off('data', onData).off('end', onEnd).off('error', reject);
+        // Keep the stream flowing so the response can still be sent
+        req.resume();
+        resolve(BODY_TOO_LARGE);
+        return;
+      }
+      chunks.push(chunk);
+    };
+    const onEnd = (): void => resolve(Buffer.concat(chunks));
+    req.on('data', onData).on('end', onEnd).on('error', reject);
+  });
+  if (raw === BODY_TOO_LARGE) {
+    return raw;
+  }
+
+  try {
+    return JSON.parse(raw.toString('utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Send a JSON-RPC error response that is not tied to a request id
+ * @param res - HTTP response
+ * @param status - HTTP status code
+ * @param message - Error message
+ * @param code - JSON-RPC error code (default: -32000)
+ */
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  message: string,
+  code: number = -32000
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(
+    JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null })
+  );
+}
@@ -1,11 +1,70 @@
 #!/usr/bin/env node
 
-import type { CliArgs, McpConfig } from './types.js';
-import { readConfigFile, parseConfig, expandConfigEnvVars } from './config.js';
-import { initializeChildren, setupErrorHandlers } from './child-manager.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { mkdirSync } from 'fs';
+import type {
+  CliArgs,
+  McpConfig,
+  StartupPolicy,
+  ToolNamePolicy,
+  ToolCollisionStrategy,
+  ServerTransportType,
+  LogLevel,
+  LogFormat,
+  LogRotationInterval
+} from './types.js';
+import { ServerStatus } from './types.js';
+import {
+  readConfigFile,
+  parseConfig,
+  expandConfigEnvVars,
+  assertNoReservedServerKeys
+} from './config.js';
+import {
+  initializeChildren,
+  setupErrorHandlers,
+  DEFAULT_STARTUP_CONCURRENCY
+} from './child-manager.js';
 import { buildToolRegistry } from './registry.js';
-import { createAggregatorServer, startServer, setupToolCallHandler } from './server.js';
-import { setDebugMode, setLogFile, logDebug } from './logger.js';
+import { buildResourceRegistry } from './resource-registry.js';
+import { buildPromptRegistry } from './prompt-registry.js';
+import {
+  createAggregatorServer,
+  startServer,
+  setupToolCallHandler,
+  setupResourceHandlers,
+  setupPromptHandlers,
+  DEFAULT_CALL_TIMEOUT_MS
+} from './server.js';
+import type { ToolCallHandlerOptions } from './server.js';
+import { startHttpServer, DEFAULT_HTTP_PORT, DEFAULT_HTTP_HOST } from './http-server.js';
+import { createToolListChangedNotifier } from './notifications.js';
+import type { ListChangedNotifier } from './notifications.js';
+import { connectManagementTools, MANAGEMENT_SERVER_KEY } from './management.js';
+import { connectVirtualTools, VIRTUAL_TOOLS_SERVER_KEY } from './virtual-tools.js';
+import { createChildActivator, registerLazyServers } from './lazy-start.js';
+import { loadSchemaCache, DEFAULT_SCHEMA_CACHE_PATH } from './schema-cache.js';
+import { createConfigReloader } from './config-reload.js';
+import {
+  setLogFile,
+  setLogLevel,
+  setLogFormat,
+  setLogRotation,
+  logDebug,
+  LOG_LEVELS
+} from './logger.js';
+import { setChildLogDir } from './child-stderr.js';
+import { openAuditLog } from './audit-log.js';
+import { createMetrics, startMetricsServer } from './metrics.js';
+import type { AggregatorMetrics } from './metrics.js';
+import { configureTracing, flushTraces } from './tracing.js';
+import {
+  setToolNamePolicy,
+  setToolCollisionStrategy,
+  DEFAULT_MAX_TOOL_NAME_LENGTH,
+  MIN_MAX_TOOL_NAME_LENGTH,
+  TOOL_COLLISION_STRATEGIES
+} from './tool-names.js';
 
 /**
  * T058: Parse command-line arguments
@@ -32,6 +91,10 @@ export function parseCliArgs(argv: string[] = process.argv.slice(2)): CliArgs {
       args.configPath = arg.substring('--config='.length);
     } else if (arg === '--debug') {
       args.debug = true;
+    } else if (arg === '--watch') {
+      args.watch = true;
+    } else if (arg === '--management-tools') {
+      args.managementTools = true;
     } else if (arg === '--log-file') {
       const nextArg = argv[++i];
       if (nextArg) {
@@ -39,6 +102,69 @@ export function parseCliArgs(argv: string[] = process.argv.slice(2)): CliArgs {
       }
     } else if (arg.startsWith('--log-file=')) {
       args.logFile = arg.substring('--log-file='.length);
+    } else if (arg === '--audit-log') {
+      const nextArg = argv[++i];
+      if (nextArg) {
+        args.auditLog = nextArg;
+      }
+    } else if (arg.startsWith('--audit-log=')) {
+      args.auditLog = arg.substring('--audit-log='.length);
+    } else if (arg === '--metrics-port') {
+      const nextArg = argv[++i];
+      if (nextArg) {
+        args.metricsPort = nextArg;
+      }
+    } else if (arg.startsWith('--metrics-port=')) {
+      args.metricsPort = arg.substring('--metrics-port='.length);
+    } else if (arg === '--otlp-endpoint') {
+      const nextArg = argv[++i];
+      if (nextArg) {
+        args.otlpEndpoint = nextArg;
+      }
+    } else if (arg.startsWith('--otlp-endpoint=')) {
+      args.otlpEndpoint = arg.substring('--otlp-endpoint='.length);
+    } else if (arg === '--child-log-dir') {
+      const nextArg = argv[++i];
+      if (nextArg) {
+        args.childLogDir = nextArg;
+      }
+    } else if (arg.startsWith('--child-log-dir=')) {
+      args.childLogDir = arg.substring('--child-log-dir='.length);
+    } else if (arg === '--log-level') {
+      const nextArg = argv[++i];
+      if (nextArg) {
+        args.logLevel = nextArg;
+      }
+    } else if (arg.startsWith('--log-level=')) {
+      args.logLevel = arg.substring('--log-level='.length);
+    } else if (arg === '--log-format') {
+      const nextArg = argv[++i];
+      if (nextArg) {
+        args.logFormat = nextArg;
+      }
+    } else if (arg.startsWith('--log-format=')) {
+      args.logFormat = arg.substring('--log-format='.length);
+    } else if (arg === '--log-max-size') {
+      const nextArg = argv[++i];
+      if (nextArg) {
+        args.logMaxSize = nextArg;
+      }
+    } else if (arg.startsWith('--log-max-size=')) {
+      args.logMaxSize = arg.substring('--log-max-size='.length);
+    } else if (arg === '--log-rotate') {
+      const nextArg = argv[++i];
+      if (nextArg) {
+        args.logRotate = nextArg;
+      }
+    } else if (arg.startsWith('--log-rotate=')) {
+      args.logRotate = arg.substring('--log-rotate='.length);
+    } else if (arg === '--log-max-files') {
+      const nextArg = argv[++i];
+      if (nextArg) {
+        args.logMaxFiles = nextArg;
+      }
+    } else if (arg.startsWith('--log-max-files=')) {
+      args.logMaxFiles = arg.substring('--log-max-files='.length);
     } else if (arg === '--name') {
       const nextArg = argv[++i];
       if (nextArg) {
@@ -58,6 +184,76 @@ export function parseCliArgs(argv: string[] = process.argv.slice(2)): CliArgs {
     } else if (arg.startsWith('--separator=')) {
       // T025: Parse --separator=value format
       args.separator = arg.substring('--separator='.length);
+    } else if (arg === '--startup-policy') {
+      const nextArg = argv[++i];
+      if (nextArg) {
+        args.startupPolicy = nextArg;
+      }
+    } else if (arg.startsWith('--startup-policy=')) {
+      args.startupPolicy = arg.substring('--startup-policy='.length);
+    } else if (arg === '--tool-name-policy') {
+      const nextArg = argv[++i];
+      if (nextArg) {
+        args.toolNamePolicy = nextArg;
+      }
+    } else if (arg.startsWith('--tool-name-policy=')) {
+      args.toolNamePolicy = arg.substring('--tool-name-policy='.length);
+    } else if (arg === '--collision-strategy') {
+      const nextArg = argv[++i];
+      if (nextArg) {
+        args.collisionStrategy = nextArg;
+      }
+    } else if (arg.startsWith('--collision-strategy=')) {
+      args.collisionStrategy = arg.substring('--collision-strategy='.length);
+    } else if (arg === '--transport') {
+      const nextArg = argv[++i];
+      if (nextArg) {
+        args.transport = nextArg;
+      }
+    } else if (arg.startsWith('--transport=')) {
+      args.transport = arg.substring('--transport='.length);
+    } else if (arg === '--port') {
+      const nextArg = argv[++i];
+      if (nextArg) {
+        args.port = nextArg;
+      }
+    } else if (arg.startsWith('--port=')) {
+      args.port = arg.substring('--port='.length);
+    } else if (arg === '--host') {
+      const nextArg = argv[++i];
+      if (nextArg) {
+        args.host = nextArg;
+      }
+    } else if (arg.startsWith('--host=')) {
+      args.host = arg.substring('--host='.length);
+    } else if (arg === '--allowed-hosts') {
+      const nextArg = argv[++i];
+      if (nextArg) {
+        args.allowedHosts = nextArg;
+      }
+    } else if (arg.startsWith('--allowed-hosts=')) {
+      args.allowedHosts = arg.substring('--allowed-hosts='.length);
+    } else if (arg === '--startup-concurrency') {
+      const nextArg = argv[++i];
+      if (nextArg) {
+        args.startupConcurrency = nextArg;
+      }
+    } else if (arg.startsWith('--startup-concurrency=')) {
+      args.startupConcurrency = arg.substring('--startup-concurrency='.length);
+    } else if (arg === '--schema-cache') {
+      const nextArg = argv[++i];
+      if (nextArg) {
+        args.schemaCache = nextArg;
+      }
+    } else if (arg.startsWith('--schema-cache=')) {
+      args.schemaCache = arg.substring('--schema-cache='.length);
+    } else if (arg === '--call-timeout') {
+      const nextArg = argv[++i];
+      if (nextArg) {
+        args.callTimeout = nextArg;
+      }
+    } else if (arg.startsWith('--call-timeout=')) {
+      args.callTimeout = arg.substring('--call-timeout='.length);
     } else if (arg === '--help' || arg === '-h') {
       printHelp();
       process.exit(0);
@@ -99,6 +295,267 @@ export function validateSeparator(separator: string): void {
   }
 }
 
+/**
+ * Parse a --startup-policy value
+ * @param value - "failFast", "bestEffort" or "requireAtLeast:<N>"
+ * @returns Parsed startup policy
+ * @throws Error if the value is not a known policy
+ */
+export function parseStartupPolicy(value: string): StartupPolicy {
+  if (value === 'failFast' || value === 'bestEffort') {
+    return { mode: value };
+  }
+
+  const match = /^requireAtLeast:(\d+)$/.exec(value);
+  if (match) {
+    const count = Number(match[1]);
+    if (count < 1) {
+      throw new Error('requireAtLeast count must be at least 1, e.g. --startup-policy requireAtLeast:2');
+    }
+    return { mode: 'requireAtLeast', count };
+  }
+
+  throw new Error(
+    `Invalid startup policy: "${value}". Use failFast, bestEffort or requireAtLeast:<N>`
+  );
+}
+
+/**
+ * Parse a --tool-name-policy value
+ * @param value - "preserve", "strict" or "strict:<maxLength>"
+ * @returns Parsed tool name policy
+ * @throws Error if the value is not a known policy
+ */
+export function parseToolNamePolicy(value: string): ToolNamePolicy {
+  if (value === 'preserve') {
+    return { mode: 'preserve' };
+  }
+  if (value === 'strict') {
+    return { mode: 'strict', maxLength: DEFAULT_MAX_TOOL_NAME_LENGTH };
+  }
+
+  const match = /^strict:(\d+)$/.exec(value);
+  if (match) {
+    const maxLength = Number(match[1]);
+    if (maxLength < MIN_MAX_TOOL_NAME_LENGTH) {
+      throw new Error(
+        `Tool name max length must be at least ${MIN_MAX_TOOL_NAME_LENGTH}, e.g. --tool-name-policy strict:${DEFAULT_MAX_TOOL_NAME_LENGTH}`
+      );
+    }
+    return { mode: 'strict', maxLength };
+  }
+
+  throw new Error(
+    `Invalid tool name policy: "${value}". Use preserve, strict or strict:<maxLength>`
+  );
+}
+
+/**
+ * Parse a --collision-strategy value
+ * @param value - error, first-wins, last-wins or auto-suffix
+ * @returns How tools with the same exposed name are handled
+ * @throws Error if the value is not a known strategy
+ */
+export function parseCollisionStrategy(value: string): ToolCollisionStrategy {
+  if ((TOOL_COLLISION_STRATEGIES as readonly string[]).includes(value)) {
+    return value as ToolCollisionStrategy;
+  }
+  throw new Error(`Invalid collision strategy: "${value}". Use ${TOOL_COLLISION_STRATEGIES.join(', ')}`);
+}
+
+/**
+ * Parse a --startup-concurrency value
+ * @param value - Positive integer
+ * @returns Maximum number of child servers started at once
+ * @throws Error if the value is not a positive integer
+ */
+export function parseStartupConcurrency(value: string): number {
+  const concurrency = Number(value);
+  if (!/^\d+$/.test(value) || concurrency < 1) {
+    throw new Error(
+      `Invalid startup concurrency: "${value}". Use a positive integer, e.g. --startup-concurrency 8`
+    );
+  }
+  return concurrency;
+}
+
+/**
+ * Parse a --call-timeout value
+ * @param value - Timeout in milliseconds (positive integer)
+ * @returns Default tools/call timeout in milliseconds
+ * @throws Error if the value is not a positive integer
+ */
+export function parseCallTimeout(value: string): number {
+  const timeoutMs = Number(value);
+  if (!/^\d+$/.test(value) || timeoutMs < 1) {
+    throw new Error(
+      `Invalid call timeout: "${value}". Use a positive number of milliseconds, e.g. --call-timeout 120000`
+    );
+  }
+  return timeoutMs;
+}
+
+/**
+ * Parse a --transport value
+ * @param value - "stdio" or "http"
+ * @returns Transport the aggregator serves clients on
+ * @throws Error if the value is not a known transport
+ */
+export function parseTransport(value: string): ServerTransportType {
+  if (value === 'stdio' || value === 'http') {
+    return value;
+  }
+  throw new Error(`Invalid transport: "${value}". Use stdio or http`);
+}
+
+/**
+ * Parse a --port value
+ * @param value - Port number (0-65535)
+ * @returns Port to listen on
+ * @throws Error if the value is not a valid port
+ */
+export function parsePort(value: string): number {
+  const port = Number(value);
+  if (!/^\d+$/.test(value) || port > 65535) {
+    throw new Error(`Invalid port: "${value}". Use a number between 0 and 65535`);
+  }
+  return port;
+}
+
+/**
+ * Parse an --allowed-hosts value
+ * @param value - Comma-separated host names, e.g. "aggregator.internal,10.0.0.5"
+ * @returns Host names without port
+ * @throws Error if a name is empty or includes a scheme, port or path
+ */
+export function parseAllowedHosts(value: string): string[] {
+  const names = value.split(',').map(name => name.trim());
+  for (const name of names) {
+    if (!/^(\[[0-9a-fA-F:.]+\]|[a-zA-Z0-9.-]+)$/.test(name)) {
+      throw new Error(`Invalid allowed host: "${name}". Use host names without scheme or port, e.g. "aggregator.internal"`);
+    }
+  }
+  return names;
+}
+
+/**
+ * Parse a --log-level value
+ * @param value - error, warn, info, debug or trace
+ * @returns Most verbose level written to the log file
+ * @throws Error if the value is not a known level
+ */
+export function parseLogLevel(value: string): LogLevel {
+  if ((LOG_LEVELS as readonly string[]).includes(value)) {
+    return value as LogLevel;
+  }
+  throw new Error(`Invalid log level: "${value}". Use ${LOG_LEVELS.join(', ')}`);
+}
+
+/**
+ * Parse a --log-format value
+ * @param value - "text" or "json"
+ * @returns Log line format
+ * @throws Error if the value is not a known format
+ */
+export function parseLogFormat(value: string): LogFormat {
+  if (value === 'text' || value === 'json') {
+    return value;
+  }
+  throw new Error(`Invalid log format: "${value}". Use text or json`);
+}
+
+/**
+ * Parse a --log-max-size value
+ * @param value - Bytes, optionally with a K, M or G suffix (e.g., "10M")
+ * @returns Maximum log file size in bytes
+ * @throws Error if the value is not a positive size
+ */
+export function parseLogMaxSize(value: string): number {
+  const match = /^(\d+)([KMG])?B?$/i.exec(value);
+  const units: Record<string, number> = { K: 1024, M: 1024 ** 2, G: 1024 ** 3 };
+  const size = match ? Number(match[1]) * (match[2] ? units[match[2].toUpperCase()]! : 1) : 0;
+  if (size < 1) {
+    throw new Error(`Invalid log max size: "${value}". Use bytes or a K/M/G suffix, e.g. --log-max-size 10M`);
+  }
+  return size;
+}
+
+/**
+ * Parse a --log-rotate value
+ * @param value - "hourly" or "daily"
+ * @returns Time-based rotation interval
+ * @throws Error if the value is not a known interval
+ */
+export function parseLogRotate(value: string): LogRotationInterval {
+  if (value === 'hourly' || value === 'daily') {
+    return value;
+  }
+  throw new Error(`Invalid log rotation: "${value}". Use hourly or daily`);
+}
+
+/**
+ * Parse a --log-max-files value
+ * @param value - Non-negative integer
+ * @returns Number of rotated log files to keep
+ * @throws Error if the value is not a non-negative integer
+ */
+export function parseLogMaxFiles(value: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid log max files: "${value}". Use a non-negative integer, e.g. --log-max-files 5`);
+  }
+  return Number(value);
+}
+
+/**
+ * Configure the logger from the logging options
+ *
+ * The log file is always set, so errors and warnings are recorded even without
+ * any logging option; --log-level decides what else is written. The level
+ * defaults to debug with --debug, to info with any other logging option and
+ * to warn otherwise.
+ *
+ * @param args - Parsed CLI arguments
+ * @throws Error if a logging option has an invalid value
+ */
+export function configureLogging(args: CliArgs): void {
+  const loggingRequested = args.logFile || args.logFormat;
+  setLogLevel(
+    args.logLevel ? parseLogLevel(args.logLevel) : args.debug ? 'debug' : loggingRequested ? 'info' : 'warn'
+  );
+  setLogFormat(args.logFormat ? parseLogFormat(args.logFormat) : 'text');
+  setLogRotation({
+    ...(args.logMaxSize && { maxSize: parseLogMaxSize(args.logMaxSize) }),
+    ...(args.logRotate && { interval: parseLogRotate(args.logRotate) }),
+    ...(args.logMaxFiles && { maxFiles: parseLogMaxFiles(args.logMaxFiles) })
+  });
+  setLogFile(args.logFile || `/tmp/mcp-aggregator-${process.pid}.log`);
+}
+
+/**
+ * Parse an --otlp-endpoint value
+ *
+ * A URL without a path gets the standard OTLP/HTTP traces path appended.
+ *
+ * @param value - http(s) URL of an OTLP/HTTP collector or its traces endpoint
+ * @returns Traces endpoint URL
+ * @throws Error if the value is not an http(s) URL
+ */
+export function parseOtlpEndpoint(value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`Invalid OTLP endpoint: "${value}". Use an http(s) URL, e.g. --otlp-endpoint http://127.0.0.1:4318`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Invalid OTLP endpoint: "${value}". Use an http(s) URL, e.g. --otlp-endpoint http://127.0.0.1:4318`);
+  }
+  if (url.pathname === '/') {
+    url.pathname = '/v1/traces';
+  }
+  return url.toString();
+}
+
 /**
  * T060 & T032: Print help message with usage examples
  */
@@ -115,8 +572,43 @@ Required Arguments:
 Optional Arguments:
   --separator <chars>   Separator for tool namespacing (default: ":")
                         Examples: "__", ".", "::", "-"
+  --startup-policy <p>  How to handle child servers that fail to start
+                        (default: failFast). Values: failFast, bestEffort,
+                        requireAtLeast:<N>
+  --transport <type>    Transport to serve clients on: stdio or http (default: stdio)
+  --port <port>         Port for --transport http (default: 3000)
+  --host <host>         Host for --transport http (default: 127.0.0.1)
+  --allowed-hosts <names>
+                        Comma-separated host names clients may use in the Host and
+                        Origin headers besides the bind host (DNS rebinding protection)
+  --startup-concurrency <n>
+                        Child servers started at the same time (default: 4)
+  --tool-name-policy <p>
+                        Constrain exposed tool names (default: preserve). Values:
+                        preserve, strict (^[a-zA-Z0-9_-]{1,64}$), strict:<maxLength>
+  --collision-strategy <s>
+                        Tools with the same name: error, first-wins, last-wins or
+                        auto-suffix (default: error)
+  --call-timeout <ms>   Default timeout for tool calls (default: 60000)
+  --schema-cache <path> Tool schema cache for lazy servers
+                        (default: ~/.cache/mcp-simple-aggregator/schemas.json)
+  --watch               Reload the config file when it changes (SIGHUP always reloads)
+  --management-tools    Serve aggregator:status, aggregator:restart_server and other
+                        management tools next to the child tools
   --debug               Enable debug logging
   --log-file <path>     Path to log file (default: /tmp/mcp-aggregator-{pid}.log)
+  --log-level <level>   Most verbose level logged: error, warn, info, debug or trace
+                        (default: debug with --debug, info with --log-file or
+                        --log-format, else warn)
+  --log-format <fmt>    Log line format: text or json (default: text)
+  --log-max-size <size> Rotate the log file beyond this size, e.g. 10M
+  --log-rotate <when>   Rotate the log file hourly or daily
+  --log-max-files <n>   Rotated log files to keep (default: 5)
+  --child-log-dir <dir> Write each stdio child's stderr to <dir>/<serverKey>.log
+                        instead of the aggregator log
+  --audit-log <path>    Append a JSON record of every tool call to this file
+  --metrics-port <port> Serve Prometheus metrics on 127.0.0.1:<port>/metrics
+  --otlp-endpoint <url> Export trace spans via OTLP/HTTP, e.g. http://127.0.0.1:4318
   --name <name>         Server name (default: mcp-simple-aggregator)
   --version <ver>       Server version (default: 1.0.0)
   --help, -h            Show this help message
@@ -134,6 +626,25 @@ Examples:
   # Custom separator and log file
   mcp-simple-aggregator --config config.json --separator "." --debug --log-file /var/log/mcp.log
 
+  # JSON logs, rotated daily, keeping a week
+  mcp-simple-aggregator --config config.json --log-format json --log-file /var/log/mcp.log \\
+    --log-rotate daily --log-max-files 7
+
+  # Expose Prometheus metrics for scraping
+  mcp-simple-aggregator --config config.json --metrics-port 9464
+
+  # Export traces to a local OpenTelemetry collector
+  mcp-simple-aggregator --config config.json --otlp-endpoint http://127.0.0.1:4318
+
+  # Shared aggregator for several clients over HTTP
+  mcp-simple-aggregator --config config.json --transport http --port 3000
+
+  # Tool names accepted by clients that require ^[a-zA-Z0-9_-]{1,64}$
+  mcp-simple-aggregator --config config.json --tool-name-policy strict
+
+  # Keep serving when some child servers fail to start
+  mcp-simple-aggregator --config config.json --startup-policy bestEffort
+
   # Custom server name
   mcp-simple-aggregator --config config.json --name my-aggregator
 
@@ -173,18 +684,45 @@ async function main() {
       validateSeparator(args.separator);
     }
 
-    // Set debug mode for logger
-    setDebugMode(args.debug || false);
+    const startupPolicy = args.startupPolicy
+      ? parseStartupPolicy(args.startupPolicy)
+      : { mode: 'failFast' as const };
+    const transport = args.transport ? parseTransport(args.transport) : 'stdio';
+    const port = args.port ? parsePort(args.port) : DEFAULT_HTTP_PORT;
+    const host = args.host || DEFAULT_HTTP_HOST;
+    const allowedHosts = args.allowedHosts ? parseAllowedHosts(args.allowedHosts) : [];
+    const startupConcurrency = args.startupConcurrency
+      ? parseStartupConcurrency(args.startupConcurrency)
+      : DEFAULT_STARTUP_CONCURRENCY;
+    const callTimeoutMs = args.callTimeout
+      ? parseCallTimeout(args.callTimeout)
+      : DEFAULT_CALL_TIMEOUT_MS;
+    const metricsPort = args.metricsPort ? parsePort(args.metricsPort) : undefined;
+    const toolNamePolicy = args.toolNamePolicy
+      ? parseToolNamePolicy(args.toolNamePolicy)
+      : { mode: 'preserve' as const };
+    const collisionStrategy = args.collisionStrategy
+      ? parseCollisionStrategy(args.collisionStrategy)
+      : 'error';
+    const otlpEndpoint = args.otlpEndpoint ? parseOtlpEndpoint(args.otlpEndpoint) : undefined;
+
+    configureLogging(args);
+    if (args.childLogDir) {
+      mkdirSync(args.childLogDir, { recursive: true });
+      setChildLogDir(args.childLogDir);
+    }
+
+    // Trace startup and tool calls once an OTLP endpoint is given
+    if (otlpEndpoint) {
+      configureTracing({ endpoint: otlpEndpoint, serviceName: args.name || 'mcp-simple-aggregator' });
+    }
+
+    // Open the audit log before anything can be called, so a bad path fails startup
+    const audit = args.auditLog ? openAuditLog(args.auditLog) : undefined;
 
     // T048: Debug logging for separator value
     logDebug(`[DEBUG] Using separator: "${separator}"`);
 
-    // Initialize log file if debug mode is enabled
-    if (args.debug) {
-      const logFilePath = args.logFile || `/tmp/mcp-aggregator-${process.pid}.log`;
-      setLogFile(logFilePath);
-    }
-
     logDebug('[DEBUG] Starting MCP Simple Aggregator');
     logDebug('[DEBUG] Config path:', args.configPath);
 
@@ -198,42 +736,164 @@ async function main() {
     // Expand environment variables
     logDebug('[DEBUG] Expanding environment variables...');
     const expandedConfig = expandConfigEnvVars(validConfig) as McpConfig;
+    const reservedServerKeys = [
+      ...(args.managementTools ? [MANAGEMENT_SERVER_KEY] : []),
+      ...(expandedConfig.virtualTools ? [VIRTUAL_TOOLS_SERVER_KEY] : [])
+    ];
+    assertNoReservedServerKeys(expandedConfig, reservedServerKeys);
 
     // Initialize all child servers
     logDebug('[DEBUG] Initializing child servers...');
-    const children = await initializeChildren(expandedConfig);
+    logDebug(
+      `[DEBUG] Startup policy: ${args.startupPolicy || 'failFast'}, concurrency: ${startupConcurrency}`
+    );
+    // Lazy servers serve their tools from the schema cache until their first call
+    // (loaded even without lazy servers, since a config reload may add some)
+    const schemaCache = await loadSchemaCache(args.schemaCache || DEFAULT_SCHEMA_CACHE_PATH);
+
+    const children = await initializeChildren(
+      expandedConfig,
+      startupPolicy,
+      startupConcurrency,
+      schemaCache
+    );
 
-    logDebug(`[DEBUG] ${children.size} child servers initialized successfully`);
+    const runningChildren = Array.from(children.entries()).filter(
+      ([, child]) => child.status === ServerStatus.RUNNING
+    );
+    logDebug(`[DEBUG] ${runningChildren.length} of ${children.size} child servers initialized successfully`);
 
-    // Build tool registry from all children
+    // Build tool registry from all running children (failed ones are retried later)
     logDebug('[DEBUG] Building tool registry...');
     const childClients = new Map(
-      Array.from(children.entries()).map(([key, child]) => [key, child.client])
+      runningChildren.map(([key, child]) => [key, child.client])
     );
+    // Applies to every tool added from now on, including restarts and management tools
+    setToolNamePolicy(toolNamePolicy);
+    setToolCollisionStrategy(collisionStrategy);
     // T012: Pass separator parameter to buildToolRegistry
-    const registry = await buildToolRegistry(childClients, separator);
+    const registry = await buildToolRegistry(childClients, separator, expandedConfig.mcpServers);
+
+    await registerLazyServers(children, registry, schemaCache, separator);
 
     logDebug(`[DEBUG] Registry built with ${registry.size} tools`);
 
-    // Create aggregator server
-    logDebug('[DEBUG] Creating aggregator server...');
-    const server = createAggregatorServer(childClients, registry, {
-      name: args.name || 'mcp-simple-aggregator',
-      version: args.version || '1.0.0'
-    });
+    // Build resource registry from all children
+    logDebug('[DEBUG] Building resource registry...');
+    const resourceRegistry = await buildResourceRegistry(childClients, separator);
 
-    // Setup tool call handler
-    logDebug('[DEBUG] Setting up tool call handler...');
-    // T014: Pass separator parameter to setupToolCallHandler
-    setupToolCallHandler(server, registry, separator);
+    logDebug(
+      `[DEBUG] Resource registry built with ${resourceRegistry.resources.size} resources and ${resourceRegistry.templates.size} templates`
+    );
 
-    // Setup error handlers for graceful degradation (T109-T112)
-    logDebug('[DEBUG] Setting up error handlers...');
-    setupErrorHandlers(children, registry);
+    // Build prompt registry from all children
+    logDebug('[DEBUG] Building prompt registry...');
+    const promptRegistry = await buildPromptRegistry(childClients, separator);
+
+    logDebug(`[DEBUG] Prompt registry built with ${promptRegistry.size} prompts`);
+
+    // Registries and change notifications shared by crash handling, reloads and management tools
+    let toolListNotifier: ListChangedNotifier | undefined;
+    const errorHandlerOptions = {
+      separator,
+      resourceRegistry,
+      promptRegistry,
+      onToolsChanged: () => toolListNotifier?.notify()
+    };
+
+    if (args.managementTools) {
+      logDebug('[DEBUG] Adding management tools...');
+      await connectManagementTools(children, registry, errorHandlerOptions);
+    }
+
+    // Start lazy servers on their first call and shut down idle ones
+    const activator = createChildActivator(children, registry, errorHandlerOptions, schemaCache);
+
+    // Metrics read the live children and registry, so they follow crashes and reloads
+    let metrics: AggregatorMetrics | undefined;
+    if (metricsPort !== undefined) {
+      logDebug('[DEBUG] Starting metrics endpoint...');
+      metrics = createMetrics(children, registry);
+      await startMetricsServer(metrics, { port: metricsPort });
+    }
+
+    // Shared by client sessions and the steps of virtual tools
+    const toolCallOptions: ToolCallHandlerOptions = {
+      callTimeoutMs,
+      acquire: activator.acquire,
+      ...(audit && { audit }),
+      ...(metrics && { metrics })
+    };
+
+    if (expandedConfig.virtualTools) {
+      logDebug('[DEBUG] Adding virtual tools...');
+      await connectVirtualTools(expandedConfig.virtualTools, registry, {
+        separator,
+        handlerOptions: toolCallOptions
+      });
+    }
+
+    // Create a fully configured aggregator server (one per client session over HTTP)
+    const createSessionServer = (): Server => {
+      logDebug('[DEBUG] Creating aggregator server...');
+      const server = createAggregatorServer(childClients, registry, {
+        name: args.name || 'mcp-simple-aggregator',
+        version: args.version || '1.0.0'
+      });
+
+      // Setup tool call handler
+      logDebug('[DEBUG] Setting up tool call handler...');
+      // T014: Pass separator parameter to setupToolCallHandler
+      setupToolCallHandler(server, registry, separator, toolCallOptions);
+
+      // Setup resource handlers
+      logDebug('[DEBUG] Setting up resource handlers...');
+      setupResourceHandlers(server, resourceRegistry, separator, activator.acquire);
+
+      // Setup prompt handlers
+      logDebug('[DEBUG] Setting up prompt handlers...');
+      setupPromptHandlers(server, promptRegistry, separator, activator.acquire);
+
+      return server;
+    };
 
     // Start the aggregator server
-    logDebug('[DEBUG] Starting MCP server on stdio...');
-    await startServer(server);
+    let servers: Server | Set<Server>;
+    if (transport === 'http') {
+      logDebug('[DEBUG] Starting MCP server on HTTP...');
+      const httpServer = await startHttpServer(createSessionServer, { port, host, allowedHosts });
+      servers = httpServer.servers;
+    } else {
+      logDebug('[DEBUG] Starting MCP server on stdio...');
+      const server = createSessionServer();
+      await startServer(server);
+      servers = server;
+    }
+
+    // Setup error handlers for graceful degradation (T109-T112)
+    logDebug('[DEBUG] Setting up error handlers...');
+    // Notify clients whenever crashes, restarts or children change the tool list
+    toolListNotifier = createToolListChangedNotifier(servers);
+    setupErrorHandlers(children, registry, errorHandlerOptions);
+
+    // Reload the config on SIGHUP, and on file changes with --watch
+    const configReloader = createConfigReloader(
+      args.configPath!,
+      children,
+      registry,
+      errorHandlerOptions,
+      {
+        watch: args.watch || false,
+        reservedServerKeys,
+        schemaCache,
+        activator,
+        ...(expandedConfig.virtualTools && { virtualTools: expandedConfig.virtualTools })
+      }
+    );
+    process.on('SIGHUP', () => {
+      logDebug('[DEBUG] Received SIGHUP, reloading config...');
+      void configReloader.reload();
+    });
 
     logDebug(`[DEBUG] Aggregator server started successfully`);
     logDebug(`[DEBUG] Serving ${children.size} child servers with ${registry.size} tools`);
@@ -241,6 +901,7 @@ async function main() {
     // Keep process running
     process.on('SIGINT', async () => {
       logDebug('[DEBUG] Shutting down...');
+      await flushTraces();
       process.exit(0);
     });
 
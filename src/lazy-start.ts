@@ -0,0 +1,333 @@
+/**
+ * Lazy Start Module
+ *
+ * Starts lazy child servers on their first tool call and shuts servers with
+ * an idleTimeoutMs down once they have not been called for that long. Tools
+ * of servers that are not running stay listed: lazy servers' tools come from
+ * the schema cache (see schema-cache.ts), idled-out servers keep the tools
+ * they registered while running. The cache holds tools only, so a lazy server
+ * that has not been started yet lists no resources or prompts.
+ */
+
+import type { ChildServerClient, ServerConfig, ToolNameCollision, ToolRegistry, ToolSchema } from './types.js';
+import { ServerStatus } from './types.js';
+import {
+  activateChildServer,
+  createChildClient,
+  deactivateChildServer,
+  startChildServer
+} from './child-manager.js';
+import type { ErrorHandlerOptions } from './child-manager.js';
+import { addServerTools, removeServerTools } from './registry.js';
+import { getCachedTools, saveCachedTools } from './schema-cache.js';
+import type { SchemaCache } from './schema-cache.js';
+import { getToolCollisionStrategy, formatToolNameCollisions } from './tool-names.js';
+import { logInfo, logError } from './logger.js';
+
+/**
+ * Starts idle children on demand and tracks their in-flight calls
+ */
+export interface ChildActivator {
+  /**
+   * Make sure a server is running before a call is routed to it
+   * @param serverKey - Server that owns the called tool
+   * @returns Function to call when the tool call has finished
+   * @throws ChildServerError if an idle server fails to start
+   */
+  acquire(serverKey: string): Promise<() => void>;
+
+  /**
+   * Start the idle timer of a server started outside acquire(), e.g. by a
+   * config reload. Does nothing unless the server is running with idleTimeoutMs.
+   * @param serverKey - Server that was started
+   */
+  startIdleTimer(serverKey: string): void;
+
+  /** Cancel all idle timers */
+  close(): void;
+}
+
+/**
+ * Per-child call tracking
+ */
+interface ActivityState {
+  /** Calls currently routed to the child */
+  inFlight: number;
+
+  /** Pending idle shutdown */
+  idleTimer?: ReturnType<typeof setTimeout>;
+
+  /** Start in progress, shared by concurrent first calls */
+  activating?: Promise<void>;
+}
+
+/**
+ * Register the tools of lazy servers and fill the schema cache
+ *
+ * Idle lazy servers get their cached tools added to the registry; their
+ * resources and prompts are registered once a tool call starts them. Lazy
+ * servers that had to be started (no cache entry yet) have their tools
+ * written to the cache, so the next boot can skip them.
+ *
+ * @param children - Map of child server clients
+ * @param registry - Tool registry to add cached tools to
+ * @param schemaCache - Loaded schema cache
+ * @param separator - Separator used for namespacing (default: ':')
+ * @throws Error if cached tool names collide under the "error" collision strategy
+ */
+export async function registerLazyServers(
+  children: Map<string, ChildServerClient>,
+  registry: ToolRegistry,
+  schemaCache: SchemaCache,
+  separator: string = ':'
+): Promise<void> {
+  const collisions: ToolNameCollision[] = [];
+  for (const child of children.values()) {
+    if (!child.config.lazy) {
+      continue;
+    }
+
+    if (child.status === ServerStatus.IDLE) {
+      const tools = getCachedTools(schemaCache, child.config) ?? [];
+      addServerTools(registry, child.serverKey, child.client, tools, separator, child.config, collisions);
+    } else if (child.status === ServerStatus.RUNNING) {
+      await cacheServerTools(child, schemaCache);
+    }
+  }
+
+  if (collisions.length > 0 && getToolCollisionStrategy() === 'error') {
+    throw new Error(
+      `Tool name collisions: ${formatToolNameCollisions(collisions)}. Rename one of the tools with a "tools" override in the server config, set a "prefix" for one of the servers, or choose another --collision-strategy.`
+    );
+  }
+}
+
+/**
+ * Add a lazy server while the aggregator is running (e.g., by a config reload)
+ *
+ * With a schema cache entry the server is kept IDLE and its cached tools are
+ * registered, like a lazy server at startup (resources and prompts follow on
+ * its first call). Without one it is started right away and its tools are
+ * written to the cache.
+ *
+ * @param children - Map of child server clients (updated in place)
+ * @param serverKey - Server to add
+ * @param serverConfig - Configuration of the server
+ * @param registry - Tool registry to register the server's tools in
+ * @param schemaCache - Loaded schema cache
+ * @param options - Separator and additional registries
+ * @returns True if the server's tools were added to the registry
+ */
+export async function startLazyServer(
+  children: Map<string, ChildServerClient>,
+  serverKey: string,
+  serverConfig: ServerConfig,
+  registry: ToolRegistry,
+  schemaCache: SchemaCache,
+  options: ErrorHandlerOptions = {}
+): Promise<boolean> {
+  const tools = getCachedTools(schemaCache, serverConfig);
+  if (!tools) {
+    const toolsAdded = await startChildServer(children, serverKey, serverConfig, registry, options);
+    const child = children.get(serverKey);
+    if (child?.status === ServerStatus.RUNNING) {
+      await cacheServerTools(child, schemaCache);
+    }
+    return toolsAdded;
+  }
+
+  logInfo(`Child server '${serverKey}' is lazy; serving cached tools until its first call`);
+  const child: ChildServerClient = {
+    serverKey,
+    client: createChildClient(serverKey, serverConfig),
+    config: serverConfig,
+    status: ServerStatus.IDLE,
+    restartCount: 0
+  };
+  children.set(serverKey, child);
+  return addServerTools(registry, serverKey, child.client, tools, options.separator ?? ':', serverConfig);
+}
+
+/**
+ * Re-register an idle server's cached tools after its configuration changed
+ *
+ * Applies new tool filters and overrides without starting the server. The
+ * connection settings are unchanged, so the cache entry stays valid for the
+ * new configuration. Idle servers without a cache entry pick up the config on
+ * their next start.
+ *
+ * @param childClient - IDLE child server
+ * @param serverConfig - New configuration (same connection settings)
+ * @param registry - Tool registry to update
+ * @param schemaCache - Loaded schema cache
+ * @param separator - Separator used for namespacing (default: ':')
+ * @returns True if the server's tools were re-registered
+ */
+export function updateIdleServerConfig(
+  childClient: ChildServerClient,
+  serverConfig: ServerConfig,
+  registry: ToolRegistry,
+  schemaCache: SchemaCache,
+  separator: string = ':'
+): boolean {
+  const tools = getCachedTools(schemaCache, serverConfig);
+  childClient.config = serverConfig;
+  if (!tools) {
+    return false;
+  }
+
+  const toolsRemoved = removeServerTools(registry, childClient.serverKey);
+  const toolsAdded = addServerTools(
+    registry,
+    childClient.serverKey,
+    childClient.client,
+    tools,
+    separator,
+    serverConfig
+  );
+  return toolsRemoved || toolsAdded;
+}
+
+/**
+ * Create an activator for the tools/call handler
+ *
+ * acquire() starts an IDLE server (once, even for concurrent calls) and
+ * counts the call as in flight. When a server with idleTimeoutMs has no calls
+ * in flight for that long, it is shut down and marked IDLE again. Running
+ * servers with idleTimeoutMs are timed from creation of the activator.
+ *
+ * @param children - Map of child server clients
+ * @param registry - Tool registry refreshed when a server starts
+ * @param options - Separator, additional registries and change callback
+ * @param schemaCache - Cache updated with a lazy server's tools when it starts
+ * @returns Activator; pass acquire to setupToolCallHandler()
+ */
+export function createChildActivator(
+  children: Map<string, ChildServerClient>,
+  registry: ToolRegistry,
+  options: ErrorHandlerOptions = {},
+  schemaCache?: SchemaCache
+): ChildActivator {
+  const states = new Map<ChildServerClient, ActivityState>();
+
+  const getState = (child: ChildServerClient): ActivityState => {
+    let state = states.get(child);
+    if (!state) {
+      state = { inFlight: 0 };
+      states.set(child, state);
+    }
+    return state;
+  };
+
+  const scheduleIdle = (child: ChildServerClient, state: ActivityState): void => {
+    const { idleTimeoutMs } = child.config;
+    if (!idleTimeoutMs) {
+      return;
+    }
+
+    clearTimeout(state.idleTimer);
+    state.idleTimer = setTimeout(() => {
+      delete state.idleTimer;
+      // Only idle out a server that is still configured, running and unused
+      if (state.inFlight > 0 || children.get(child.serverKey) !== child ||
+          child.status !== ServerStatus.RUNNING) {
+        return;
+      }
+      deactivateChildServer(child).catch((error: unknown) => {
+        logError(`[ERROR] Failed to shut down idle server '${child.serverKey}':`, (error as Error).message);
+      });
+    }, idleTimeoutMs);
+
+    // Idle timers must not keep the process alive on their own
+    state.idleTimer.unref?.();
+  };
+
+  const activate = async (child: ChildServerClient): Promise<void> => {
+    const toolsChanged = await activateChildServer(child, registry, options);
+    if (toolsChanged) {
+      options.onToolsChanged?.();
+    }
+    if (child.config.lazy && schemaCache) {
+      await cacheServerTools(child, schemaCache);
+    }
+  };
+
+  for (const child of children.values()) {
+    if (child.status === ServerStatus.RUNNING) {
+      scheduleIdle(child, getState(child));
+    }
+  }
+
+  return {
+    async acquire(serverKey: string): Promise<() => void> {
+      const child = children.get(serverKey);
+      if (!child) {
+        // Not a child server (e.g., the management tools)
+        return () => undefined;
+      }
+
+      const state = getState(child);
+      clearTimeout(state.idleTimer);
+      delete state.idleTimer;
+      state.inFlight++;
+
+      try {
+        if (!state.activating && child.status === ServerStatus.IDLE) {
+          state.activating = activate(child).finally(() => {
+            delete state.activating;
+          });
+        }
+        if (state.activating) {
+          await state.activating;
+        }
+      } catch (error) {
+        state.inFlight--;
+        throw error;
+      }
+
+      let released = false;
+      return () => {
+        if (released) {
+          return;
+        }
+        released = true;
+        state.inFlight--;
+        if (state.inFlight === 0) {
+          scheduleIdle(child, state);
+        }
+      };
+    },
+
+    startIdleTimer(serverKey: string): void {
+      const child = children.get(serverKey);
+      if (child?.status !== ServerStatus.RUNNING) {
+        return;
+      }
+      const state = getState(child);
+      if (state.inFlight === 0) {
+        scheduleIdle(child, state);
+      }
+    },
+
+    close(): void {
+      for (const state of states.values()) {
+        clearTimeout(state.idleTimer);
+      }
+      states.clear();
+    }
+  };
+}
+
+/**
+ * List a running server's tools and write them to the schema cache
+ * @param child - Running child server
+ * @param schemaCache - Schema cache to update
+ */
+async function cacheServerTools(child: ChildServerClient, schemaCache: SchemaCache): Promise<void> {
+  try {
+    const response = await child.client.listTools();
+    await saveCachedTools(schemaCache, child.serverKey, child.config, (response.tools || []) as ToolSchema[]);
+  } catch (error) {
+    logError(`[ERROR] Failed to cache tools of '${child.serverKey}':`, (error as Error).message);
+  }
+}
@@ -1,16 +1,78 @@
 /**
  * Logger Module
  *
- * Provides conditional logging based on debug flag.
- * Errors are always logged, info/debug messages only when debug is enabled.
+ * Writes log lines to a file (never to stdout/stderr, which belong to the MCP
+ * protocol). Lines below the configured level are dropped; errors and
+ * warnings are logged by default, info/debug messages once the level is
+ * raised (e.g., by debug mode).
+ *
+ * Lines are written as text (`{timestamp} [LEVEL] message key=value`) or as
+ * one JSON object per line, and can carry structured fields such as
+ * serverKey, tool, durationMs and requestId. The log file can be rotated by
+ * size and/or time, keeping a fixed number of rotated files.
+ */
+
+import { createWriteStream, WriteStream, openSync, fstatSync, renameSync, rmSync, existsSync } from 'fs';
+import type { LogLevel, LogFormat, LogRotationInterval } from './types.js';
+
+/**
+ * Rotated log files kept by default (app.log.1 ... app.log.5)
+ */
+export const DEFAULT_LOG_MAX_FILES = 5;
+
+/**
+ * Log levels from least to most verbose
+ */
+export const LOG_LEVELS: readonly LogLevel[] = ['error', 'warn', 'info', 'debug', 'trace'];
+
+/**
+ * Structured fields attached to a log line
  */
+export interface LogFields {
+  /** Child server the line is about */
+  serverKey?: string;
+
+  /** Prefixed tool name */
+  tool?: string;
+
+  /** Duration of the logged operation in milliseconds */
+  durationMs?: number;
+
+  /** JSON-RPC id of the upstream request */
+  requestId?: string | number;
 
-import { createWriteStream, WriteStream } from 'fs';
+  /** Any other field */
+  [field: string]: unknown;
+}
+
+/**
+ * Log file rotation settings
+ */
+export interface LogRotation {
+  /** Rotate once the file would grow beyond this many bytes */
+  maxSize?: number;
+
+  /** Rotate when the hour or day (UTC) changes */
+  interval?: LogRotationInterval;
+
+  /** Rotated files to keep (default: 5) */
+  maxFiles?: number;
+}
+
+/**
+ * Most verbose level that is written
+ */
+let currentLevel: LogLevel = 'warn';
+
+/**
+ * Line format
+ */
+let logFormat: LogFormat = 'text';
 
 /**
- * Global debug flag
+ * Rotation settings (no rotation by default)
  */
-let debugEnabled = false;
+let rotation: LogRotation = {};
 
 /**
  * Global log stream for file-based logging
@@ -22,20 +84,66 @@ let logStream: WriteStream | null = null;
  */
 let logFilePath: string | null = null;
 
+/**
+ * Size of the current log file, including buffered writes
+ */
+let logFileSize = 0;
+
+/**
+ * Rotation period (hour or day) the current log file belongs to
+ */
+let logFilePeriod = '';
+
 /**
  * Set the debug mode for the logger
+ *
+ * Shorthand for setLogLevel('debug') / setLogLevel('warn').
+ *
  * @param enabled - Whether debug logging should be enabled
  */
 export function setDebugMode(enabled: boolean): void {
-  debugEnabled = enabled;
+  currentLevel = enabled ? 'debug' : 'warn';
 }
 
 /**
  * Check if debug mode is enabled
- * @returns True if debug mode is enabled
+ * @returns True if debug (or trace) messages are logged
  */
 export function isDebugEnabled(): boolean {
-  return debugEnabled;
+  return isLevelEnabled('debug');
+}
+
+/**
+ * Set the most verbose level that is written
+ * @param level - Log level
+ */
+export function setLogLevel(level: LogLevel): void {
+  currentLevel = level;
+}
+
+/**
+ * Check whether messages of a level are written
+ * @param level - Log level
+ * @returns True if the level is at or below the configured level
+ */
+export function isLevelEnabled(level: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(currentLevel);
+}
+
+/**
+ * Set the line format
+ * @param format - "text" or "json"
+ */
+export function setLogFormat(format: LogFormat): void {
+  logFormat = format;
+}
+
+/**
+ * Set log file rotation
+ * @param options - Maximum size, interval and number of rotated files to keep
+ */
+export function setLogRotation(options: LogRotation): void {
+  rotation = { ...options };
 }
 
 /**
@@ -45,7 +153,14 @@ function initializeLogStream(): void {
   if (logStream || !logFilePath) return;
 
   try {
-    logStream = createWriteStream(logFilePath, { flags: 'a' });
+    // Open synchronously so the file can be renamed safely right away
+    const fd = openSync(logFilePath, 'a');
+    const stats = fstatSync(fd);
+    logFileSize = stats.size;
+    // An existing file belongs to the period it was last written in
+    logFilePeriod = getPeriod(stats.size > 0 ? stats.mtime : new Date());
+
+    logStream = createWriteStream(logFilePath, { fd });
     logStream.on('error', (_err) => {
       // Silent fallback - don't crash server if logging fails
       // Error is ignored to prevent stdio pollution
@@ -80,24 +195,44 @@ export function resetLogger(): void {
     logStream = null;
   }
   logFilePath = null;
-  debugEnabled = false;
+  currentLevel = 'warn';
+  logFormat = 'text';
+  rotation = {};
 }
 
 /**
- * Log an info message (only if debug is enabled)
+ * Write a log line with structured fields
+ *
+ * @param level - Log level of the line
  * @param message - Message to log
- * @param args - Additional arguments to log
+ * @param fields - Structured fields (e.g., serverKey, tool, durationMs, requestId)
+ *
+ * @example
+ * log('debug', 'Tool call completed', { serverKey: 'github', tool: 'github:create_issue', durationMs: 120 });
+ * // text: 2025-01-01T00:00:00.000Z [DEBUG] Tool call completed serverKey=github tool=github:create_issue durationMs=120
+ * // json: {"timestamp":"2025-01-01T00:00:00.000Z","level":"debug","message":"Tool call completed","serverKey":"github",...}
  */
-export function logInfo(message: string, ...args: unknown[]): void {
-  if (!debugEnabled) return;
+export function log(level: LogLevel, message: string, fields: LogFields = {}): void {
+  if (!isLevelEnabled(level)) return;
 
   initializeLogStream();
   if (!logStream) return;
 
-  const timestamp = new Date().toISOString();
-  const argsStr = args.length > 0 ? ' ' + args.map(String).join(' ') : '';
-  const formatted = `${timestamp} [INFO] ${message}${argsStr}\n`;
-  logStream.write(formatted);
+  const line = formatLine(level, message, fields);
+  rotateIfNeeded(Buffer.byteLength(line));
+  if (!logStream) return;
+
+  logStream.write(line);
+  logFileSize += Buffer.byteLength(line);
+}
+
+/**
+ * Log an info message
+ * @param message - Message to log
+ * @param args - Additional arguments to log
+ */
+export function logInfo(message: string, ...args: unknown[]): void {
+  log('info', appendArgs(message, args));
 }
 
 /**
@@ -106,15 +241,25 @@ export function logInfo(message: string, ...args: unknown[]): void {
  * @param args - Additional arguments to log
  */
 export function logDebug(message: string, ...args: unknown[]): void {
-  if (!debugEnabled) return;
+  log('debug', appendArgs(message, args));
+}
 
-  initializeLogStream();
-  if (!logStream) return;
+/**
+ * Log a trace message (most verbose level)
+ * @param message - Message to log
+ * @param args - Additional arguments to log
+ */
+export function logTrace(message: string, ...args: unknown[]): void {
+  log('trace', appendArgs(message, args));
+}
 
-  const timestamp = new Date().toISOString();
-  const argsStr = args.length > 0 ? ' ' + args.map(String).join(' ') : '';
-  const formatted = `${timestamp} [DEBUG] ${message}${argsStr}\n`;
-  logStream.write(formatted);
+/**
+ * Log a warning (logged by default)
+ * @param message - Message to log
+ * @param args - Additional arguments to log
+ */
+export function logWarn(message: string, ...args: unknown[]): void {
+  log('warn', appendArgs(message, args));
 }
 
 /**
@@ -123,11 +268,76 @@ export function logDebug(message: string, ...args: unknown[]): void {
  * @param args - Additional arguments to log
  */
 export function logError(message: string, ...args: unknown[]): void {
-  initializeLogStream();
-  if (!logStream) return;
+  log('error', appendArgs(message, args));
+}
 
+/**
+ * Append extra log arguments to the message, space-separated
+ */
+function appendArgs(message: string, args: unknown[]): string {
+  return args.length > 0 ? `${message} ${args.map(String).join(' ')}` : message;
+}
+
+/**
+ * Format one log line, including the trailing newline
+ */
+function formatLine(level: LogLevel, message: string, fields: LogFields): string {
   const timestamp = new Date().toISOString();
-  const argsStr = args.length > 0 ? ' ' + args.map(String).join(' ') : '';
-  const formatted = `${timestamp} [ERROR] ${message}${argsStr}\n`;
-  logStream.write(formatted);
+  const definedFields = Object.entries(fields).filter(([, value]) => value !== undefined);
+
+  if (logFormat === 'json') {
+    // Messages often carry their own "[LEVEL]" tag; the level field makes it redundant
+    const text = message.replace(/^\[(ERROR|WARN|INFO|DEBUG|TRACE)\]\s*/, '');
+    return `${JSON.stringify({ timestamp, level, message: text, ...Object.fromEntries(definedFields) })}\n`;
+  }
+
+  const fieldsStr = definedFields
+    .map(([key, value]) => ` ${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join('');
+  return `${timestamp} [${level.toUpperCase()}] ${message}${fieldsStr}\n`;
+}
+
+/**
+ * Rotate the log file if the next line would exceed maxSize or a new
+ * interval has started
+ * @param nextBytes - Size of the line about to be written
+ */
+function rotateIfNeeded(nextBytes: number): void {
+  if (!logStream || !logFilePath) return;
+
+  const tooLarge = rotation.maxSize !== undefined && logFileSize > 0 &&
+    logFileSize + nextBytes > rotation.maxSize;
+  const newPeriod = rotation.interval !== undefined && getPeriod(new Date()) !== logFilePeriod;
+  if (!tooLarge && !newPeriod) return;
+
+  // Buffered writes still land in the renamed file: the stream keeps its descriptor
+  logStream.end();
+  logStream = null;
+
+  try {
+    const maxFiles = rotation.maxFiles ?? DEFAULT_LOG_MAX_FILES;
+    if (maxFiles === 0) {
+      rmSync(logFilePath, { force: true });
+    } else {
+      rmSync(`${logFilePath}.${maxFiles}`, { force: true });
+      for (let index = maxFiles - 1; index >= 1; index--) {
+        if (existsSync(`${logFilePath}.${index}`)) {
+          renameSync(`${logFilePath}.${index}`, `${logFilePath}.${index + 1}`);
+        }
+      }
+      renameSync(logFilePath, `${logFilePath}.1`);
+    }
+  } catch (error) {
+    // Silent fallback - keep appending to the current file
+  }
+
+  initializeLogStream();
+}
+
+/**
+ * Rotation period a point in time falls into (UTC hour or day)
+ */
+function getPeriod(date: Date): string {
+  const iso = date.toISOString();
+  return rotation.interval === 'hourly' ? iso.slice(0, 13) : iso.slice(0, 10);
 }
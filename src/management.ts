@@ -0,0 +1,215 @@
+/**
+ * Management Tools Module
+ *
+ * Serves built-in tools under the reserved `aggregator` namespace (e.g.
+ * `aggregator:status`) next to the child tools, so the model and users can
+ * diagnose missing tools from within the chat. The tools are provided by an
+ * in-process MCP server connected over an in-memory transport and registered
+ * like any other server's tools.
+ *
+ * Tools:
+ * - list_servers    One line per child server: status, transport and tool count
+ * - status          Detailed status, last error, uptime and tool count per server
+ * - restart_server  Restart a child server (also re-enables a disabled one)
+ * - disable_server  Stop a child server and remove its tools until restarted
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ErrorCode,
+  McpError
+} from '@modelcontextprotocol/sdk/types.js';
+import type { ChildServerClient, ToolRegistry, ToolSchema } from './types.js';
+import { ServerStatus } from './types.js';
+import {
+  getServerStatuses,
+  restartChildServer,
+  disableChildServer
+} from './child-manager.js';
+import type { ErrorHandlerOptions } from './child-manager.js';
+import { addServerTools, getRegistryStats } from './registry.js';
+import { logInfo } from './logger.js';
+
+/**
+ * Reserved server key (tool prefix) of the management tools
+ */
+export const MANAGEMENT_SERVER_KEY = 'aggregator';
+
+/**
+ * Schema of the `server` argument shared by the per-server tools
+ */
+const SERVER_ARGUMENT = {
+  type: 'object',
+  properties: {
+    server: { type: 'string', description: 'Server key from the aggregator config' }
+  }
+} as const;
+
+/**
+ * Unprefixed management tool schemas
+ */
+const MANAGEMENT_TOOLS: ToolSchema[] = [
+  {
+    name: 'list_servers',
+    description: 'List the child MCP servers behind this aggregator with their status, transport and number of tools.',
+    inputSchema: { type: 'object', properties: {} }
+  },
+  {
+    name: 'status',
+    description: 'Show detailed status of child MCP servers: status, last error, uptime, restart count and number of tools. Pass `server` to show a single server. Use this to find out why a tool is missing.',
+    inputSchema: SERVER_ARGUMENT
+  },
+  {
+    name: 'restart_server',
+    description: 'Restart a child MCP server. Also re-enables a server stopped with disable_server.',
+    inputSchema: { ...SERVER_ARGUMENT, required: ['server'] }
+  },
+  {
+    name: 'disable_server',
+    description: 'Stop a child MCP server and remove its tools until it is restarted with restart_server.',
+    inputSchema: { ...SERVER_ARGUMENT, required: ['server'] }
+  }
+];
+
+/**
+ * Create the in-process MCP server that implements the management tools
+ *
+ * @param children - Map of child server clients
+ * @param registry - Tool registry (for tool counts, and updated on restart/disable)
+ * @param options - Separator, additional registries and change callback
+ * @returns MCP Server serving the unprefixed management tools
+ */
+export function createManagementServer(
+  children: Map<string, ChildServerClient>,
+  registry: ToolRegistry,
+  options: ErrorHandlerOptions = {}
+): Server {
+  const server = new Server(
+    { name: 'mcp-aggregator-management', version: '1.0.0' },
+    { capabilities: { tools: {} } }
+  );
+
+  const getChild = (args: Record<string, unknown> | undefined): ChildServerClient => {
+    const serverKey = args?.server;
+    if (typeof serverKey !== 'string' || serverKey === '') {
+      throw new McpError(ErrorCode.InvalidParams, 'Missing required argument: server');
+    }
+    const child = children.get(serverKey);
+    if (!child) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown server: '${serverKey}'. Available servers: ${Array.from(children.keys()).join(', ')}`
+      );
+    }
+    return child;
+  };
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: MANAGEMENT_TOOLS }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    const { serverCounts } = getRegistryStats(registry);
+
+    switch (name) {
+      case 'list_servers': {
+        const servers = Array.from(children.values()).map(child => ({
+          serverKey: child.serverKey,
+          status: child.status,
+          transport: child.config.transport ?? (child.config.url ? 'streamable-http' : 'stdio'),
+          toolCount: serverCounts[child.serverKey] ?? 0
+        }));
+        return jsonResult({ servers });
+      }
+
+      case 'status': {
+        const selected = args?.server === undefined ? undefined : getChild(args).serverKey;
+        const now = Date.now();
+        const servers = getServerStatuses(children)
+          .filter(report => selected === undefined || report.serverKey === selected)
+          .map(report => {
+            const child = children.get(report.serverKey)!;
+            return {
+              ...report,
+              toolCount: serverCounts[report.serverKey] ?? 0,
+              uptimeMs: child.status === ServerStatus.RUNNING && child.startedAt !== undefined
+                ? now - child.startedAt
+                : null
+            };
+          });
+        return jsonResult({ totalTools: registry.size, servers });
+      }
+
+      case 'restart_server': {
+        const { serverKey } = getChild(args);
+        logInfo(`[INFO] Restarting '${serverKey}' on request`);
+        if (await restartChildServer(children, serverKey, registry, options)) {
+          options.onToolsChanged?.();
+        }
+        const child = children.get(serverKey)!;
+        return jsonResult({
+          serverKey,
+          status: child.status,
+          toolCount: getRegistryStats(registry).serverCounts[serverKey] ?? 0,
+          ...(child.error && { error: child.error.message })
+        });
+      }
+
+      case 'disable_server': {
+        const { serverKey } = getChild(args);
+        logInfo(`[INFO] Disabling '${serverKey}' on request`);
+        if (await disableChildServer(children, serverKey, registry, options)) {
+          options.onToolsChanged?.();
+        }
+        return jsonResult({ serverKey, status: children.get(serverKey)!.status });
+      }
+
+      default:
+        throw new McpError(ErrorCode.MethodNotFound, `Tool not found: ${name}`);
+    }
+  });
+
+  return server;
+}
+
+/**
+ * Serve the management tools and add them to the registry
+ *
+ * @param children - Map of child server clients
+ * @param registry - Tool registry to add the management tools to
+ * @param options - Separator, additional registries and change callback
+ * @returns Client connected to the in-process management server
+ *
+ * @example
+ * await connectManagementTools(children, registry, { separator: ':' });
+ * // registry now contains aggregator:list_servers, aggregator:status, ...
+ */
+export async function connectManagementTools(
+  children: Map<string, ChildServerClient>,
+  registry: ToolRegistry,
+  options: ErrorHandlerOptions = {}
+): Promise<Client> {
+  const server = createManagementServer(children, registry, options);
+  const client = new Client(
+    { name: 'mcp-aggregator-management-client', version: '1.0.0' },
+    { capabilities: {} }
+  );
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  addServerTools(registry, MANAGEMENT_SERVER_KEY, client, MANAGEMENT_TOOLS, options.separator ?? ':');
+  return client;
+}
+
+/**
+ * Wrap a value as a JSON text tool result
+ * @param value - Value to serialize
+ * @returns MCP tools/call result
+ */
+function jsonResult(value: unknown): { content: Array<{ type: 'text'; text: string }> } {
+  return { content: [{ type: 'text', text: JSON.stringify(value, null, 2) }] };
+}
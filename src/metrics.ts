@@ -0,0 +1,298 @@
+/**
+ * Metrics Module
+ *
+ * Keeps Prometheus-style metrics for the aggregator and serves them in the
+ * Prometheus text exposition format on an optional local port
+ * (--metrics-port).
+ *
+ * Tool call counters and latency histograms are recorded by the tools/call
+ * handler, per serverKey and tool. Child status, restart counts and registry
+ * size are read from the live children map and tool registry on each scrape.
+ *
+ * Exposed metrics:
+ * - mcp_aggregator_tool_calls_total{server,tool,status}        counter
+ * - mcp_aggregator_tool_call_duration_seconds{server,tool}     histogram
+ * - mcp_aggregator_child_restarts_total{server}                counter
+ * - mcp_aggregator_child_status{server,status}                 gauge (1 for the current status)
+ * - mcp_aggregator_registry_tools                              gauge
+ * - mcp_aggregator_server_tools{server}                        gauge
+ */
+
+import { createServer as createHttpServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { ChildServerClient, ToolRegistry } from './types.js';
+import { ServerStatus } from './types.js';
+import { getRegistryStats } from './registry.js';
+import { logInfo, logError } from './logger.js';
+
+/**
+ * Default host for --metrics-port (local scrapes only)
+ */
+export const DEFAULT_METRICS_HOST = '127.0.0.1';
+
+/**
+ * Upper bounds of the tool call latency histogram buckets, in seconds
+ */
+export const DEFAULT_LATENCY_BUCKETS: readonly number[] = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60
+];
+
+/**
+ * A finished tools/call routed to a child server
+ */
+export interface ToolCallObservation {
+  /** Server the call was routed to */
+  serverKey: string;
+
+  /** Tool name as called (prefixed) */
+  tool: string;
+
+  /** False if the call threw or the child returned an isError result */
+  success: boolean;
+
+  /** Duration of the call in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Metrics of a running aggregator
+ */
+export interface AggregatorMetrics {
+  /**
+   * Count a finished tool call and observe its latency
+   * @param call - The finished call
+   */
+  recordToolCall(call: ToolCallObservation): void;
+
+  /**
+   * Render all metrics in the Prometheus text exposition format
+   * @returns Exposition text, ending with a newline
+   */
+  render(): string;
+}
+
+/**
+ * Metrics endpoint options
+ */
+export interface MetricsServerOptions {
+  /** Port to listen on (0 picks a free port) */
+  port: number;
+
+  /** Host/interface to bind (default: 127.0.0.1) */
+  host?: string;
+}
+
+/**
+ * Running metrics endpoint
+ */
+export interface MetricsServer {
+  /** URL metrics are served on (e.g., http://127.0.0.1:9464/metrics) */
+  url: string;
+
+  /** Stop listening */
+  close(): Promise<void>;
+}
+
+/**
+ * Latency histogram of one server/tool pair
+ */
+interface ToolCallSeries {
+  serverKey: string;
+  tool: string;
+  success: number;
+  error: number;
+  /** Observations per bucket (not cumulative), plus one for +Inf */
+  buckets: number[];
+  sumSeconds: number;
+}
+
+/**
+ * Create the aggregator metrics
+ *
+ * @param children - Live map of child servers (read on each scrape)
+ * @param registry - Live tool registry (read on each scrape)
+ * @param buckets - Latency histogram bucket bounds in seconds (default: DEFAULT_LATENCY_BUCKETS)
+ * @returns Metrics to record tool calls into and render
+ *
+ * @example
+ * const metrics = createMetrics(children, registry);
+ * setupToolCallHandler(server, registry, ':', { metrics });
+ * await startMetricsServer(metrics, { port: 9464 });
+ */
+export function createMetrics(
+  children: Map<string, ChildServerClient>,
+  registry: ToolRegistry,
+  buckets: readonly number[] = DEFAULT_LATENCY_BUCKETS
+): AggregatorMetrics {
+  const series = new Map<string, ToolCallSeries>();
+
+  return {
+    recordToolCall(call: ToolCallObservation): void {
+      const key = `${call.serverKey}\0${call.tool}`;
+      let entry = series.get(key);
+      if (!entry) {
+        entry = {
+          serverKey: call.serverKey,
+          tool: call.tool,
+          success: 0,
+          error: 0,
+          buckets: new Array<number>(buckets.length + 1).fill(0),
+          sumSeconds: 0
+        };
+        series.set(key, entry);
+      }
+
+      const seconds = call.durationMs / 1000;
+      const index = buckets.findIndex(bound => seconds <= bound);
+      entry.buckets[index === -1 ? buckets.length : index]!++;
+      entry.sumSeconds += seconds;
+      if (call.success) {
+        entry.success++;
+      } else {
+        entry.error++;
+      }
+    },
+
+    render(): string {
+      const lines: string[] = [];
+
+      lines.push(
+        '# HELP mcp_aggregator_tool_calls_total Tool calls routed to child servers.',
+        '# TYPE mcp_aggregator_tool_calls_total counter'
+      );
+      for (const entry of series.values()) {
+        const labels = { server: entry.serverKey, tool: entry.tool };
+        lines.push(
+          sample('mcp_aggregator_tool_calls_total', { ...labels, status: 'success' }, entry.success),
+          sample('mcp_aggregator_tool_calls_total', { ...labels, status: 'error' }, entry.error)
+        );
+      }
+
+      lines.push(
+        '# HELP mcp_aggregator_tool_call_duration_seconds Latency of tool calls routed to child servers.',
+        '# TYPE mcp_aggregator_tool_call_duration_seconds histogram'
+      );
+      for (const entry of series.values()) {
+        const labels = { server: entry.serverKey, tool: entry.tool };
+        let cumulative = 0;
+        buckets.forEach((bound, index) => {
+          cumulative += entry.buckets[index]!;
+          lines.push(sample('mcp_aggregator_tool_call_duration_seconds_bucket', { ...labels, le: String(bound) }, cumulative));
+        });
+        const count = cumulative + entry.buckets[buckets.length]!;
+        lines.push(
+          sample('mcp_aggregator_tool_call_duration_seconds_bucket', { ...labels, le: '+Inf' }, count),
+          sample('mcp_aggregator_tool_call_duration_seconds_sum', labels, entry.sumSeconds),
+          sample('mcp_aggregator_tool_call_duration_seconds_count', labels, count)
+        );
+      }
+
+      lines.push(
+        '# HELP mcp_aggregator_child_restarts_total Successful restarts of child servers.',
+        '# TYPE mcp_aggregator_child_restarts_total counter'
+      );
+      for (const child of children.values()) {
+        lines.push(sample('mcp_aggregator_child_restarts_total', { server: child.serverKey }, child.restartCount));
+      }
+
+      lines.push(
+        '# HELP mcp_aggregator_child_status Current status of child servers (1 for the current status).',
+        '# TYPE mcp_aggregator_child_status gauge'
+      );
+      for (const child of children.values()) {
+        for (const status of Object.values(ServerStatus)) {
+          lines.push(sample('mcp_aggregator_child_status', { server: child.serverKey, status }, child.status === status ? 1 : 0));
+        }
+      }
+
+      const { totalTools, serverCounts } = getRegistryStats(registry);
+      lines.push(
+        '# HELP mcp_aggregator_registry_tools Tools in the aggregated registry.',
+        '# TYPE mcp_aggregator_registry_tools gauge',
+        sample('mcp_aggregator_registry_tools', {}, totalTools),
+        '# HELP mcp_aggregator_server_tools Tools in the aggregated registry per server.',
+        '# TYPE mcp_aggregator_server_tools gauge'
+      );
+      for (const [serverKey, count] of Object.entries(serverCounts)) {
+        lines.push(sample('mcp_aggregator_server_tools', { server: serverKey }, count));
+      }
+
+      return `${lines.join('\n')}\n`;
+    }
+  };
+}
+
+/**
+ * Serve metrics on GET /metrics
+ *
+ * @param metrics - Metrics to serve
+ * @param options - Port (0 picks a free port) and host (default: 127.0.0.1)
+ * @returns Running metrics server
+ */
+export async function startMetricsServer(
+  metrics: AggregatorMetrics,
+  options: MetricsServerOptions
+): Promise<MetricsServer> {
+  const { port, host = DEFAULT_METRICS_HOST } = options;
+
+  const httpServer = createHttpServer((req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (pathname !== '/metrics') {
+      res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not Found\n');
+      return;
+    }
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { Allow: 'GET, HEAD', 'Content-Type': 'text/plain' }).end('Method Not Allowed\n');
+      return;
+    }
+
+    try {
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+      res.end(req.method === 'HEAD' ? undefined : metrics.render());
+    } catch (error) {
+      logError('[ERROR] Failed to render metrics:', (error as Error).message);
+      if (!res.headersSent) {
+        res.writeHead(500, { 'Content-Type': 'text/plain' });
+      }
+      res.end();
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address() as AddressInfo;
+  const url = `http://${host.includes(':') ? `[${host}]` : host}:${address.port}/metrics`;
+  logInfo(`[INFO] Serving metrics on ${url}`);
+
+  return {
+    url,
+    async close(): Promise<void> {
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
+  };
+}
+
+/**
+ * Format one sample line with escaped label values
+ */
+function sample(name: string, labels: Record<string, string>, value: number): string {
+  const entries = Object.entries(labels);
+  const labelStr = entries.length === 0
+    ? ''
+    : `{${entries.map(([key, labelValue]) => `${key}="${escapeLabelValue(labelValue)}"`).join(',')}}`;
+  return `${name}${labelStr} ${value}`;
+}
+
+/**
+ * Escape a label value (backslash, double quote and newline)
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
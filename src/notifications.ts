@@ -0,0 +1,140 @@
+/**
+ * Notifications Module
+ *
+ * Keeps the upstream client's tool list in sync with the aggregated registry:
+ * - Sends notifications/tools/list_changed (debounced) when the registry changes
+ * - Subscribes to each child's own tools/list_changed notification and
+ *   re-fetches that child's tools
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { ChildServerClient, ToolRegistry } from './types.js';
+import { refreshServerTools } from './registry.js';
+import { logDebug, logError } from './logger.js';
+
+/**
+ * Default quiet period before a tools/list_changed notification is sent
+ */
+export const DEFAULT_LIST_CHANGED_DEBOUNCE_MS = 100;
+
+/**
+ * Debounced sender for tools/list_changed notifications
+ */
+export interface ListChangedNotifier {
+  /** Request a notification; bursts within the debounce window collapse into one */
+  notify(): void;
+
+  /** Send a pending notification immediately */
+  flush(): void;
+
+  /** Drop a pending notification without sending it */
+  cancel(): void;
+}
+
+/**
+ * Create a debounced tools/list_changed notifier for the aggregator server
+ *
+ * With the HTTP transport there is one Server per client session; pass the
+ * live set of session servers and every session is notified.
+ *
+ * @param servers - MCP Server instance, or a live collection of them (must declare the tools capability)
+ * @param debounceMs - Quiet period before sending (default: 100ms)
+ * @returns Notifier to call whenever the tool registry changes
+ *
+ * @example
+ * const notifier = createToolListChangedNotifier(server);
+ * if (removeServerTools(registry, 'postgres')) {
+ *   notifier.notify();
+ * }
+ */
+export function createToolListChangedNotifier(
+  servers: Server | Iterable<Server>,
+  debounceMs: number = DEFAULT_LIST_CHANGED_DEBOUNCE_MS
+): ListChangedNotifier {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const send = (): void => {
+    timer = undefined;
+    const targets = Symbol.iterator in servers ? Array.from(servers) : [servers];
+    for (const server of targets) {
+      server.sendToolListChanged().then(
+        () => logDebug('[DEBUG] Sent notifications/tools/list_changed'),
+        (error: unknown) => {
+          // Not connected yet (or anymore) - the client will fetch a fresh list anyway
+          logDebug(
+            '[DEBUG] Could not send notifications/tools/list_changed:',
+            error instanceof Error ? error.message : String(error)
+          );
+        }
+      );
+    }
+  };
+
+  return {
+    notify(): void {
+      if (timer !== undefined) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(send, debounceMs);
+      timer.unref?.();
+    },
+
+    flush(): void {
+      if (timer !== undefined) {
+        clearTimeout(timer);
+        send();
+      }
+    },
+
+    cancel(): void {
+      if (timer !== undefined) {
+        clearTimeout(timer);
+        timer = undefined;
+      }
+    }
+  };
+}
+
+/**
+ * Re-fetch a child's tools whenever it sends notifications/tools/list_changed
+ *
+ * Must be called again after the child's client is replaced (e.g., on restart).
+ * The child's current config (tool filters, overrides) is used for each
+ * refresh, so config reloads apply without subscribing again.
+ *
+ * @param childClient - Child server to subscribe to
+ * @param registry - Tool registry to update
+ * @param separator - Separator string for namespacing (default: ':')
+ * @param onChanged - Called when the child's exposed tools actually changed
+ */
+export function subscribeToToolListChanges(
+  childClient: ChildServerClient,
+  registry: ToolRegistry,
+  separator: string,
+  onChanged: () => void
+): void {
+  const { serverKey, client } = childClient;
+
+  client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+    // Ignore notifications from a replaced client
+    if (childClient.client !== client) {
+      return;
+    }
+
+    logDebug(`[DEBUG] Child server '${serverKey}' reported a tool list change`);
+
+    try {
+      // Read the config now: a reload may have replaced it since subscribing
+      const changed = await refreshServerTools(registry, serverKey, client, separator, childClient.config);
+      if (changed) {
+        onChanged();
+      }
+    } catch (error) {
+      logError(
+        `[ERROR] Failed to refresh tools for '${serverKey}':`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  });
+}
@@ -0,0 +1,163 @@
+/**
+ * Prompt Registry Module
+ *
+ * Manages the aggregation of prompts from multiple child MCP servers.
+ * Prompt names are namespaced exactly like tool names (serverKey:promptName)
+ * so that prompts/get can be routed back to the owning child.
+ */
+
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { PromptRegistry, PromptRegistryEntry, PromptSchema } from './types.js';
+import { validateSeparator } from './index.js';
+import { logDebug } from './logger.js';
+
+/**
+ * Build prompt registry from all child server clients
+ *
+ * Fetches prompts from every child in parallel. Children that do not support
+ * prompts contribute nothing.
+ *
+ * @param childClients - Map of server keys to MCP client connections
+ * @param separator - Separator string for namespacing (default: ':')
+ * @returns Promise resolving to populated prompt registry
+ *
+ * @example
+ * const registry = await buildPromptRegistry(clients, ':');
+ * // registry contains 'github:review_pr', 'jira:triage', etc.
+ */
+export async function buildPromptRegistry(
+  childClients: Map<string, Client>,
+  separator: string = ':'
+): Promise<PromptRegistry> {
+  validateSeparator(separator);
+
+  const registry: PromptRegistry = new Map();
+
+  const promptFetchPromises = Array.from(childClients.entries()).map(
+    async ([serverKey, client]) => {
+      const prompts = await fetchPrompts(serverKey, client);
+      return { serverKey, client, prompts };
+    }
+  );
+
+  const results = await Promise.all(promptFetchPromises);
+
+  for (const { serverKey, client, prompts } of results) {
+    addServerPrompts(registry, serverKey, client, prompts, separator);
+  }
+
+  return registry;
+}
+
+/**
+ * Fetch every page of prompts from a child server
+ *
+ * @param serverKey - Server key (for logging)
+ * @param client - MCP client connection to the server
+ * @returns All prompts, or an empty array if the child does not support prompts
+ */
+async function fetchPrompts(serverKey: string, client: Client): Promise<PromptSchema[]> {
+  const prompts: PromptSchema[] = [];
+  try {
+    let cursor: string | undefined;
+    do {
+      const response = await client.listPrompts(cursor ? { cursor } : undefined);
+      prompts.push(...((response.prompts || []) as PromptSchema[]));
+      cursor = response.nextCursor;
+    } while (cursor);
+  } catch (error) {
+    logDebug(
+      `[DEBUG] Server '${serverKey}' does not provide prompts:`,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+  return prompts;
+}
+
+/**
+ * Add prompts from a server to the registry with prefix
+ *
+ * @param registry - The prompt registry to update
+ * @param serverKey - Unique identifier for the server (used as prefix)
+ * @param client - MCP client connection to the server
+ * @param prompts - Array of prompt schemas from the server
+ * @param separator - Separator string for namespacing (default: ':')
+ *
+ * @example
+ * addServerPrompts(registry, 'github', client, [{ name: 'review_pr' }], ':');
+ * // Adds 'github:review_pr' to registry
+ */
+export function addServerPrompts(
+  registry: PromptRegistry,
+  serverKey: string,
+  client: Client,
+  prompts: PromptSchema[],
+  separator: string = ':'
+): void {
+  for (const prompt of prompts) {
+    const prefixedName = `${serverKey}${separator}${prompt.name}`;
+
+    const entry: PromptRegistryEntry = {
+      client,
+      serverKey,
+      originalName: prompt.name,
+      schema: {
+        ...prompt,
+        name: prefixedName
+      }
+    };
+
+    registry.set(prefixedName, entry);
+  }
+}
+
+/**
+ * Remove all prompts belonging to a server
+ *
+ * @param registry - The prompt registry to update
+ * @param serverKey - The server whose prompts should be removed
+ */
+export function removeServerPrompts(
+  registry: PromptRegistry,
+  serverKey: string
+): void {
+  for (const [promptName, entry] of registry) {
+    if (entry.serverKey === serverKey) {
+      registry.delete(promptName);
+    }
+  }
+}
+
+/**
+ * Re-fetch a single server's prompts and replace its registry entries
+ *
+ * @param registry - The prompt registry to update
+ * @param serverKey - Server whose prompts should be refreshed
+ * @param client - Current MCP client connection to the server
+ * @param separator - Separator string for namespacing (default: ':')
+ */
+export async function refreshServerPrompts(
+  registry: PromptRegistry,
+  serverKey: string,
+  client: Client,
+  separator: string = ':'
+): Promise<void> {
+  const prompts = await fetchPrompts(serverKey, client);
+
+  removeServerPrompts(registry, serverKey);
+  addServerPrompts(registry, serverKey, client, prompts, separator);
+}
+
+/**
+ * Lookup prompt by prefixed name
+ *
+ * @param registry - The prompt registry to search
+ * @param prefixedName - The prefixed prompt name (e.g., 'github:review_pr')
+ * @returns Registry entry if found, undefined otherwise
+ */
+export function lookupPrompt(
+  registry: PromptRegistry,
+  prefixedName: string
+): PromptRegistryEntry | undefined {
+  return registry.get(prefixedName);
+}
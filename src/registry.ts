@@ -3,7 +3,9 @@
  *
  * Manages the aggregation of tools from multiple child MCP servers.
  * Provides O(1) lookup for tool routing and maintains the mapping between
- * prefixed tool names and their source servers.
+ * exposed tool names and their source servers. Each entry records the server
+ * that owns it, so exposed names need not start with the server key (custom
+ * or no prefix, names rewritten by the tool name policy).
  *
  * Tasks:
  * - T074 [US2] Implement buildToolRegistry() to aggregate tools from all children
@@ -14,8 +16,30 @@
  */
 
 import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import type { ToolRegistry, ToolRegistryEntry, ToolSchema } from './types.js';
+import type {
+  ToolRegistry,
+  ToolRegistryEntry,
+  ToolSchema,
+  ServerConfig,
+  ToolNameCollision
+} from './types.js';
 import { validateSeparator } from './index.js';
+import { isToolAllowed } from './tool-filter.js';
+import { applyToolOverride } from './tool-overrides.js';
+import { logDebug, logWarn, logError } from './logger.js';
+import { withSpan } from './tracing.js';
+import {
+  applyToolNamePolicy,
+  getToolCollisionStrategy,
+  formatToolNameCollisions
+} from './tool-names.js';
+
+/**
+ * Entries replaced by a later tool under the last-wins collision strategy,
+ * per registry and exposed name (most recent last), restored when the tool
+ * that replaced them is removed
+ */
+const shadowedEntries = new WeakMap<ToolRegistry, Map<string, ToolRegistryEntry[]>>();
 
 /**
  * T074 & T007: Build tool registry from all child server clients
@@ -25,7 +49,9 @@ import { validateSeparator } from './index.js';
  *
  * @param childClients - Map of server keys to MCP client connections
  * @param separator - Separator string for namespacing (default: ':')
+ * @param serverConfigs - Server configurations with tool filters and overrides (optional)
  * @returns Promise resolving to populated tool registry
+ * @throws Error if different tools map to the same name under the "error" collision strategy
  *
  * @example
  * const clients = new Map([
@@ -37,52 +63,89 @@ import { validateSeparator } from './index.js';
  */
 export async function buildToolRegistry(
   childClients: Map<string, Client>,
-  separator: string = ':'
+  separator: string = ':',
+  serverConfigs: Record<string, ServerConfig> = {}
 ): Promise<ToolRegistry> {
   // T040-T041: Validate separator before building registry
   validateSeparator(separator);
 
-  const registry: ToolRegistry = new Map();
-
-  // Fetch tools from all child servers in parallel
-  const toolFetchPromises = Array.from(childClients.entries()).map(
-    async ([serverKey, client]) => {
-      try {
-        const response = await client.listTools();
-        const tools = response.tools || [];
-        return { serverKey, client, tools };
-      } catch (error) {
-        console.error(
-          `Failed to list tools from server '${serverKey}':`,
-          error instanceof Error ? error.message : String(error)
-        );
-        return { serverKey, client, tools: [] };
+  return withSpan('buildToolRegistry', { attributes: { 'mcp.server_count': childClients.size } }, async (span) => {
+    const registry: ToolRegistry = new Map();
+
+    // Fetch tools from all child servers in parallel
+    const toolFetchPromises = Array.from(childClients.entries()).map(
+      async ([serverKey, client]) => {
+        try {
+          const response = await withSpan('tools/list', {
+            kind: 'client',
+            attributes: { 'mcp.server_key': serverKey }
+          }, () => client.listTools());
+          const tools = response.tools || [];
+          return { serverKey, client, tools };
+        } catch (error) {
+          console.error(
+            `Failed to list tools from server '${serverKey}':`,
+            error instanceof Error ? error.message : String(error)
+          );
+          return { serverKey, client, tools: [] };
+        }
       }
-    }
-  );
+    );
 
-  const results = await Promise.all(toolFetchPromises);
+    const results = await Promise.all(toolFetchPromises);
 
-  // T013: Add tools from each server to registry with separator parameter
-  for (const { serverKey, client, tools } of results) {
-    // Cast to ToolSchema[] since the MCP SDK returns the correct type
-    addServerTools(registry, serverKey, client, tools as ToolSchema[], separator);
-  }
+    // T013: Add tools from each server to registry with separator parameter
+    const collisions: ToolNameCollision[] = [];
+    for (const { serverKey, client, tools } of results) {
+      // Cast to ToolSchema[] since the MCP SDK returns the correct type
+      addServerTools(
+        registry,
+        serverKey,
+        client,
+        tools as ToolSchema[],
+        separator,
+        serverConfigs[serverKey],
+        collisions
+      );
+    }
+
+    if (collisions.length > 0 && getToolCollisionStrategy() === 'error') {
+      throw new Error(
+        `Tool name collisions: ${formatToolNameCollisions(collisions)}. Rename one of the tools with a "tools" override in the server config, set a "prefix" for one of the servers, or choose another --collision-strategy.`
+      );
+    }
 
-  return registry;
+    span.setAttribute('mcp.tool_count', registry.size);
+    return registry;
+  });
 }
 
 /**
  * T075 & T078 & T008: Add tools from a server to the registry with prefix
  *
  * Adds all tools from a child server to the registry, prefixing each tool name
- * with the server key using the configurable separator.
+ * with the server key (or the server's `prefix`) using the configurable
+ * separator; with `prefix: false` tools keep their own names. Tools rejected by the
+ * server's includeTools / excludeTools are skipped, so they can be neither
+ * listed nor called. The server's `tools` overrides may rename a tool, add
+ * aliases and change its description; every exposed name keeps the child's
+ * original name as originalName for routing.
+ *
+ * Prefixed names are passed through the tool name policy (see tool-names.ts).
+ * If a name is already taken by a different tool, the collision is logged
+ * and resolved by the collision strategy: the new tool is skipped (error,
+ * first-wins), replaces the existing one (last-wins) or gets a numbered
+ * suffix (auto-suffix). A replaced tool comes back when the tool that
+ * replaced it is removed.
  *
  * @param registry - The tool registry to update
- * @param serverKey - Unique identifier for the server (used as prefix)
+ * @param serverKey - Unique identifier for the server (the default prefix)
  * @param client - MCP client connection to the server
  * @param tools - Array of tool schemas from the server
  * @param separator - Separator string for namespacing (default: ':')
+ * @param serverConfig - Server configuration with tool filters and overrides (optional)
+ * @param collisions - Receives the tool name collisions found (optional)
+ * @returns True if any tool was added or its schema changed
  *
  * @example
  * addServerTools(registry, 'filesystem', client, [
@@ -95,24 +158,142 @@ export function addServerTools(
   serverKey: string,
   client: Client,
   tools: ToolSchema[],
-  separator: string = ':'
-): void {
+  separator: string = ':',
+  serverConfig?: ServerConfig,
+  collisions?: ToolNameCollision[]
+): boolean {
+  let changed = false;
+  const prefix = getToolPrefix(serverKey, separator, serverConfig);
+
   for (const tool of tools) {
-    // T078: Implement prefixing logic using configurable separator
-    const prefixedName = `${serverKey}${separator}${tool.name}`;
-
-    // Create registry entry
-    const entry: ToolRegistryEntry = {
-      client,
-      serverKey,
-      originalName: tool.name,
-      schema: {
-        ...tool,
-        name: prefixedName // Update schema with prefixed name
+    if (serverConfig && !isToolAllowed(tool.name, serverConfig)) {
+      logDebug(`[DEBUG] Filtered out tool '${tool.name}' from server '${serverKey}'`);
+      continue;
+    }
+
+    const override = serverConfig?.tools?.[tool.name];
+    const callTimeoutMs = override?.callTimeoutMs ?? serverConfig?.callTimeoutMs;
+    const redactArguments = [
+      ...(serverConfig?.redactArguments ?? []),
+      ...(override?.redactArguments ?? [])
+    ];
+
+    for (const exposed of applyToolOverride(tool, override)) {
+      // T078: Implement prefixing logic using configurable separator
+      const resolved = resolveToolName(
+        registry,
+        `${prefix}${exposed.name}`,
+        serverKey,
+        tool.name
+      );
+      if (resolved.collision) {
+        collisions?.push(resolved.collision);
+      }
+      if (resolved.name === undefined) {
+        continue;
+      }
+      const prefixedName = resolved.name;
+      const existing = registry.get(prefixedName);
+
+      // Create registry entry
+      const entry: ToolRegistryEntry = {
+        client,
+        serverKey,
+        originalName: tool.name,
+        schema: {
+          ...exposed,
+          name: prefixedName // Update schema with prefixed name
+        },
+        ...(callTimeoutMs !== undefined && { callTimeoutMs }),
+        ...(redactArguments.length > 0 && { redactArguments }),
+        ...(override?.pinnedArguments && { pinnedArguments: override.pinnedArguments }),
+        ...(override?.defaultArguments && { defaultArguments: override.defaultArguments })
+      };
+
+      if (!existing || !isSameSchema(existing.schema, entry.schema)) {
+        changed = true;
+      }
+      // Replaced under last-wins (auto-suffix collisions get a name of their own)
+      if (existing && resolved.collision && resolved.collision.resolvedName === undefined) {
+        shadowEntry(registry, prefixedName, existing);
+      }
+
+      registry.set(prefixedName, entry);
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Get the prefix put in front of a server's tool names
+ *
+ * @param serverKey - Server the tools belong to
+ * @param separator - Separator string for namespacing
+ * @param serverConfig - Server configuration with an optional `prefix`
+ * @returns e.g. "filesystem:", "fs:" for `prefix: "fs"`, or "" for `prefix: false`
+ */
+export function getToolPrefix(
+  serverKey: string,
+  separator: string,
+  serverConfig?: ServerConfig
+): string {
+  const prefix = serverConfig?.prefix ?? serverKey;
+  return prefix === false ? '' : `${prefix}${separator}`;
+}
+
+/**
+ * Pick the exposed name for a tool, resolving collisions with a different
+ * tool by the collision strategy
+ *
+ * @param registry - The tool registry
+ * @param rawName - Prefixed name before the tool name policy
+ * @param serverKey - Server the tool belongs to
+ * @param originalName - Tool name on the child
+ * @returns Name to register under (unset if the tool is skipped), and the collision if any
+ */
+function resolveToolName(
+  registry: ToolRegistry,
+  rawName: string,
+  serverKey: string,
+  originalName: string
+): { name?: string; collision?: ToolNameCollision } {
+  // Re-adding the same tool (e.g., a refresh) replaces its own entry
+  const isAvailable = (name: string): boolean => {
+    const existing = registry.get(name);
+    return !existing || (existing.serverKey === serverKey && existing.originalName === originalName);
+  };
+
+  const name = applyToolNamePolicy(rawName);
+  if (isAvailable(name)) {
+    return { name };
+  }
+
+  const existing = registry.get(name)!;
+  const collision: ToolNameCollision = {
+    name,
+    existing: { serverKey: existing.serverKey, originalName: existing.originalName },
+    incoming: { serverKey, originalName }
+  };
+  const description = formatToolNameCollisions([collision]);
+
+  switch (getToolCollisionStrategy()) {
+    case 'last-wins':
+      logWarn(`[WARN] Tool name collision: ${description}; replacing the first tool`);
+      return { name, collision };
+
+    case 'auto-suffix': {
+      let suffixed = name;
+      for (let index = 2; !isAvailable(suffixed); index++) {
+        suffixed = applyToolNamePolicy(`${rawName}_${index}`);
       }
-    };
+      logWarn(`[WARN] Tool name collision: ${description}; exposing the second tool as '${suffixed}'`);
+      return { name: suffixed, collision: { ...collision, resolvedName: suffixed } };
+    }
 
-    registry.set(prefixedName, entry);
+    default:
+      logWarn(`[WARN] Tool name collision: ${description}; keeping the first tool`);
+      return { collision };
   }
 }
 
@@ -121,33 +302,149 @@ export function addServerTools(
  *
  * Removes all tools belonging to a specific server from the registry.
  * This is called when a child server crashes or becomes unavailable.
+ * Ownership is taken from each entry's serverKey, not from the exposed name,
+ * so tools under a custom prefix or no prefix are removed as well. Tools of
+ * other servers that the removed ones replaced (last-wins) are restored.
  *
  * @param registry - The tool registry to update
  * @param serverKey - The server whose tools should be removed
- * @param separator - Separator string for namespacing (default: ':')
+ * @returns True if any tool was removed
  *
  * @example
- * removeServerTools(registry, 'postgres', ':');
- * // Removes all tools with 'postgres:' prefix
+ * removeServerTools(registry, 'postgres');
+ * // Removes all tools registered by server 'postgres'
  */
 export function removeServerTools(
   registry: ToolRegistry,
-  serverKey: string,
-  separator: string = ':'
-): void {
-  const prefix = `${serverKey}${separator}`;
-
-  // Find and remove all tools with this server's prefix
+  serverKey: string
+): boolean {
+  // Find and remove all tools owned by this server
   const keysToRemove: string[] = [];
-  for (const [toolName] of registry) {
-    if (toolName.startsWith(prefix)) {
+  for (const [toolName, entry] of registry) {
+    if (entry.serverKey === serverKey) {
       keysToRemove.push(toolName);
     }
   }
 
+  // The server's own replaced tools must not come back
+  const shadowed = shadowedEntries.get(registry) ?? new Map<string, ToolRegistryEntry[]>();
+  for (const [name, entries] of shadowed) {
+    shadowed.set(name, entries.filter(entry => entry.serverKey !== serverKey));
+  }
+
   for (const key of keysToRemove) {
     registry.delete(key);
+
+    const restored = shadowed.get(key)?.pop();
+    if (restored) {
+      registry.set(key, restored);
+      logDebug(`[DEBUG] Restored tool '${key}' of server '${restored.serverKey}'`);
+    }
+  }
+
+  for (const [name, entries] of shadowed) {
+    if (entries.length === 0) {
+      shadowed.delete(name);
+    }
+  }
+
+  return keysToRemove.length > 0;
+}
+
+/**
+ * Remember an entry replaced under the last-wins collision strategy
+ *
+ * @param registry - The tool registry
+ * @param name - Exposed name of the entry
+ * @param entry - Replaced entry
+ */
+function shadowEntry(registry: ToolRegistry, name: string, entry: ToolRegistryEntry): void {
+  let shadowed = shadowedEntries.get(registry);
+  if (!shadowed) {
+    shadowed = new Map();
+    shadowedEntries.set(registry, shadowed);
+  }
+  shadowed.set(name, [...(shadowed.get(name) ?? []), entry]);
+}
+
+/**
+ * Re-fetch a single server's tools and replace its registry entries
+ *
+ * Used after a child restarts (new client connection) or changes its tool list.
+ * Collisions are resolved by the collision strategy; under "error" the
+ * aggregator is already running, so they are logged and the first tool kept.
+ *
+ * @param registry - The tool registry to update
+ * @param serverKey - Server whose tools should be refreshed
+ * @param client - Current MCP client connection to the server
+ * @param separator - Separator string for namespacing (default: ':')
+ * @param serverConfig - Server configuration with tool filters and overrides (optional)
+ * @returns True if the server's set of exposed tools changed
+ * @throws Error if the server fails to list its tools (registry is left unchanged)
+ */
+export async function refreshServerTools(
+  registry: ToolRegistry,
+  serverKey: string,
+  client: Client,
+  separator: string = ':',
+  serverConfig?: ServerConfig
+): Promise<boolean> {
+  const response = await client.listTools();
+  const tools = (response.tools || []) as ToolSchema[];
+
+  const previous = snapshotServerTools(registry, serverKey);
+  removeServerTools(registry, serverKey);
+  const collisions: ToolNameCollision[] = [];
+  addServerTools(registry, serverKey, client, tools, separator, serverConfig, collisions);
+  const current = snapshotServerTools(registry, serverKey);
+
+  if (collisions.length > 0 && getToolCollisionStrategy() === 'error') {
+    logError(
+      `[ERROR] Tool name collisions after refreshing '${serverKey}': ${formatToolNameCollisions(collisions)}. Kept the first tool; rename one of the tools or set a "prefix" for one of the servers.`
+    );
+  }
+
+  if (previous.size !== current.size) {
+    return true;
+  }
+  for (const [name, schema] of current) {
+    const before = previous.get(name);
+    if (!before || !isSameSchema(before, schema)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Collect the exposed schemas of a single server's tools
+ *
+ * @param registry - The tool registry
+ * @param serverKey - Server to collect
+ * @returns Map of prefixed tool name to schema
+ */
+function snapshotServerTools(
+  registry: ToolRegistry,
+  serverKey: string
+): Map<string, ToolSchema> {
+  const snapshot = new Map<string, ToolSchema>();
+  for (const [name, entry] of registry) {
+    if (entry.serverKey === serverKey) {
+      snapshot.set(name, entry.schema);
+    }
   }
+  return snapshot;
+}
+
+/**
+ * Compare two tool schemas structurally
+ *
+ * @param a - First schema
+ * @param b - Second schema
+ * @returns True if both schemas serialize identically
+ */
+function isSameSchema(a: ToolSchema, b: ToolSchema): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
 }
 
 /**
@@ -0,0 +1,314 @@
+/**
+ * Resource Registry Module
+ *
+ * Manages the aggregation of resources and resource templates from multiple
+ * child MCP servers. Resource URIs and URI templates are namespaced with the
+ * server key so that reads can be routed back to the owning child.
+ *
+ * Namespacing uses the same separator as tools:
+ * - "file:///tmp/a.txt" from "filesystem" becomes "filesystem:file:///tmp/a.txt"
+ * - "db://{table}" from "postgres" becomes "postgres:db://{table}"
+ */
+
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type {
+  ResourceRegistry,
+  ResourceRegistryEntry,
+  ResourceSchema,
+  ResourceTemplateSchema
+} from './types.js';
+import { validateSeparator } from './index.js';
+import { parseToolPrefix } from './server.js';
+import { logDebug } from './logger.js';
+
+/**
+ * Create an empty resource registry
+ *
+ * @returns Resource registry with no resources or templates
+ */
+export function createResourceRegistry(): ResourceRegistry {
+  return {
+    resources: new Map(),
+    templates: new Map()
+  };
+}
+
+/**
+ * Build resource registry from all child server clients
+ *
+ * Fetches resources and resource templates from every child in parallel.
+ * Children that do not support resources contribute nothing.
+ *
+ * @param childClients - Map of server keys to MCP client connections
+ * @param separator - Separator string for namespacing (default: ':')
+ * @returns Promise resolving to populated resource registry
+ *
+ * @example
+ * const registry = await buildResourceRegistry(clients, ':');
+ * // registry.resources contains 'filesystem:file:///tmp/a.txt', etc.
+ */
+export async function buildResourceRegistry(
+  childClients: Map<string, Client>,
+  separator: string = ':'
+): Promise<ResourceRegistry> {
+  validateSeparator(separator);
+
+  const registry = createResourceRegistry();
+
+  const fetchPromises = Array.from(childClients.entries()).map(
+    async ([serverKey, client]) => {
+      const [resources, templates] = await Promise.all([
+        fetchResources(serverKey, client),
+        fetchResourceTemplates(serverKey, client)
+      ]);
+      return { serverKey, client, resources, templates };
+    }
+  );
+
+  const results = await Promise.all(fetchPromises);
+
+  for (const { serverKey, client, resources, templates } of results) {
+    addServerResources(registry, serverKey, client, resources, templates, separator);
+  }
+
+  return registry;
+}
+
+/**
+ * Fetch every page of resources from a child server
+ *
+ * @param serverKey - Server key (for logging)
+ * @param client - MCP client connection to the server
+ * @returns All resources, or an empty array if the child does not support resources
+ */
+async function fetchResources(serverKey: string, client: Client): Promise<ResourceSchema[]> {
+  const resources: ResourceSchema[] = [];
+  try {
+    let cursor: string | undefined;
+    do {
+      const response = await client.listResources(cursor ? { cursor } : undefined);
+      resources.push(...((response.resources || []) as ResourceSchema[]));
+      cursor = response.nextCursor;
+    } while (cursor);
+  } catch (error) {
+    logDebug(
+      `[DEBUG] Server '${serverKey}' does not provide resources:`,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+  return resources;
+}
+
+/**
+ * Fetch every page of resource templates from a child server
+ *
+ * @param serverKey - Server key (for logging)
+ * @param client - MCP client connection to the server
+ * @returns All templates, or an empty array if the child does not support them
+ */
+async function fetchResourceTemplates(
+  serverKey: string,
+  client: Client
+): Promise<ResourceTemplateSchema[]> {
+  const templates: ResourceTemplateSchema[] = [];
+  try {
+    let cursor: string | undefined;
+    do {
+      const response = await client.listResourceTemplates(cursor ? { cursor } : undefined);
+      templates.push(...((response.resourceTemplates || []) as ResourceTemplateSchema[]));
+      cursor = response.nextCursor;
+    } while (cursor);
+  } catch (error) {
+    logDebug(
+      `[DEBUG] Server '${serverKey}' does not provide resource templates:`,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+  return templates;
+}
+
+/**
+ * Add resources and resource templates from a server to the registry with prefix
+ *
+ * @param registry - The resource registry to update
+ * @param serverKey - Unique identifier for the server (used as prefix)
+ * @param client - MCP client connection to the server
+ * @param resources - Resources listed by the server
+ * @param templates - Resource templates listed by the server
+ * @param separator - Separator string for namespacing (default: ':')
+ *
+ * @example
+ * addServerResources(registry, 'filesystem', client, [
+ *   { uri: 'file:///tmp/a.txt', name: 'a.txt' }
+ * ], [], ':');
+ * // Adds 'filesystem:file:///tmp/a.txt' to registry.resources
+ */
+export function addServerResources(
+  registry: ResourceRegistry,
+  serverKey: string,
+  client: Client,
+  resources: ResourceSchema[],
+  templates: ResourceTemplateSchema[],
+  separator: string = ':'
+): void {
+  for (const resource of resources) {
+    const prefixedUri = prefixResourceUri(serverKey, resource.uri, separator);
+    registry.resources.set(prefixedUri, {
+      client,
+      serverKey,
+      originalUri: resource.uri,
+      schema: {
+        ...resource,
+        uri: prefixedUri
+      }
+    });
+  }
+
+  for (const template of templates) {
+    const prefixedTemplate = prefixResourceUri(serverKey, template.uriTemplate, separator);
+    registry.templates.set(prefixedTemplate, {
+      client,
+      serverKey,
+      originalUriTemplate: template.uriTemplate,
+      schema: {
+        ...template,
+        uriTemplate: prefixedTemplate
+      }
+    });
+  }
+}
+
+/**
+ * Remove all resources and templates belonging to a server
+ *
+ * @param registry - The resource registry to update
+ * @param serverKey - The server whose resources should be removed
+ */
+export function removeServerResources(
+  registry: ResourceRegistry,
+  serverKey: string
+): void {
+  for (const [uri, entry] of registry.resources) {
+    if (entry.serverKey === serverKey) {
+      registry.resources.delete(uri);
+    }
+  }
+
+  for (const [uriTemplate, entry] of registry.templates) {
+    if (entry.serverKey === serverKey) {
+      registry.templates.delete(uriTemplate);
+    }
+  }
+}
+
+/**
+ * Re-fetch a single server's resources and templates and replace its entries
+ *
+ * @param registry - The resource registry to update
+ * @param serverKey - Server whose resources should be refreshed
+ * @param client - Current MCP client connection to the server
+ * @param separator - Separator string for namespacing (default: ':')
+ */
+export async function refreshServerResources(
+  registry: ResourceRegistry,
+  serverKey: string,
+  client: Client,
+  separator: string = ':'
+): Promise<void> {
+  const [resources, templates] = await Promise.all([
+    fetchResources(serverKey, client),
+    fetchResourceTemplates(serverKey, client)
+  ]);
+
+  removeServerResources(registry, serverKey);
+  addServerResources(registry, serverKey, client, resources, templates, separator);
+}
+
+/**
+ * Namespace a resource URI or URI template with its server key
+ *
+ * @param serverKey - Server key to prefix with
+ * @param uri - Original URI or URI template
+ * @param separator - Separator string for namespacing (default: ':')
+ * @returns Prefixed URI (e.g., 'filesystem:file:///tmp/a.txt')
+ */
+export function prefixResourceUri(
+  serverKey: string,
+  uri: string,
+  separator: string = ':'
+): string {
+  return `${serverKey}${separator}${uri}`;
+}
+
+/**
+ * Resolve a prefixed resource URI to the child that owns it
+ *
+ * Listed resources are matched exactly. Any other URI (for example one expanded
+ * from a resource template) is routed by its prefix to a server that has at
+ * least one resource or template in the registry.
+ *
+ * @param registry - The resource registry to search
+ * @param prefixedUri - Prefixed resource URI from the client
+ * @param separator - Separator string for namespacing (default: ':')
+ * @returns Routing target, or undefined if no server owns the URI
+ *
+ * @example
+ * const target = lookupResource(registry, 'postgres:db://users');
+ * // { client: pgClient, serverKey: 'postgres', originalUri: 'db://users' }
+ */
+export function lookupResource(
+  registry: ResourceRegistry,
+  prefixedUri: string,
+  separator: string = ':'
+): Omit<ResourceRegistryEntry, 'schema'> | undefined {
+  const entry = registry.resources.get(prefixedUri);
+  if (entry) {
+    return {
+      client: entry.client,
+      serverKey: entry.serverKey,
+      originalUri: entry.originalUri
+    };
+  }
+
+  const parsed = parseToolPrefix(prefixedUri, separator);
+  if (!parsed) {
+    return undefined;
+  }
+
+  const client = findServerClient(registry, parsed.serverKey);
+  if (!client) {
+    return undefined;
+  }
+
+  return {
+    client,
+    serverKey: parsed.serverKey,
+    originalUri: parsed.toolName
+  };
+}
+
+/**
+ * Find the client for a server that contributes resources or templates
+ *
+ * @param registry - The resource registry to search
+ * @param serverKey - Server key to look for
+ * @returns Client connection, or undefined if the server has no entries
+ */
+function findServerClient(
+  registry: ResourceRegistry,
+  serverKey: string
+): Client | undefined {
+  for (const entry of registry.templates.values()) {
+    if (entry.serverKey === serverKey) {
+      return entry.client;
+    }
+  }
+
+  for (const entry of registry.resources.values()) {
+    if (entry.serverKey === serverKey) {
+      return entry.client;
+    }
+  }
+
+  return undefined;
+}
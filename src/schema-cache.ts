@@ -0,0 +1,169 @@
+/**
+ * Schema Cache Module
+ *
+ * Persists the tool lists of lazy child servers so the aggregator can list
+ * their tools without starting them. Entries are keyed by a hash of the
+ * server's connection settings, so changing the command, URL or environment
+ * invalidates the entry while tool filters and overrides do not.
+ */
+
+import { createHash } from 'crypto';
+import { readFile, writeFile, mkdir, rename } from 'fs/promises';
+import { homedir } from 'os';
+import path from 'path';
+import type { ServerConfig, ToolSchema } from './types.js';
+import { CONNECTION_FIELDS } from './config.js';
+import { logDebug, logError } from './logger.js';
+
+/**
+ * Default location of the schema cache file
+ */
+export const DEFAULT_SCHEMA_CACHE_PATH = path.join(
+  homedir(),
+  '.cache',
+  'mcp-simple-aggregator',
+  'schemas.json'
+);
+
+/**
+ * Last queued write of each cache
+ */
+const pendingWrites = new WeakMap<SchemaCache, Promise<void>>();
+
+/**
+ * Cached tool list of one server configuration
+ */
+export interface SchemaCacheEntry {
+  /** Server key the entry was last written for (informational) */
+  serverKey: string;
+
+  /** Tools as listed by the child server (unprefixed, unfiltered) */
+  tools: ToolSchema[];
+
+  /** When the entry was written (ISO 8601) */
+  updatedAt: string;
+}
+
+/**
+ * In-memory copy of the schema cache file
+ */
+export interface SchemaCache {
+  /** Path of the cache file */
+  path: string;
+
+  /** Entries keyed by hashServerConfig() */
+  entries: Record<string, SchemaCacheEntry>;
+}
+
+/**
+ * Hash a server's connection settings into a schema cache key
+ *
+ * Only CONNECTION_FIELDS are hashed: other settings (tool filters, overrides,
+ * timeouts, lazy) do not change the tools the child lists. Object keys are
+ * sorted first, so the hash does not depend on the order of fields in the
+ * config file.
+ *
+ * @param config - Server configuration (after environment expansion)
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function hashServerConfig(config: ServerConfig): string {
+  const connection = Object.fromEntries(CONNECTION_FIELDS.map(field => [field, config[field]]));
+  return createHash('sha256').update(stableStringify(connection)).digest('hex');
+}
+
+/**
+ * Load the schema cache file
+ *
+ * A missing or unreadable file yields an empty cache; the cache only saves
+ * startup work, so it never blocks the aggregator.
+ *
+ * @param cachePath - Path of the cache file (default: ~/.cache/mcp-simple-aggregator/schemas.json)
+ * @returns Loaded cache
+ */
+export async function loadSchemaCache(
+  cachePath: string = DEFAULT_SCHEMA_CACHE_PATH
+): Promise<SchemaCache> {
+  try {
+    const parsed = JSON.parse(await readFile(cachePath, 'utf-8')) as unknown;
+    if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) {
+      return { path: cachePath, entries: parsed as Record<string, SchemaCacheEntry> };
+    }
+    logError(`[ERROR] Ignoring invalid schema cache ${cachePath}`);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logError(`[ERROR] Ignoring unreadable schema cache ${cachePath}:`, (error as Error).message);
+    }
+  }
+  return { path: cachePath, entries: {} };
+}
+
+/**
+ * Look up the cached tools of a server configuration
+ *
+ * @param cache - Loaded schema cache
+ * @param config - Server configuration
+ * @returns Cached tools, or undefined if the configuration has no entry
+ */
+export function getCachedTools(cache: SchemaCache, config: ServerConfig): ToolSchema[] | undefined {
+  const entry = cache.entries[hashServerConfig(config)];
+  return Array.isArray(entry?.tools) ? entry.tools : undefined;
+}
+
+/**
+ * Store a server's tools in the cache and write the cache file
+ *
+ * Write errors are logged, not thrown.
+ *
+ * @param cache - Loaded schema cache (updated in place)
+ * @param serverKey - Server the tools belong to
+ * @param config - Server configuration
+ * @param tools - Tools as listed by the child server
+ */
+export async function saveCachedTools(
+  cache: SchemaCache,
+  serverKey: string,
+  config: ServerConfig,
+  tools: ToolSchema[]
+): Promise<void> {
+  cache.entries[hashServerConfig(config)] = {
+    serverKey,
+    tools,
+    updatedAt: new Date().toISOString()
+  };
+
+  // Serialize writes so concurrent saves never interleave on the temporary file
+  const write = (pendingWrites.get(cache) ?? Promise.resolve()).then(async () => {
+    try {
+      await mkdir(path.dirname(cache.path), { recursive: true });
+      // Write to a temporary file first so a crash never leaves a truncated cache
+      const tempPath = `${cache.path}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify(cache.entries, null, 2));
+      await rename(tempPath, cache.path);
+      logDebug(`[DEBUG] Cached ${tools.length} tool schemas for '${serverKey}'`);
+    } catch (error) {
+      logError(`[ERROR] Failed to write schema cache ${cache.path}:`, (error as Error).message);
+    }
+  });
+  pendingWrites.set(cache, write);
+  await write;
+}
+
+/**
+ * JSON.stringify with object keys in sorted order
+ * @param value - JSON value
+ * @returns Deterministic JSON string
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .sort()
+      .filter(key => record[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
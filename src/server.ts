@@ -3,6 +3,8 @@
  *
  * Implements the aggregator MCP server that exposes tools from multiple child servers.
  * Handles tools/list and tools/call requests, routing calls to appropriate child servers.
+ * Resources and resource templates are served the same way, with namespaced URIs,
+ * and prompts are served with namespaced names.
  *
  * Tasks:
  * - T084 [US2] Implement createAggregatorServer() with Server from MCP SDK
@@ -16,12 +18,44 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
   ErrorCode,
   McpError
 } from '@modelcontextprotocol/sdk/types.js';
+import type {
+  CallToolRequest,
+  ServerRequest,
+  ServerNotification
+} from '@modelcontextprotocol/sdk/types.js';
 import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import type { ToolRegistry, ToolSchema } from './types.js';
+import type { RequestOptions, RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+  ToolRegistry,
+  ToolSchema,
+  ResourceRegistry,
+  ResourceSchema,
+  ResourceTemplateSchema,
+  PromptRegistry,
+  PromptSchema
+} from './types.js';
 import { removeServerTools } from './registry.js';
+import { lookupResource, prefixResourceUri } from './resource-registry.js';
+import { lookupPrompt } from './prompt-registry.js';
+import { validateArguments, formatArgumentErrors } from './argument-validator.js';
+import { resolveToolArguments } from './tool-overrides.js';
+import { log, logTrace } from './logger.js';
+import type { AuditLog } from './audit-log.js';
+import type { AggregatorMetrics } from './metrics.js';
+import { withSpan, parseTraceparent, formatTraceparent } from './tracing.js';
+
+/**
+ * Request context passed to the tools/call handler
+ */
+type ToolCallExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
 
 /**
  * Server configuration options
@@ -35,7 +69,10 @@ export interface ServerOptions {
  * T084: Create aggregator server with tools capability
  *
  * Creates an MCP Server instance configured to aggregate tools from child servers.
- * The server exposes tools/list and tools/call capabilities.
+ * The server exposes tools/list and tools/call capabilities, and declares the
+ * resources and prompts capabilities served by setupResourceHandlers() and
+ * setupPromptHandlers(). Tool list changes are announced via
+ * notifications/tools/list_changed (see notifications.ts).
  *
  * @param childClients - Map of server keys to MCP client connections
  * @param registry - Tool registry containing all aggregated tools
@@ -63,7 +100,9 @@ export function createAggregatorServer(
     },
     {
       capabilities: {
-        tools: {} // Declare tools capability
+        tools: { listChanged: true }, // Declare tools capability with change notifications
+        resources: {}, // Declare resources capability
+        prompts: {} // Declare prompts capability
       }
     }
   );
@@ -151,8 +190,16 @@ export async function startServer(server: Server): Promise<void> {
  * Extracts the server key and original tool name from a prefixed tool name.
  * Supports configurable separator (default: ':').
  *
+ * Splitting on the first separator is ambiguous when server keys or tool
+ * names contain the separator (server 'a_b' tool 'c' vs server 'a' tool
+ * 'b_c' with '_'), and wrong for renamed, policy-rewritten, custom-prefixed
+ * or unprefixed names. Given a registry, a registered name is resolved from
+ * its entry instead; splitting is only the fallback for names the registry
+ * does not know.
+ *
  * @param prefixedName - Prefixed tool name (e.g., 'filesystem:read_file')
  * @param separator - Separator string (default: ':')
+ * @param registry - Tool registry to resolve registered names from (optional)
  * @returns Object with serverKey and toolName, or null if invalid format
  *
  * @example
@@ -161,11 +208,23 @@ export async function startServer(server: Server): Promise<void> {
  *
  * parseToolPrefix('filesystem__read_file', '__')
  * // Returns: { serverKey: 'filesystem', toolName: 'read_file' }
+ *
+ * parseToolPrefix('a_b_c', '_', registry) // registered by server 'a' for tool 'b_c'
+ * // Returns: { serverKey: 'a', toolName: 'b_c' }
+ *
+ * parseToolPrefix('read_file', ':', registry) // server 'filesystem' with prefix: false
+ * // Returns: { serverKey: 'filesystem', toolName: 'read_file' }
  */
 export function parseToolPrefix(
   prefixedName: string,
-  separator: string = ':'
+  separator: string = ':',
+  registry?: ToolRegistry
 ): { serverKey: string; toolName: string } | null {
+  const entry = registry?.get(prefixedName);
+  if (entry) {
+    return { serverKey: entry.serverKey, toolName: entry.originalName };
+  }
+
   const separatorIndex = prefixedName.indexOf(separator);
 
   // Check for invalid cases: no separator, empty serverKey, or empty toolName
@@ -183,51 +242,189 @@ export function parseToolPrefix(
   return { serverKey, toolName };
 }
 
+/**
+ * Default time allowed for a tools/call to a child server, in milliseconds
+ */
+export const DEFAULT_CALL_TIMEOUT_MS = 60000;
+
+/**
+ * Optional settings for setupToolCallHandler()
+ */
+export interface ToolCallHandlerOptions {
+  /** Timeout for tools without callTimeoutMs (default: 60000) */
+  callTimeoutMs?: number;
+
+  /**
+   * Called before each call is routed to a child, e.g. to start a lazy
+   * server. Resolves with a function that is called once the call finishes.
+   */
+  acquire?: (serverKey: string) => Promise<() => void>;
+
+  /** Audit log that records every call, including rejected ones */
+  audit?: AuditLog;
+
+  /** Metrics that count calls routed to a child and observe their latency */
+  metrics?: AggregatorMetrics;
+}
+
+/**
+ * Check whether any registered tool is exposed without a server prefix
+ * (servers with `prefix: false`, virtual tools)
+ */
+function hasUnprefixedTools(registry: ToolRegistry, separator: string): boolean {
+  for (const name of registry.keys()) {
+    if (!parseToolPrefix(name, separator)) {
+      return true;
+    }
+  }
+  return false;
+}
+
 /**
  * T011 & T015: Setup tools/call request handler with configurable separator
  *
  * Handles tool/call requests and routes them to the appropriate child server.
  * Uses configurable separator for parsing tool names.
  *
+ * Arguments are validated against the tool's inputSchema first; invalid
+ * arguments fail with InvalidParams listing every failing path. Defaulted
+ * and pinned arguments from the tool's override are then merged in before
+ * the call is forwarded.
+ *
+ * Each call is bounded by the tool's callTimeoutMs (or the default). When the
+ * upstream client cancels the request or the timeout expires, the child is
+ * sent notifications/cancelled. If the upstream request carries a progress
+ * token, the child's progress notifications are relayed back with that token.
+ *
+ * With tracing on (see tracing.ts), each call gets a server span, and the
+ * call routed to the child a client span whose traceparent is sent to the
+ * child in `_meta`.
+ *
  * @param server - MCP Server instance
  * @param registry - Tool registry
  * @param separator - Separator string (default: ':')
+ * @param options - Default call timeout, per-call server acquisition, audit log and metrics
  */
 export function setupToolCallHandler(
   server: Server,
   registry: ToolRegistry,
-  separator: string = ':'
+  separator: string = ':',
+  options: ToolCallHandlerOptions = {}
 ): void {
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name: prefixedName, arguments: args } = request.params;
+  const {
+    callTimeoutMs: defaultCallTimeoutMs = DEFAULT_CALL_TIMEOUT_MS,
+    acquire,
+    audit,
+    metrics
+  } = options;
 
-    // T015: Parse prefix using configurable separator
-    const parsed = parseToolPrefix(prefixedName, separator);
-    if (!parsed) {
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        `Invalid tool name format. Expected 'serverKey${separator}toolName', got '${prefixedName}'`
-      );
-    }
+  const handleToolCall = async (request: CallToolRequest, extra: ToolCallExtra) => {
+    const { name: prefixedName, arguments: args } = request.params;
 
-    // Lookup tool in registry
+    // Lookup tool in registry (names rewritten by the tool name policy route the same way)
     const entry = registry.get(prefixedName);
     if (!entry) {
+      // T015: Parse prefix using configurable separator
+      if (!parseToolPrefix(prefixedName, separator)) {
+        // A name without a prefix is only malformed when no tool is exposed unprefixed
+        if (hasUnprefixedTools(registry, separator)) {
+          throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${prefixedName}`);
+        }
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Invalid tool name format. Expected 'serverKey${separator}toolName', got '${prefixedName}'`
+        );
+      }
       throw new McpError(
         ErrorCode.MethodNotFound,
         `Tool not found: ${prefixedName}`
       );
     }
 
+    // Reject malformed arguments uniformly, before a child (or a lazy start) sees them
+    const argumentErrors = validateArguments(entry.schema.inputSchema, args || {});
+    if (argumentErrors.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid arguments for tool '${prefixedName}': ${formatArgumentErrors(argumentErrors)}`,
+        { errors: argumentErrors }
+      );
+    }
+
+    const timeout = entry.callTimeoutMs ?? defaultCallTimeoutMs;
+    const progressToken = request.params._meta?.progressToken;
+    const requestOptions: RequestOptions = { signal: extra.signal, timeout };
+    if (progressToken !== undefined) {
+      // Relay child progress under the caller's token (the SDK uses its own token downstream)
+      requestOptions.onprogress = (progress) => {
+        extra.sendNotification({
+          method: 'notifications/progress',
+          params: { ...progress, progressToken }
+        }).catch(() => undefined);
+      };
+    }
+
     // Route to child server with original tool name
+    const logFields = { requestId: extra.requestId, serverKey: entry.serverKey, tool: prefixedName };
+    const startedAt = Date.now();
+    logTrace(`Calling tool '${prefixedName}'`);
+    let release: (() => void) | undefined;
     try {
-      const result = await entry.client.callTool({
-        name: entry.originalName,
-        arguments: args || {}
+      let target = entry;
+      if (acquire) {
+        release = await acquire(entry.serverKey);
+        // Starting a lazy server re-registers its tools with the new client
+        const current = registry.get(prefixedName);
+        if (!current) {
+          throw new McpError(ErrorCode.MethodNotFound, `Tool not found: ${prefixedName}`);
+        }
+        target = current;
+      }
+
+      const result = await withSpan(`tools/call ${target.originalName}`, {
+        kind: 'client',
+        attributes: { 'mcp.server_key': target.serverKey, 'mcp.tool.original_name': target.originalName }
+      }, async (span) => {
+        // Children that support trace context continue the trace from this span
+        const childResult = await target.client.callTool(
+          {
+            name: target.originalName,
+            arguments: resolveToolArguments(target, args || {}),
+            ...(span.context && { _meta: { traceparent: formatTraceparent(span.context) } })
+          },
+          undefined,
+          requestOptions
+        );
+        if (childResult.isError === true) {
+          span.recordError('Tool returned isError');
+        }
+        return childResult;
       });
 
+      const durationMs = Date.now() - startedAt;
+      log('debug', 'Tool call completed', { ...logFields, durationMs });
+      metrics?.recordToolCall({
+        serverKey: entry.serverKey,
+        tool: prefixedName,
+        success: result.isError !== true,
+        durationMs
+      });
       return result;
     } catch (error) {
+      const durationMs = Date.now() - startedAt;
+      log('warn', `Tool call failed: ${error instanceof Error ? error.message : String(error)}`, {
+        ...logFields,
+        durationMs
+      });
+      metrics?.recordToolCall({ serverKey: entry.serverKey, tool: prefixedName, success: false, durationMs });
+
+      if (error instanceof McpError && error.code === ErrorCode.RequestTimeout && !extra.signal.aborted) {
+        throw new McpError(
+          ErrorCode.RequestTimeout,
+          `Tool '${prefixedName}' timed out after ${timeout}ms`
+        );
+      }
+
       // Forward child server errors
       if (error instanceof McpError) {
         throw error;
@@ -237,6 +434,266 @@ export function setupToolCallHandler(
         ErrorCode.InternalError,
         `Error calling tool '${prefixedName}': ${error instanceof Error ? error.message : String(error)}`
       );
+    } finally {
+      release?.();
+    }
+  };
+
+  server.setRequestHandler(CallToolRequestSchema, (request, extra) => withSpan(`tools/call ${request.params.name}`, {
+    kind: 'server',
+    // Continue the caller's trace when the request carries a traceparent
+    parent: parseTraceparent(request.params._meta?.traceparent),
+    attributes: {
+      'mcp.tool': request.params.name,
+      'mcp.server_key': registry.get(request.params.name)?.serverKey,
+      'mcp.request_id': String(extra.requestId)
+    }
+  }, async () => {
+    if (!audit) {
+      return handleToolCall(request, extra);
+    }
+
+    const startedAt = Date.now();
+    const call = {
+      tool: request.params.name,
+      entry: registry.get(request.params.name),
+      args: request.params.arguments || {},
+      requestId: extra.requestId
+    };
+    try {
+      const result = await handleToolCall(request, extra);
+      audit.record({ ...call, durationMs: Date.now() - startedAt, result });
+      return result;
+    } catch (error) {
+      audit.record({ ...call, durationMs: Date.now() - startedAt, error });
+      throw error;
+    }
+  }));
+}
+
+/**
+ * Handle resources/list request
+ *
+ * Returns all resources from the registry with prefixed URIs.
+ *
+ * @param resourceRegistry - Resource registry
+ * @returns MCP resources/list response
+ */
+export function handleResourcesList(
+  resourceRegistry: ResourceRegistry
+): { resources: ResourceSchema[] } {
+  const resources = Array.from(resourceRegistry.resources.values()).map((entry) => entry.schema);
+  return { resources };
+}
+
+/**
+ * Handle resources/templates/list request
+ *
+ * Returns all resource templates from the registry with prefixed URI templates.
+ *
+ * @param resourceRegistry - Resource registry
+ * @returns MCP resources/templates/list response
+ */
+export function handleResourceTemplatesList(
+  resourceRegistry: ResourceRegistry
+): { resourceTemplates: ResourceTemplateSchema[] } {
+  const resourceTemplates = Array.from(resourceRegistry.templates.values()).map(
+    (entry) => entry.schema
+  );
+  return { resourceTemplates };
+}
+
+/**
+ * Handle resources/read request
+ *
+ * Routes the read to the child that owns the prefixed URI, forwarding the
+ * original URI. URIs in the returned contents are prefixed again so that the
+ * client can read them back through the aggregator.
+ *
+ * @param resourceRegistry - Resource registry
+ * @param prefixedUri - Prefixed resource URI from the client
+ * @param separator - Separator string (default: ':')
+ * @param acquire - Called before the read is routed, e.g. to start an idle server (optional)
+ * @returns Child response with prefixed content URIs
+ * @throws McpError if no child owns the URI or the child read fails
+ */
+export async function handleReadResource(
+  resourceRegistry: ResourceRegistry,
+  prefixedUri: string,
+  separator: string = ':',
+  acquire?: ToolCallHandlerOptions['acquire']
+) {
+  let target = lookupResource(resourceRegistry, prefixedUri, separator);
+  if (!target) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Resource not found: ${prefixedUri}`
+    );
+  }
+
+  let release: (() => void) | undefined;
+  try {
+    if (acquire) {
+      release = await acquire(target.serverKey);
+      // Starting an idle server re-registers its resources with the new client
+      target = lookupResource(resourceRegistry, prefixedUri, separator);
+      if (!target) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${prefixedUri}`);
+      }
     }
+
+    const { serverKey } = target;
+    const result = await target.client.readResource({ uri: target.originalUri });
+
+    return {
+      ...result,
+      contents: result.contents.map((content) => ({
+        ...content,
+        uri: prefixResourceUri(serverKey, content.uri, separator)
+      }))
+    };
+  } catch (error) {
+    // Forward child server errors
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error reading resource '${prefixedUri}': ${error instanceof Error ? error.message : String(error)}`
+    );
+  } finally {
+    release?.();
+  }
+}
+
+/**
+ * Setup resources/list, resources/templates/list and resources/read handlers
+ *
+ * @param server - MCP Server instance
+ * @param resourceRegistry - Resource registry
+ * @param separator - Separator string (default: ':')
+ * @param acquire - Called before each read is routed, e.g. to start an idle server (optional)
+ */
+export function setupResourceHandlers(
+  server: Server,
+  resourceRegistry: ResourceRegistry,
+  separator: string = ':',
+  acquire?: ToolCallHandlerOptions['acquire']
+): void {
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return handleResourcesList(resourceRegistry);
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return handleResourceTemplatesList(resourceRegistry);
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return handleReadResource(resourceRegistry, request.params.uri, separator, acquire);
+  });
+}
+
+/**
+ * Handle prompts/list request
+ *
+ * Returns all prompts from the registry with prefixed names.
+ *
+ * @param promptRegistry - Prompt registry
+ * @returns MCP prompts/list response
+ */
+export function handlePromptsList(promptRegistry: PromptRegistry): { prompts: PromptSchema[] } {
+  const prompts = Array.from(promptRegistry.values()).map((entry) => entry.schema);
+  return { prompts };
+}
+
+/**
+ * Handle prompts/get request
+ *
+ * Routes the request to the child that owns the prefixed prompt name,
+ * forwarding the original prompt name and arguments unchanged.
+ *
+ * @param promptRegistry - Prompt registry
+ * @param prefixedName - Prefixed prompt name (e.g., 'github:review_pr')
+ * @param args - Prompt arguments from the client
+ * @param separator - Separator string (default: ':')
+ * @param acquire - Called before the request is routed, e.g. to start an idle server (optional)
+ * @returns Child prompts/get response
+ * @throws McpError if the name is malformed, unknown, or the child fails
+ */
+export async function handleGetPrompt(
+  promptRegistry: PromptRegistry,
+  prefixedName: string,
+  args: Record<string, string> | undefined,
+  separator: string = ':',
+  acquire?: ToolCallHandlerOptions['acquire']
+) {
+  const parsed = parseToolPrefix(prefixedName, separator);
+  if (!parsed) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Invalid prompt name format. Expected 'serverKey${separator}promptName', got '${prefixedName}'`
+    );
+  }
+
+  let entry = lookupPrompt(promptRegistry, prefixedName);
+  if (!entry) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Prompt not found: ${prefixedName}`
+    );
+  }
+
+  let release: (() => void) | undefined;
+  try {
+    if (acquire) {
+      release = await acquire(entry.serverKey);
+      // Starting an idle server re-registers its prompts with the new client
+      entry = lookupPrompt(promptRegistry, prefixedName);
+      if (!entry) {
+        throw new McpError(ErrorCode.InvalidParams, `Prompt not found: ${prefixedName}`);
+      }
+    }
+
+    return await entry.client.getPrompt({
+      name: entry.originalName,
+      ...(args ? { arguments: args } : {})
+    });
+  } catch (error) {
+    // Forward child server errors
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error getting prompt '${prefixedName}': ${error instanceof Error ? error.message : String(error)}`
+    );
+  } finally {
+    release?.();
+  }
+}
+
+/**
+ * Setup prompts/list and prompts/get handlers
+ *
+ * @param server - MCP Server instance
+ * @param promptRegistry - Prompt registry
+ * @param separator - Separator string (default: ':')
+ * @param acquire - Called before each prompts/get is routed, e.g. to start an idle server (optional)
+ */
+export function setupPromptHandlers(
+  server: Server,
+  promptRegistry: PromptRegistry,
+  separator: string = ':',
+  acquire?: ToolCallHandlerOptions['acquire']
+): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return handlePromptsList(promptRegistry);
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    return handleGetPrompt(promptRegistry, name, args, separator, acquire);
   });
 }
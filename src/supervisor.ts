@@ -0,0 +1,170 @@
+/**
+ * Supervisor Module
+ *
+ * Restarts crashed child servers with exponential backoff. Each child's
+ * RestartPolicy (from its ServerConfig) controls the initial delay, the delay
+ * cap and how many consecutive attempts are made before giving up.
+ */
+
+import type { ChildServerClient, RestartPolicy, ServerConfig } from './types.js';
+import { ServerStatus } from './types.js';
+import { logInfo, logError } from './logger.js';
+
+/**
+ * Function that spawns and connects a child server (normally connectToChild)
+ */
+export type ConnectChildFn = (
+  serverKey: string,
+  config: ServerConfig
+) => Promise<ChildServerClient>;
+
+/**
+ * Restart policy used for any field not set in ServerConfig.restart
+ */
+export const DEFAULT_RESTART_POLICY: Required<RestartPolicy> = {
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  maxAttempts: 5
+};
+
+/**
+ * Pending restart timers, keyed by the child they will restart
+ */
+const pendingRestarts = new WeakMap<ChildServerClient, ReturnType<typeof setTimeout>>();
+
+/**
+ * Merge a server's restart policy with the defaults
+ * @param policy - Restart policy from ServerConfig (optional)
+ * @returns Fully populated restart policy
+ */
+export function resolveRestartPolicy(policy?: RestartPolicy): Required<RestartPolicy> {
+  return {
+    initialDelayMs: policy?.initialDelayMs ?? DEFAULT_RESTART_POLICY.initialDelayMs,
+    maxDelayMs: policy?.maxDelayMs ?? DEFAULT_RESTART_POLICY.maxDelayMs,
+    maxAttempts: policy?.maxAttempts ?? DEFAULT_RESTART_POLICY.maxAttempts
+  };
+}
+
+/**
+ * Compute the backoff delay before a restart attempt
+ * @param attempt - 1-based attempt number
+ * @param policy - Resolved restart policy
+ * @returns Delay in milliseconds, capped at policy.maxDelayMs
+ *
+ * @example
+ * computeRestartDelay(1, { initialDelayMs: 1000, maxDelayMs: 30000, maxAttempts: 5 }); // 1000
+ * computeRestartDelay(3, { initialDelayMs: 1000, maxDelayMs: 30000, maxAttempts: 5 }); // 4000
+ */
+export function computeRestartDelay(attempt: number, policy: Required<RestartPolicy>): number {
+  const delay = policy.initialDelayMs * Math.pow(2, Math.max(0, attempt - 1));
+  return Math.min(delay, policy.maxDelayMs);
+}
+
+/**
+ * Schedule a restart of a crashed child server
+ *
+ * After the backoff delay the child is reconnected via connect(). On
+ * success the existing ChildServerClient is updated in place (new client,
+ * RUNNING status, incremented restartCount) and onRestarted is invoked so the
+ * caller can re-register the child's tools. On failure the next attempt is
+ * scheduled until policy.maxAttempts is exhausted.
+ *
+ * @param childClient - Crashed child server to restart
+ * @param connect - Function that spawns and connects the child
+ * @param onRestarted - Callback invoked after a successful restart
+ * @param attempt - 1-based attempt number (default: 1)
+ * @returns True if a restart is scheduled, false if attempts are exhausted
+ */
+export function scheduleRestart(
+  childClient: ChildServerClient,
+  connect: ConnectChildFn,
+  onRestarted: (childClient: ChildServerClient) => void | Promise<void>,
+  attempt: number = 1
+): boolean {
+  const { serverKey } = childClient;
+  const policy = resolveRestartPolicy(childClient.config.restart);
+
+  if (attempt > policy.maxAttempts) {
+    if (policy.maxAttempts > 0) {
+      logError(
+        `[ERROR] Giving up restarting '${serverKey}' after ${policy.maxAttempts} attempts`
+      );
+    }
+    return false;
+  }
+
+  if (pendingRestarts.has(childClient)) {
+    return true;
+  }
+
+  const delay = computeRestartDelay(attempt, policy);
+  logInfo(
+    `[INFO] Restarting '${serverKey}' in ${delay}ms (attempt ${attempt}/${policy.maxAttempts})`
+  );
+
+  const timer = setTimeout(async () => {
+    pendingRestarts.delete(childClient);
+
+    // Server was intentionally stopped while waiting
+    if (childClient.status === ServerStatus.STOPPED) {
+      return;
+    }
+
+    childClient.status = ServerStatus.INITIALIZING;
+
+    try {
+      const restarted = await connect(serverKey, childClient.config);
+
+      // Server was intentionally stopped while connecting (status changes across the await)
+      if ((childClient.status as ServerStatus) === ServerStatus.STOPPED) {
+        await restarted.client.close();
+        return;
+      }
+
+      childClient.client = restarted.client;
+      childClient.status = ServerStatus.RUNNING;
+      childClient.startedAt = restarted.startedAt ?? Date.now();
+      delete childClient.error;
+      childClient.restartCount++;
+    } catch (error) {
+      childClient.status = ServerStatus.FAILED;
+      childClient.error = error as Error;
+      logError(`[ERROR] Restart attempt ${attempt} for '${serverKey}' failed:`, (error as Error).message);
+      scheduleRestart(childClient, connect, onRestarted, attempt + 1);
+      return;
+    }
+
+    try {
+      await onRestarted(childClient);
+    } catch (error) {
+      logError(`[ERROR] Failed to re-register '${serverKey}' after restart:`, (error as Error).message);
+    }
+  }, delay);
+
+  // Pending restarts must not keep the process alive on their own
+  timer.unref?.();
+  pendingRestarts.set(childClient, timer);
+
+  return true;
+}
+
+/**
+ * Cancel a pending restart for a child server
+ * @param childClient - Child server whose pending restart should be cancelled
+ */
+export function cancelRestart(childClient: ChildServerClient): void {
+  const timer = pendingRestarts.get(childClient);
+  if (timer !== undefined) {
+    clearTimeout(timer);
+    pendingRestarts.delete(childClient);
+  }
+}
+
+/**
+ * Check whether a restart is pending for a child server
+ * @param childClient - Child server to check
+ * @returns True if a restart timer is scheduled
+ */
+export function isRestartPending(childClient: ChildServerClient): boolean {
+  return pendingRestarts.has(childClient);
+}
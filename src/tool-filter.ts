@@ -0,0 +1,72 @@
+/**
+ * Tool Filter Module
+ *
+ * Applies a server's includeTools / excludeTools lists to the tools it
+ * exposes. Patterns are exact tool names or globs where `*` matches any run
+ * of characters and `?` matches a single character.
+ */
+
+import type { ServerConfig } from './types.js';
+
+/**
+ * Compiled glob patterns, keyed by pattern string
+ */
+const patternCache = new Map<string, RegExp>();
+
+/**
+ * Check whether a tool name matches an exact name or glob pattern
+ * @param toolName - Original (unprefixed) tool name
+ * @param pattern - Exact name or glob (e.g., "drop_*", "delete_?ranch")
+ * @returns True if the name matches the pattern
+ *
+ * @example
+ * matchesToolPattern('drop_table', 'drop_*'); // true
+ * matchesToolPattern('query', 'drop_*'); // false
+ */
+export function matchesToolPattern(toolName: string, pattern: string): boolean {
+  if (!pattern.includes('*') && !pattern.includes('?')) {
+    return toolName === pattern;
+  }
+
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    const source = pattern
+      .split('')
+      .map(char => {
+        if (char === '*') return '.*';
+        if (char === '?') return '.';
+        return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+    regex = new RegExp(`^${source}$`);
+    patternCache.set(pattern, regex);
+  }
+
+  return regex.test(toolName);
+}
+
+/**
+ * Check whether a server's config allows one of its tools to be exposed
+ *
+ * A tool is allowed if it matches at least one includeTools pattern (when
+ * includeTools is set) and matches no excludeTools pattern.
+ *
+ * @param toolName - Original (unprefixed) tool name
+ * @param config - Server configuration with optional includeTools / excludeTools
+ * @returns True if the tool should be added to the registry
+ */
+export function isToolAllowed(
+  toolName: string,
+  config: Pick<ServerConfig, 'includeTools' | 'excludeTools'>
+): boolean {
+  if (config.includeTools &&
+      !config.includeTools.some(pattern => matchesToolPattern(toolName, pattern))) {
+    return false;
+  }
+
+  if (config.excludeTools?.some(pattern => matchesToolPattern(toolName, pattern))) {
+    return false;
+  }
+
+  return true;
+}
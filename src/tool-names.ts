@@ -0,0 +1,128 @@
+/**
+ * Tool Names Module
+ *
+ * Applies the tool name policy (--tool-name-policy) to prefixed tool names
+ * before they are stored in the registry. Several LLM APIs only accept tool
+ * names matching ^[a-zA-Z0-9_-]{1,64}$, which a ":" separator or a long
+ * server key violates.
+ *
+ * Also holds the strategy for two different tools that end up with the same
+ * name (--collision-strategy), e.g. server "a_b" tool "c" and server "a"
+ * tool "b_c" with the "_" separator.
+ *
+ * The registry is keyed by the exposed name and keeps each tool's serverKey
+ * and original name, so calls under a rewritten name are still routed to the
+ * right child.
+ */
+
+import { createHash } from 'crypto';
+import type { ToolNamePolicy, ToolNameCollision, ToolCollisionStrategy } from './types.js';
+
+/**
+ * Maximum tool name length under the strict policy
+ */
+export const DEFAULT_MAX_TOOL_NAME_LENGTH = 64;
+
+/**
+ * Smallest maxLength accepted for the strict policy (room for the hash suffix)
+ */
+export const MIN_MAX_TOOL_NAME_LENGTH = 16;
+
+/**
+ * Hex characters of the hash that ends shortened names
+ */
+const HASH_SUFFIX_LENGTH = 8;
+
+/**
+ * Tool collision strategies, in the order they are listed in help texts
+ */
+export const TOOL_COLLISION_STRATEGIES: readonly ToolCollisionStrategy[] = [
+  'error',
+  'first-wins',
+  'last-wins',
+  'auto-suffix'
+];
+
+/**
+ * Active policy (names are preserved by default)
+ */
+let policy: ToolNamePolicy = { mode: 'preserve' };
+
+/**
+ * Active collision strategy
+ */
+let collisionStrategy: ToolCollisionStrategy = 'error';
+
+/**
+ * Set the policy applied to tool names added to the registry from now on
+ * @param namePolicy - Tool name policy
+ */
+export function setToolNamePolicy(namePolicy: ToolNamePolicy): void {
+  policy = namePolicy;
+}
+
+/**
+ * Get the active tool name policy
+ * @returns Tool name policy
+ */
+export function getToolNamePolicy(): ToolNamePolicy {
+  return policy;
+}
+
+/**
+ * Set how tools added from now on are handled when their name is taken
+ * @param strategy - Tool collision strategy
+ */
+export function setToolCollisionStrategy(strategy: ToolCollisionStrategy): void {
+  collisionStrategy = strategy;
+}
+
+/**
+ * Get the active tool collision strategy
+ * @returns Tool collision strategy
+ */
+export function getToolCollisionStrategy(): ToolCollisionStrategy {
+  return collisionStrategy;
+}
+
+/**
+ * Apply the active policy to a prefixed tool name
+ *
+ * Under the strict policy, every character outside [a-zA-Z0-9_-] becomes
+ * "_". A name longer than maxLength is cut and ends with "_" plus a hash of
+ * the full original name, so the result is stable across restarts and
+ * distinct for names that share a long beginning.
+ *
+ * @param name - Prefixed tool name, e.g. "filesystem:read_file"
+ * @returns Exposed tool name
+ *
+ * @example
+ * setToolNamePolicy({ mode: 'strict', maxLength: 64 });
+ * applyToolNamePolicy('filesystem:read_file');
+ * // 'filesystem_read_file'
+ */
+export function applyToolNamePolicy(name: string): string {
+  if (policy.mode === 'preserve') {
+    return name;
+  }
+
+  const sanitized = name.replace(/[^a-zA-Z0-9_-]/g, '_');
+  if (sanitized.length <= policy.maxLength) {
+    return sanitized;
+  }
+
+  const hash = createHash('sha256').update(name).digest('hex').slice(0, HASH_SUFFIX_LENGTH);
+  return `${sanitized.slice(0, policy.maxLength - HASH_SUFFIX_LENGTH - 1)}_${hash}`;
+}
+
+/**
+ * Describe tool name collisions for an error or log message
+ * @param collisions - Collisions found while adding tools
+ * @returns e.g. "'a_b_c' (server 'a_b' tool 'c' and server 'a' tool 'b_c')"
+ */
+export function formatToolNameCollisions(collisions: ToolNameCollision[]): string {
+  return collisions
+    .map(({ name, existing, incoming }) =>
+      `'${name}' (server '${existing.serverKey}' tool '${existing.originalName}' and server '${incoming.serverKey}' tool '${incoming.originalName}')`)
+    .join('; ');
+}
@@ -0,0 +1,114 @@
+/**
+ * Tool Overrides Module
+ *
+ * Applies a server's per-tool `tools` overrides before tools are stored in the
+ * registry: renaming the exposed name, adding aliases, replacing or
+ * appending to the description, and pinning or defaulting arguments.
+ * Overrides are keyed by the child's original tool name, which is always what
+ * gets forwarded to the child.
+ */
+
+import type { ToolSchema, ToolOverride, ToolRegistryEntry, JSONSchema } from './types.js';
+
+/**
+ * Apply an override to a child's tool
+ *
+ * Returns one schema per exposed name: the (possibly renamed) primary name
+ * first, followed by each alias. All share the overridden description and
+ * inputSchema: pinned arguments are removed from it, defaulted ones get a
+ * `default` and are no longer required.
+ *
+ * @param tool - Tool schema as reported by the child (unprefixed)
+ * @param override - Override for this tool from ServerConfig.tools (optional)
+ * @returns Unprefixed schemas to expose for this tool
+ *
+ * @example
+ * applyToolOverride(
+ *   { name: 'run_query', description: 'Run SQL', inputSchema: {...} },
+ *   { name: 'query', aliases: ['sql'], appendDescription: 'Read-only replica.' }
+ * );
+ * // [{ name: 'query', description: 'Run SQL\n\nRead-only replica.', ... },
+ * //  { name: 'sql', description: 'Run SQL\n\nRead-only replica.', ... }]
+ */
+export function applyToolOverride(tool: ToolSchema, override?: ToolOverride): ToolSchema[] {
+  if (!override) {
+    return [tool];
+  }
+
+  const schema: ToolSchema = { ...tool };
+
+  const description = override.description ?? tool.description;
+  if (override.appendDescription) {
+    schema.description = description
+      ? `${description}\n\n${override.appendDescription}`
+      : override.appendDescription;
+  } else if (description !== undefined) {
+    schema.description = description;
+  }
+
+  if (override.pinnedArguments || override.defaultArguments) {
+    schema.inputSchema = applyArgumentOverrides(tool.inputSchema, override);
+  }
+
+  const names = [override.name ?? tool.name, ...(override.aliases ?? [])];
+  const uniqueNames = Array.from(new Set(names));
+
+  return uniqueNames.map(name => ({ ...schema, name }));
+}
+
+/**
+ * Build the arguments forwarded to the child for a call
+ *
+ * Defaults fill in arguments the caller omitted; pinned arguments replace
+ * whatever the caller sent.
+ *
+ * @param entry - Registry entry of the called tool
+ * @param args - Arguments from the caller
+ * @returns Arguments to forward
+ *
+ * @example
+ * resolveToolArguments(
+ *   { ..., pinnedArguments: { repo: 'our-org/main' }, defaultArguments: { limit: 50 } },
+ *   { query: 'is:open', repo: 'other/repo' }
+ * );
+ * // { limit: 50, query: 'is:open', repo: 'our-org/main' }
+ */
+export function resolveToolArguments(
+  entry: Pick<ToolRegistryEntry, 'pinnedArguments' | 'defaultArguments'>,
+  args: Record<string, unknown>
+): Record<string, unknown> {
+  if (!entry.pinnedArguments && !entry.defaultArguments) {
+    return args;
+  }
+  return { ...entry.defaultArguments, ...args, ...entry.pinnedArguments };
+}
+
+/**
+ * Hide pinned arguments from an inputSchema and mark defaulted ones
+ */
+function applyArgumentOverrides(
+  inputSchema: JSONSchema,
+  override: ToolOverride
+): JSONSchema {
+  const pinned = Object.keys(override.pinnedArguments ?? {});
+  const defaults = override.defaultArguments ?? {};
+
+  const properties: Record<string, unknown> = {};
+  for (const [name, property] of Object.entries(inputSchema.properties ?? {})) {
+    if (pinned.includes(name)) {
+      continue;
+    }
+    properties[name] = name in defaults && typeof property === 'object' && property !== null
+      ? { ...property, default: defaults[name] }
+      : property;
+  }
+
+  const schema: JSONSchema = { ...inputSchema };
+  if (inputSchema.properties) {
+    schema.properties = properties;
+  }
+  if (inputSchema.required) {
+    schema.required = inputSchema.required.filter((name) => !pinned.includes(name) && !(name in defaults));
+  }
+  return schema;
+}
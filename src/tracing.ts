@@ -0,0 +1,408 @@
+/**
+ * Tracing Module
+ *
+ * Minimal OpenTelemetry-compatible tracing: spans for upstream tools/call
+ * requests, the calls routed to children, and startup phases, exported as
+ * OTLP/HTTP JSON to a configurable endpoint (--otlp-endpoint).
+ *
+ * The active span is tracked per async context, so spans started inside
+ * withSpan() become its children. Trace context follows W3C Trace Context:
+ * an upstream `_meta.traceparent` on tools/call continues the caller's trace,
+ * and calls routed to children carry `_meta.traceparent` of their span.
+ *
+ * Tracing is off until configureTracing() is called; withSpan() then runs
+ * its function with a no-op span.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomBytes } from 'node:crypto';
+import { logWarn } from './logger.js';
+
+/**
+ * How often finished spans are exported, in milliseconds
+ */
+export const DEFAULT_TRACE_FLUSH_INTERVAL_MS = 5000;
+
+/**
+ * Number of finished spans that triggers an export before the flush interval
+ */
+const MAX_BATCH_SIZE = 512;
+
+/**
+ * Finished spans kept while the endpoint is unreachable (failed batches are
+ * queued again for the next export); older ones are dropped
+ */
+const MAX_PENDING_SPANS = 4096;
+
+/**
+ * Identifies a span within a trace
+ */
+export interface SpanContext {
+  /** 32 lowercase hex characters */
+  traceId: string;
+
+  /** 16 lowercase hex characters */
+  spanId: string;
+}
+
+/**
+ * Span attribute value
+ */
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * Span kind (OTLP): internal work, an incoming request, or an outgoing call
+ */
+export type SpanKind = 'internal' | 'server' | 'client';
+
+/**
+ * Options for starting a span
+ */
+export interface SpanOptions {
+  /** Span kind (default: internal) */
+  kind?: SpanKind;
+
+  /** Attributes set when the span starts */
+  attributes?: Record<string, SpanAttributeValue | undefined>;
+
+  /** Remote parent (default: the active span, if any) */
+  parent?: SpanContext | undefined;
+}
+
+/**
+ * A span in progress
+ */
+export interface Span {
+  /** Trace and span id (unset for the no-op span used while tracing is off) */
+  readonly context: SpanContext | undefined;
+
+  /**
+   * Set an attribute
+   * @param key - Attribute name, e.g. "mcp.server_key"
+   * @param value - Attribute value
+   */
+  setAttribute(key: string, value: SpanAttributeValue): void;
+
+  /**
+   * Mark the span as failed
+   * @param error - Error or error message
+   */
+  recordError(error: unknown): void;
+
+  /** Finish the span and queue it for export */
+  end(): void;
+}
+
+/**
+ * Tracing configuration
+ */
+export interface TracingOptions {
+  /** OTLP/HTTP traces endpoint, e.g. http://127.0.0.1:4318/v1/traces */
+  endpoint: string;
+
+  /** service.name resource attribute (default: mcp-simple-aggregator) */
+  serviceName?: string;
+
+  /** Export interval in milliseconds (default: 5000) */
+  flushIntervalMs?: number;
+}
+
+/**
+ * Span in the OTLP JSON encoding
+ */
+interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpAttribute[];
+  status: { code: number; message?: string };
+}
+
+/**
+ * Attribute in the OTLP JSON encoding
+ */
+interface OtlpAttribute {
+  key: string;
+  value: { stringValue: string } | { intValue: string } | { doubleValue: number } | { boolValue: boolean };
+}
+
+/**
+ * Active exporter (null while tracing is off)
+ */
+let exporter: {
+  endpoint: string;
+  serviceName: string;
+  pending: OtlpSpan[];
+  timer: ReturnType<typeof setInterval>;
+} | null = null;
+
+/**
+ * Span of the current async context
+ */
+const activeSpan = new AsyncLocalStorage<Span>();
+
+/**
+ * Span used while tracing is off
+ */
+const NOOP_SPAN: Span = {
+  context: undefined,
+  setAttribute: () => undefined,
+  recordError: () => undefined,
+  end: () => undefined
+};
+
+/**
+ * Turn tracing on and export spans to an OTLP/HTTP endpoint
+ * @param options - Endpoint, service name and export interval
+ */
+export function configureTracing(options: TracingOptions): void {
+  resetTracing();
+
+  const timer = setInterval(() => {
+    void flushTraces();
+  }, options.flushIntervalMs ?? DEFAULT_TRACE_FLUSH_INTERVAL_MS);
+  // Exporting must not keep the process alive
+  timer.unref();
+
+  exporter = {
+    endpoint: options.endpoint,
+    serviceName: options.serviceName ?? 'mcp-simple-aggregator',
+    pending: [],
+    timer
+  };
+}
+
+/**
+ * Check whether tracing is on
+ * @returns True once configureTracing() has been called
+ */
+export function isTracingEnabled(): boolean {
+  return exporter !== null;
+}
+
+/**
+ * Turn tracing off, dropping unexported spans (for testing)
+ * @internal
+ */
+export function resetTracing(): void {
+  if (exporter) {
+    clearInterval(exporter.timer);
+    exporter = null;
+  }
+}
+
+/**
+ * Start a span; the caller must end() it
+ *
+ * The span is a child of options.parent, else of the active span, else the
+ * root of a new trace. It does not become the active span (see withSpan()).
+ *
+ * @param name - Span name
+ * @param options - Kind, attributes and parent
+ * @returns Started span (no-op while tracing is off)
+ */
+export function startSpan(name: string, options: SpanOptions = {}): Span {
+  if (!exporter) {
+    return NOOP_SPAN;
+  }
+
+  const parent = options.parent ?? activeSpan.getStore()?.context;
+  const context: SpanContext = {
+    traceId: parent?.traceId ?? randomBytes(16).toString('hex'),
+    spanId: randomBytes(8).toString('hex')
+  };
+  const startTime = nowUnixNano();
+  const attributes = new Map<string, SpanAttributeValue>();
+  for (const [key, value] of Object.entries(options.attributes ?? {})) {
+    if (value !== undefined) {
+      attributes.set(key, value);
+    }
+  }
+  let status: OtlpSpan['status'] = { code: 0 };
+  let ended = false;
+
+  return {
+    context,
+
+    setAttribute(key: string, value: SpanAttributeValue): void {
+      attributes.set(key, value);
+    },
+
+    recordError(error: unknown): void {
+      status = { code: 2, message: error instanceof Error ? error.message : String(error) };
+    },
+
+    end(): void {
+      if (ended) return;
+      ended = true;
+      queueSpan({
+        traceId: context.traceId,
+        spanId: context.spanId,
+        ...(parent && { parentSpanId: parent.spanId }),
+        name,
+        kind: { internal: 1, server: 2, client: 3 }[options.kind ?? 'internal'],
+        startTimeUnixNano: startTime,
+        endTimeUnixNano: nowUnixNano(),
+        attributes: Array.from(attributes, ([key, value]) => toOtlpAttribute(key, value)),
+        status
+      });
+    }
+  };
+}
+
+/**
+ * Run a function inside a new active span
+ *
+ * The span ends when the function settles and is marked as failed if it
+ * throws. Spans started by the function (also after awaits) are its children.
+ *
+ * @param name - Span name
+ * @param options - Kind, attributes and parent
+ * @param fn - Work to trace; receives the span to add attributes
+ * @returns Result of fn
+ *
+ * @example
+ * const tools = await withSpan('tools/list', { attributes: { 'mcp.server_key': 'github' } },
+ *   () => client.listTools());
+ */
+export async function withSpan<T>(
+  name: string,
+  options: SpanOptions,
+  fn: (span: Span) => Promise<T> | T
+): Promise<T> {
+  if (!exporter) {
+    return fn(NOOP_SPAN);
+  }
+
+  const span = startSpan(name, options);
+  try {
+    return await activeSpan.run(span, () => fn(span));
+  } catch (error) {
+    span.recordError(error);
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+/**
+ * Format a span context as a W3C traceparent header value
+ * @param context - Span context
+ * @returns e.g. "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01"
+ */
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-01`;
+}
+
+/**
+ * Parse a W3C traceparent header value
+ * @param value - traceparent value, e.g. from a request's `_meta`
+ * @returns Span context, or undefined if the value is not a valid traceparent
+ */
+export function parseTraceparent(value: unknown): SpanContext | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const match = /^[0-9a-f]{2}-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/.exec(value.trim().toLowerCase());
+  if (!match || /^0+$/.test(match[1]!) || /^0+$/.test(match[2]!)) {
+    return undefined;
+  }
+  return { traceId: match[1]!, spanId: match[2]! };
+}
+
+/**
+ * Export all finished spans now
+ *
+ * Export failures are logged as warnings. Spans of a batch that may succeed
+ * later (network errors, HTTP 429 and 5xx) are queued again, up to
+ * MAX_PENDING_SPANS; spans the endpoint rejected are dropped.
+ *
+ * @returns Promise that resolves once the export request finished
+ */
+export async function flushTraces(): Promise<void> {
+  if (!exporter || exporter.pending.length === 0) {
+    return;
+  }
+
+  const current = exporter;
+  const { endpoint, serviceName } = current;
+  const spans = current.pending.splice(0);
+  const body = {
+    resourceSpans: [{
+      resource: { attributes: [toOtlpAttribute('service.name', serviceName)] },
+      scopeSpans: [{ scope: { name: 'mcp-simple-aggregator' }, spans }]
+    }]
+  };
+
+  try {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    if (!response.ok) {
+      logWarn(`[WARN] Failed to export ${spans.length} spans to ${endpoint}: HTTP ${response.status}`);
+      if (response.status === 429 || response.status >= 500) {
+        requeueSpans(current, spans);
+      }
+    }
+  } catch (error) {
+    logWarn(`[WARN] Failed to export ${spans.length} spans to ${endpoint}:`, (error as Error).message);
+    requeueSpans(current, spans);
+  }
+}
+
+/**
+ * Put the spans of a failed export back in front of the queue
+ */
+function requeueSpans(target: NonNullable<typeof exporter>, spans: OtlpSpan[]): void {
+  // Tracing was reset or reconfigured meanwhile
+  if (target !== exporter) return;
+
+  target.pending.unshift(...spans);
+  if (target.pending.length > MAX_PENDING_SPANS) {
+    target.pending.splice(0, target.pending.length - MAX_PENDING_SPANS);
+  }
+}
+
+/**
+ * Queue a finished span, exporting early once a batch is full
+ */
+function queueSpan(span: OtlpSpan): void {
+  if (!exporter) return;
+
+  exporter.pending.push(span);
+  if (exporter.pending.length > MAX_PENDING_SPANS) {
+    exporter.pending.shift();
+  }
+  // Only when a batch fills up, so requeued spans wait for the next interval
+  if (exporter.pending.length === MAX_BATCH_SIZE) {
+    void flushTraces();
+  }
+}
+
+/**
+ * Encode an attribute for OTLP JSON (64-bit integers are strings)
+ */
+function toOtlpAttribute(key: string, value: SpanAttributeValue): OtlpAttribute {
+  if (typeof value === 'string') {
+    return { key, value: { stringValue: value } };
+  }
+  if (typeof value === 'boolean') {
+    return { key, value: { boolValue: value } };
+  }
+  return Number.isInteger(value)
+    ? { key, value: { intValue: String(value) } }
+    : { key, value: { doubleValue: value } };
+}
+
+/**
+ * Current time in nanoseconds since the epoch, as a decimal string
+ */
+function nowUnixNano(): string {
+  return (BigInt(Math.round((performance.timeOrigin + performance.now()) * 1000)) * 1000n).toString();
+}
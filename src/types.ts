@@ -23,11 +23,20 @@ import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
 export interface McpConfig {
   /**
    * Map of server keys to server configurations.
-   * The key becomes the prefix for all tools from that server (e.g., "filesystem:read_file").
+   * The key becomes the prefix for all tools from that server (e.g., "filesystem:read_file")
+   * unless the server sets its own `prefix`.
    */
   mcpServers: {
     [serverKey: string]: ServerConfig;
   };
+
+  /**
+   * Composite tools executed by the aggregator, keyed by exposed tool name.
+   * Optional. Each one calls other aggregated tools in parallel or in sequence.
+   */
+  virtualTools?: {
+    [toolName: string]: VirtualToolConfig;
+  };
 }
 
 /**
@@ -39,8 +48,9 @@ export interface ServerConfig {
   /**
    * Command to execute (e.g., "npx", "node", "/usr/bin/python").
    * This is the executable that will be spawned.
+   * Required for local (stdio) servers; omitted for remote servers with `url`.
    */
-  command: string;
+  command?: string;
 
   /**
    * Command-line arguments for the server.
@@ -54,6 +64,260 @@ export interface ServerConfig {
    * Optional, defaults to empty object if not provided.
    */
   env?: Record<string, string>;
+
+  /**
+   * URL of an already-running remote MCP server (e.g., "https://mcp.example.com/mcp").
+   * Used instead of `command`; the aggregator connects rather than spawning.
+   */
+  url?: string;
+
+  /**
+   * Transport used to reach the server.
+   * Optional, defaults to "stdio" for `command` and "streamable-http" for `url`.
+   */
+  transport?: ChildTransportType;
+
+  /**
+   * HTTP headers sent with every request to a remote server (e.g., Authorization).
+   * Supports $VAR and ${VAR} syntax for expansion.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Automatic restart policy applied when the server crashes at runtime.
+   * Optional, defaults to DEFAULT_RESTART_POLICY. Set maxAttempts to 0 to disable.
+   */
+  restart?: RestartPolicy;
+
+  /**
+   * Whether the aggregator must refuse to start without this server.
+   * Optional, defaults to false. Only relevant for non-failFast startup policies.
+   */
+  required?: boolean;
+
+  /**
+   * Time allowed for the connect handshake and health check, in milliseconds.
+   * Optional, defaults to DEFAULT_STARTUP_TIMEOUT_MS (30000).
+   */
+  startupTimeoutMs?: number;
+
+  /**
+   * Time allowed for each tools/call to this server, in milliseconds.
+   * Optional, defaults to the aggregator's --call-timeout (60000).
+   * Can be overridden per tool via `tools.<name>.callTimeoutMs`.
+   */
+  callTimeoutMs?: number;
+
+  /**
+   * Start the server on its first tool call instead of at boot.
+   * Its tools are served from the schema cache until then; without a cached
+   * entry the server is started once at boot to fill the cache.
+   * Only tools are cached: the server's resources and prompts are not listed
+   * until it has been started.
+   * Optional, defaults to false.
+   */
+  lazy?: boolean;
+
+  /**
+   * Shut the server down after this many milliseconds without tool calls.
+   * Its tools, resources and prompts stay listed and the next call starts it again.
+   * Optional, defaults to never.
+   */
+  idleTimeoutMs?: number;
+
+  /**
+   * Argument paths replaced with "[REDACTED]" in the audit log for every tool
+   * of this server (e.g., "password", "auth.token", "items.*.secret").
+   * Per-tool paths can be added via `tools.<name>.redactArguments`.
+   */
+  redactArguments?: string[];
+
+  /**
+   * Prefix for this server's exposed tool names, joined with the separator
+   * (e.g., "fs" exposes "fs:read_file"). `false` exposes tools under their
+   * own names; conflicts with other tools are handled by --collision-strategy.
+   * Optional, defaults to the server key.
+   */
+  prefix?: string | false;
+
+  /**
+   * Only expose tools matching one of these names or glob patterns (e.g., "read_*").
+   * Optional, defaults to exposing every tool.
+   */
+  includeTools?: string[];
+
+  /**
+   * Never expose tools matching any of these names or glob patterns (e.g., "drop_*").
+   * Applied after includeTools. Excluded tools are neither listed nor callable.
+   */
+  excludeTools?: string[];
+
+  /**
+   * Per-tool overrides keyed by the child's original tool name.
+   * Optional. Filters (includeTools / excludeTools) match original names.
+   */
+  tools?: Record<string, ToolOverride>;
+}
+
+/**
+ * Override for how a single child tool is exposed by the aggregator.
+ */
+export interface ToolOverride {
+  /** Exposed name (before prefixing) in place of the child's tool name */
+  name?: string;
+
+  /** Additional exposed names (before prefixing) that route to the same tool */
+  aliases?: string[];
+
+  /** Description replacing the child's description */
+  description?: string;
+
+  /** Text appended (after a blank line) to the child's or replaced description */
+  appendDescription?: string;
+
+  /** Time allowed for each call to this tool, in milliseconds (overrides the server's) */
+  callTimeoutMs?: number;
+
+  /** Argument paths redacted in the audit log (in addition to the server's) */
+  redactArguments?: string[];
+
+  /**
+   * Arguments always sent to the child with these values. They are removed
+   * from the exposed inputSchema, so callers can neither see nor override them.
+   */
+  pinnedArguments?: Record<string, unknown>;
+
+  /**
+   * Arguments sent to the child with these values when the caller omits them.
+   * They stay in the exposed inputSchema (with a `default`) but are no longer required.
+   */
+  defaultArguments?: Record<string, unknown>;
+}
+
+/**
+ * How a virtual tool runs its steps.
+ *
+ * - fanOut: call every step in parallel and merge their content
+ * - chain: call the steps one after another; each step can use the previous
+ *   step's output, and the last step's result is returned
+ */
+export type VirtualToolMode = 'fanOut' | 'chain';
+
+/**
+ * Composite tool executed by the aggregator rather than a child server.
+ */
+export interface VirtualToolConfig {
+  /** How the steps run */
+  mode: VirtualToolMode;
+
+  /** Tools to call, in order */
+  steps: VirtualToolStep[];
+
+  /** Description shown to the model */
+  description?: string;
+
+  /** JSON Schema of the virtual tool's arguments (default: any object) */
+  inputSchema?: JSONSchema;
+
+  /** Time allowed for the whole virtual tool call, in milliseconds (default: --call-timeout) */
+  callTimeoutMs?: number;
+}
+
+/**
+ * A single call made by a virtual tool.
+ */
+export interface VirtualToolStep {
+  /** Exposed name of the aggregated tool to call (e.g., "docs:search") */
+  tool: string;
+
+  /**
+   * Arguments for the call. String values may contain placeholders:
+   * {{input.<path>}} for the virtual tool's arguments, and in chains
+   * {{previous.text}}, {{previous.json.<path>}} or
+   * {{previous.structuredContent.<path>}} for the previous step's result.
+   * A value that is exactly one placeholder keeps the referenced value's type.
+   * Optional, defaults to forwarding the virtual tool's arguments unchanged.
+   */
+  arguments?: Record<string, unknown>;
+}
+
+/**
+ * Transport used to connect to a child server.
+ *
+ * - stdio: spawn `command` and talk over stdin/stdout
+ * - sse: connect to a remote `url` over HTTP+SSE
+ * - streamable-http: connect to a remote `url` over Streamable HTTP
+ */
+export type ChildTransportType = 'stdio' | 'sse' | 'streamable-http';
+
+/**
+ * Exponential backoff settings for restarting a crashed child server.
+ *
+ * The delay before attempt n is min(initialDelayMs * 2^(n-1), maxDelayMs).
+ */
+export interface RestartPolicy {
+  /** Delay before the first restart attempt in milliseconds (default: 1000) */
+  initialDelayMs?: number;
+
+  /** Upper bound for the delay between attempts in milliseconds (default: 30000) */
+  maxDelayMs?: number;
+
+  /** Consecutive failed attempts before giving up (default: 5, 0 disables restarts) */
+  maxAttempts?: number;
+}
+
+/**
+ * How child server failures during startup are handled.
+ *
+ * - failFast: abort startup on the first failure (default)
+ * - bestEffort: start every healthy server and serve whatever is available
+ * - requireAtLeast: like bestEffort, but abort if fewer than count servers start
+ *
+ * Servers with `required: true` abort startup on failure under every policy.
+ */
+export type StartupPolicy =
+  | { mode: 'failFast' }
+  | { mode: 'bestEffort' }
+  | { mode: 'requireAtLeast'; count: number };
+
+/**
+ * How exposed tool names are constrained for strict clients.
+ *
+ * - preserve: expose `serverKey + separator + name` unchanged (default)
+ * - strict: replace characters outside [a-zA-Z0-9_-] with "_" and shorten
+ *   names longer than maxLength, ending them with a short hash for uniqueness
+ */
+export type ToolNamePolicy =
+  | { mode: 'preserve' }
+  | { mode: 'strict'; maxLength: number };
+
+/**
+ * How two different tools that map to the same exposed name are handled.
+ *
+ * - error: fail startup; later collisions keep the first tool (default)
+ * - first-wins: keep the tool registered first
+ * - last-wins: replace it with the tool registered last
+ * - auto-suffix: expose the later tool as name_2 (name_3, ...)
+ *
+ * Every collision is logged as a warning naming both tools.
+ */
+export type ToolCollisionStrategy = 'error' | 'first-wins' | 'last-wins' | 'auto-suffix';
+
+/**
+ * Two different tools that were given the same exposed name.
+ */
+export interface ToolNameCollision {
+  /** Exposed name both tools map to */
+  name: string;
+
+  /** Tool that was already registered under the name */
+  existing: { serverKey: string; originalName: string };
+
+  /** Tool that was being added */
+  incoming: { serverKey: string; originalName: string };
+
+  /** Name the incoming tool was exposed under instead (auto-suffix only) */
+  resolvedName?: string;
 }
 
 // ============================================================================
@@ -75,6 +339,9 @@ export enum ServerStatus {
 
   /** Server was intentionally stopped */
   STOPPED = 'stopped',
+
+  /** Server is not running; it is started on demand by the next tool call (lazy / idle) */
+  IDLE = 'idle',
 }
 
 /**
@@ -87,7 +354,7 @@ export interface ChildServerClient {
   /** Unique identifier from config (used for prefixing tools) */
   serverKey: string;
 
-  /** MCP SDK client connected to the child server via stdio */
+  /** MCP SDK client connected to the child server (stdio or remote) */
   client: Client;
 
   /** Original server configuration from the config file */
@@ -98,6 +365,38 @@ export interface ChildServerClient {
 
   /** Error details if server failed (undefined if running) */
   error?: Error;
+
+  /** Number of times the server has been successfully restarted after a crash or failed startup */
+  restartCount: number;
+
+  /** When the current connection finished starting (ms since epoch, unset if never running) */
+  startedAt?: number;
+}
+
+/**
+ * Point-in-time status of a child server, as reported by getServerStatuses().
+ */
+export interface ServerStatusReport {
+  /** Unique identifier from config */
+  serverKey: string;
+
+  /** Current runtime status of the server */
+  status: ServerStatus;
+
+  /** Whether the server is marked as required in its config */
+  required: boolean;
+
+  /** Number of successful restarts */
+  restartCount: number;
+
+  /** Whether a background restart/retry is scheduled */
+  restartPending: boolean;
+
+  /** Last error, with the phase it occurred in when known */
+  error?: {
+    message: string;
+    phase?: ErrorPhase;
+  };
 }
 
 // ============================================================================
@@ -157,6 +456,18 @@ export interface ToolRegistryEntry {
 
   /** Tool schema from the child server (with prefixed name) */
   schema: ToolSchema;
+
+  /** Per-tool or per-server call timeout in milliseconds (unset uses the aggregator default) */
+  callTimeoutMs?: number;
+
+  /** Server and per-tool argument paths redacted in the audit log */
+  redactArguments?: string[];
+
+  /** Arguments forwarded with fixed values, overriding the caller's */
+  pinnedArguments?: Record<string, unknown>;
+
+  /** Arguments forwarded when the caller omits them */
+  defaultArguments?: Record<string, unknown>;
 }
 
 /**
@@ -166,6 +477,160 @@ export interface ToolRegistryEntry {
  */
 export type ToolRegistry = Map<string, ToolRegistryEntry>;
 
+// ============================================================================
+// Resource Registry Types
+// ============================================================================
+
+/**
+ * Resource descriptor as defined by MCP protocol.
+ *
+ * Describes a concrete resource a server can read.
+ */
+export interface ResourceSchema {
+  /** Resource URI (prefixed in aggregator: "serverKey:file:///path") */
+  uri: string;
+
+  /** Human-readable name of the resource */
+  name: string;
+
+  /** Description of what the resource represents */
+  description?: string;
+
+  /** MIME type of the resource, if known */
+  mimeType?: string;
+
+  /** Additional resource fields */
+  [key: string]: unknown;
+}
+
+/**
+ * Resource template as defined by MCP protocol.
+ *
+ * Describes a family of resources addressable through an RFC 6570 URI template.
+ */
+export interface ResourceTemplateSchema {
+  /** URI template (prefixed in aggregator: "serverKey:db://{table}") */
+  uriTemplate: string;
+
+  /** Human-readable name for the type of resource */
+  name: string;
+
+  /** Description of what the template is for */
+  description?: string;
+
+  /** MIME type of all matching resources, if uniform */
+  mimeType?: string;
+
+  /** Additional template fields */
+  [key: string]: unknown;
+}
+
+/**
+ * Registry entry for a single resource from a child server.
+ */
+export interface ResourceRegistryEntry {
+  /** MCP client connection to route reads to */
+  client: Client;
+
+  /** Server key (prefix) for this resource */
+  serverKey: string;
+
+  /** Original resource URI without prefix (for forwarding to child) */
+  originalUri: string;
+
+  /** Resource descriptor from the child server (with prefixed URI) */
+  schema: ResourceSchema;
+}
+
+/**
+ * Registry entry for a single resource template from a child server.
+ */
+export interface ResourceTemplateRegistryEntry {
+  /** MCP client connection that owns the template */
+  client: Client;
+
+  /** Server key (prefix) for this template */
+  serverKey: string;
+
+  /** Original URI template without prefix */
+  originalUriTemplate: string;
+
+  /** Template descriptor from the child server (with prefixed URI template) */
+  schema: ResourceTemplateSchema;
+}
+
+/**
+ * Aggregated resources and resource templates, keyed by prefixed URI
+ * (serverKey:uri) and prefixed URI template respectively.
+ */
+export interface ResourceRegistry {
+  /** Concrete resources keyed by prefixed URI */
+  resources: Map<string, ResourceRegistryEntry>;
+
+  /** Resource templates keyed by prefixed URI template */
+  templates: Map<string, ResourceTemplateRegistryEntry>;
+}
+
+// ============================================================================
+// Prompt Registry Types
+// ============================================================================
+
+/**
+ * Argument accepted by a prompt template.
+ */
+export interface PromptArgumentSchema {
+  /** Argument name */
+  name: string;
+
+  /** Human-readable description of the argument */
+  description?: string;
+
+  /** Whether the argument must be provided */
+  required?: boolean;
+
+  /** Additional argument fields */
+  [key: string]: unknown;
+}
+
+/**
+ * Prompt as defined by MCP protocol.
+ */
+export interface PromptSchema {
+  /** Prompt name (prefixed in aggregator: "serverKey:promptName") */
+  name: string;
+
+  /** Human-readable description of the prompt */
+  description?: string;
+
+  /** Arguments the prompt accepts */
+  arguments?: PromptArgumentSchema[];
+
+  /** Additional prompt fields */
+  [key: string]: unknown;
+}
+
+/**
+ * Registry entry for a single prompt from a child server.
+ */
+export interface PromptRegistryEntry {
+  /** MCP client connection to route prompts/get to */
+  client: Client;
+
+  /** Server key (prefix) for this prompt */
+  serverKey: string;
+
+  /** Original prompt name without prefix (for forwarding to child) */
+  originalName: string;
+
+  /** Prompt schema from the child server (with prefixed name) */
+  schema: PromptSchema;
+}
+
+/**
+ * Map from prefixed prompt name (serverKey:promptName) to registry entry.
+ */
+export type PromptRegistry = Map<string, PromptRegistryEntry>;
+
 // ============================================================================
 // Aggregator Server Types
 // ============================================================================
@@ -186,6 +651,12 @@ export interface AggregatorServer {
   /** Aggregated tool registry with prefixed names */
   registry: ToolRegistry;
 
+  /** Aggregated resources and resource templates with prefixed URIs */
+  resourceRegistry: ResourceRegistry;
+
+  /** Aggregated prompt registry with prefixed names */
+  promptRegistry: PromptRegistry;
+
   /** Parsed configuration */
   config: McpConfig;
 }
@@ -209,6 +680,42 @@ export interface CliArgs {
   /** Optional: Path to log file for debug output (default: /tmp/mcp-aggregator-{pid}.log) */
   logFile?: string;
 
+  /** Optional: Most verbose log level written, e.g. "info" (default: "debug" with --debug, else "info") */
+  logLevel?: string;
+
+  /** Optional: Log line format, "text" or "json" (default: "text") */
+  logFormat?: string;
+
+  /** Optional: Rotate the log file beyond this size, e.g. "10M" */
+  logMaxSize?: string;
+
+  /** Optional: Rotate the log file "hourly" or "daily" */
+  logRotate?: string;
+
+  /** Optional: Number of rotated log files to keep (default: 5) */
+  logMaxFiles?: string;
+
+  /** Optional: Append a record of every tools/call to this file */
+  auditLog?: string;
+
+  /** Optional: Serve Prometheus metrics on this local port at /metrics (default: no metrics endpoint) */
+  metricsPort?: string;
+
+  /** Optional: OTLP/HTTP endpoint to export trace spans to, e.g. "http://127.0.0.1:4318" (default: tracing off) */
+  otlpEndpoint?: string;
+
+  /** Optional: Directory for per-child stderr log files (default: child stderr goes to the aggregator log) */
+  childLogDir?: string;
+
+  /** Optional: Reload the config file whenever it changes (default: false) */
+  watch?: boolean;
+
+  /** Optional: Serve the built-in aggregator:* management tools (default: false) */
+  managementTools?: boolean;
+
+  /** Optional: Path to the schema cache of lazy servers (default: ~/.cache/mcp-simple-aggregator/schemas.json) */
+  schemaCache?: string;
+
   /** Optional: Server name for MCP protocol (default: "mcp-simple-aggregator") */
   name?: string;
 
@@ -217,8 +724,61 @@ export interface CliArgs {
 
   /** Optional: Separator character(s) for tool namespacing (default: ":") */
   separator?: string;
+
+  /** Optional: Startup policy, e.g. "bestEffort" or "requireAtLeast:2" (default: "failFast") */
+  startupPolicy?: string;
+
+  /** Optional: Tool name policy, e.g. "strict" or "strict:48" (default: "preserve") */
+  toolNamePolicy?: string;
+
+  /** Optional: Tool name collision strategy, e.g. "auto-suffix" (default: "error") */
+  collisionStrategy?: string;
+
+  /** Optional: Maximum number of child servers started at once (default: 4) */
+  startupConcurrency?: string;
+
+  /** Optional: Default timeout for tool calls in milliseconds (default: 60000) */
+  callTimeout?: string;
+
+  /** Optional: Transport to serve clients on, "stdio" or "http" (default: "stdio") */
+  transport?: string;
+
+  /** Optional: Port for the http transport (default: 3000) */
+  port?: string;
+
+  /** Optional: Host for the http transport (default: "127.0.0.1") */
+  host?: string;
+
+  /** Optional: Comma-separated host names allowed in Host/Origin headers (http transport) */
+  allowedHosts?: string;
 }
 
+/**
+ * Transport the aggregator serves its own clients on.
+ *
+ * - stdio: a single client that spawned the aggregator
+ * - http: Streamable HTTP and HTTP+SSE with multiple concurrent sessions
+ */
+export type ServerTransportType = 'stdio' | 'http';
+
+/**
+ * Log levels, from least to most verbose.
+ */
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug' | 'trace';
+
+/**
+ * Log line format.
+ *
+ * - text: `{timestamp} [LEVEL] message key=value`
+ * - json: one JSON object per line
+ */
+export type LogFormat = 'text' | 'json';
+
+/**
+ * Time-based log rotation interval (UTC).
+ */
+export type LogRotationInterval = 'hourly' | 'daily';
+
 // ============================================================================
 // Environment Variable Expansion Types (T018)
 // ============================================================================
@@ -330,11 +890,15 @@ export class ChildServerError extends Error {
   /** Original error that caused the failure (if available) */
   public readonly cause?: Error;
 
+  /** Last lines the child wrote to stderr before failing (stdio servers only) */
+  public readonly stderr?: string[];
+
   constructor(
     message: string,
     serverKey: string,
     phase: ErrorPhase,
     cause?: Error,
+    stderr?: string[],
   ) {
     super(message);
     this.name = 'ChildServerError';
@@ -343,6 +907,9 @@ export class ChildServerError extends Error {
     if (cause !== undefined) {
       this.cause = cause;
     }
+    if (stderr !== undefined) {
+      this.stderr = stderr;
+    }
 
     // Maintain proper prototype chain for instanceof checks
     Object.setPrototypeOf(this, ChildServerError.prototype);
@@ -0,0 +1,393 @@
+/**
+ * Virtual Tools Module
+ *
+ * Serves the composite tools defined under `virtualTools` in the config. A
+ * virtual tool is executed by the aggregator instead of a child: it calls
+ * other aggregated tools, either all at once (fanOut, merging their content)
+ * or one after another (chain, passing each step's output to the next).
+ *
+ * Like the management tools, virtual tools are provided by an in-process MCP
+ * server connected over an in-memory transport. They are registered without
+ * a prefix under a reserved server key. Steps are routed through an internal
+ * tools/call handler over the same registry, so they get the same argument
+ * validation, pinned arguments, timeouts, lazy starts, audit log entries and
+ * metrics as calls from the client.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ErrorCode,
+  McpError
+} from '@modelcontextprotocol/sdk/types.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type {
+  ToolRegistry,
+  ToolSchema,
+  ToolOverride,
+  ToolNameCollision,
+  VirtualToolConfig,
+  VirtualToolStep
+} from './types.js';
+import { addServerTools } from './registry.js';
+import { setupToolCallHandler } from './server.js';
+import type { ToolCallHandlerOptions } from './server.js';
+import { getToolCollisionStrategy, formatToolNameCollisions } from './tool-names.js';
+import { logWarn } from './logger.js';
+
+/**
+ * Reserved server key that owns the virtual tools (they are exposed unprefixed)
+ */
+export const VIRTUAL_TOOLS_SERVER_KEY = 'virtual';
+
+/**
+ * Longest delay setTimeout accepts. Steps are bounded by their own tool's
+ * timeout in the router and by the virtual tool's timeout (via cancellation).
+ */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/**
+ * A {{...}} placeholder in step arguments
+ */
+const PLACEHOLDER = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+/**
+ * Options for connecting the virtual tools
+ */
+export interface VirtualToolsOptions {
+  /** Separator string for namespacing (default: ':') */
+  separator?: string;
+
+  /** Options of the handler that routes the steps (timeouts, lazy starts, audit log, metrics) */
+  handlerOptions?: ToolCallHandlerOptions;
+}
+
+/**
+ * Values that placeholders in step arguments resolve against
+ */
+export interface TemplateScope {
+  /** Arguments of the virtual tool call */
+  input: Record<string, unknown>;
+
+  /** Output of the previous step (chains only) */
+  previous?: {
+    /** Text content items joined with newlines */
+    text: string;
+
+    /** The text parsed as JSON (unset if it is not JSON) */
+    json: unknown;
+
+    /** Structured content of the result, if any */
+    structuredContent: unknown;
+  };
+}
+
+/**
+ * Build the exposed schemas of the virtual tools
+ *
+ * @param virtualTools - Virtual tools from the config, keyed by name
+ * @returns Unprefixed tool schemas
+ */
+export function toVirtualToolSchemas(virtualTools: Record<string, VirtualToolConfig>): ToolSchema[] {
+  return Object.entries(virtualTools).map(([name, virtualTool]) => ({
+    name,
+    description: virtualTool.description
+      ?? `Calls ${virtualTool.steps.map(step => step.tool).join(', ')} ${virtualTool.mode === 'fanOut' ? 'in parallel' : 'in sequence'}.`,
+    inputSchema: virtualTool.inputSchema ?? { type: 'object' }
+  }));
+}
+
+/**
+ * Render a step's arguments
+ *
+ * Without `arguments` the virtual tool's arguments are forwarded unchanged.
+ * A string that is exactly one placeholder becomes the referenced value
+ * (keeping its type, dropped if missing); placeholders inside longer strings
+ * are replaced with the value as text.
+ *
+ * @param step - Step to render the arguments of
+ * @param scope - Virtual tool arguments and previous step output
+ * @returns Arguments for the step's call
+ *
+ * @example
+ * renderStepArguments(
+ *   { tool: 'jira:search', arguments: { jql: 'text ~ "{{input.query}}"', limit: '{{input.limit}}' } },
+ *   { input: { query: 'outage', limit: 5 } }
+ * );
+ * // { jql: 'text ~ "outage"', limit: 5 }
+ */
+export function renderStepArguments(step: VirtualToolStep, scope: TemplateScope): Record<string, unknown> {
+  if (!step.arguments) {
+    return scope.input;
+  }
+  return renderTemplate(step.arguments, scope) as Record<string, unknown>;
+}
+
+/**
+ * Create the in-process MCP server that executes the virtual tools
+ *
+ * @param virtualTools - Virtual tools from the config, keyed by name
+ * @param router - Client that routes step calls to the aggregated tools
+ * @returns MCP Server serving the unprefixed virtual tools
+ */
+export function createVirtualToolsServer(
+  virtualTools: Record<string, VirtualToolConfig>,
+  router: Client
+): Server {
+  const server = new Server(
+    { name: 'mcp-aggregator-virtual-tools', version: '1.0.0' },
+    { capabilities: { tools: {} } }
+  );
+  const schemas = toVirtualToolSchemas(virtualTools);
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: schemas }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    if (!Object.hasOwn(virtualTools, name)) {
+      throw new McpError(ErrorCode.MethodNotFound, `Tool not found: ${name}`);
+    }
+    const virtualTool = virtualTools[name]!;
+
+    const callStep = async (step: VirtualToolStep, scope: TemplateScope): Promise<CallToolResult> =>
+      await router.callTool(
+        { name: step.tool, arguments: renderStepArguments(step, scope) },
+        undefined,
+        { signal: extra.signal, timeout: MAX_TIMER_DELAY_MS }
+      ) as CallToolResult;
+
+    const input = args ?? {};
+    return virtualTool.mode === 'fanOut'
+      ? runFanOut(virtualTool.steps, callStep, input)
+      : runChain(virtualTool.steps, callStep, input, extra.signal);
+  });
+
+  return server;
+}
+
+/**
+ * Serve the virtual tools and add them to the registry
+ *
+ * Steps calling tools that are not registered yet are logged as warnings;
+ * they may appear later (e.g., a server that failed to start is retried).
+ *
+ * @param virtualTools - Virtual tools from the config, keyed by name
+ * @param registry - Tool registry to route steps through and add the virtual tools to
+ * @param options - Separator and the options of the step router
+ * @returns Client connected to the in-process virtual tools server
+ * @throws Error if a virtual tool's name is taken under the "error" collision strategy
+ *
+ * @example
+ * await connectVirtualTools(config.virtualTools, registry, { separator: ':' });
+ * // registry now contains search_everywhere, ...
+ */
+export async function connectVirtualTools(
+  virtualTools: Record<string, VirtualToolConfig>,
+  registry: ToolRegistry,
+  options: VirtualToolsOptions = {}
+): Promise<Client> {
+  const separator = options.separator ?? ':';
+
+  for (const [toolName, { steps }] of Object.entries(virtualTools)) {
+    for (const { tool } of steps) {
+      if (!registry.has(tool)) {
+        logWarn(`[WARN] Virtual tool '${toolName}' calls '${tool}', which is not registered`);
+      }
+    }
+  }
+
+  // Steps go through a tools/call handler of their own over the same registry
+  const router = new Server(
+    { name: 'mcp-aggregator-virtual-router', version: '1.0.0' },
+    { capabilities: { tools: {} } }
+  );
+  setupToolCallHandler(router, registry, separator, options.handlerOptions);
+  const routerClient = await connectInMemory(router, 'mcp-aggregator-virtual-router-client');
+
+  const client = await connectInMemory(
+    createVirtualToolsServer(virtualTools, routerClient),
+    'mcp-aggregator-virtual-tools-client'
+  );
+
+  // Per-tool timeouts are applied like a server's `tools` overrides
+  const tools: Record<string, ToolOverride> = {};
+  for (const [toolName, { callTimeoutMs }] of Object.entries(virtualTools)) {
+    if (callTimeoutMs !== undefined) {
+      tools[toolName] = { callTimeoutMs };
+    }
+  }
+
+  const collisions: ToolNameCollision[] = [];
+  addServerTools(
+    registry,
+    VIRTUAL_TOOLS_SERVER_KEY,
+    client,
+    toVirtualToolSchemas(virtualTools),
+    separator,
+    { prefix: false, tools },
+    collisions
+  );
+  if (collisions.length > 0 && getToolCollisionStrategy() === 'error') {
+    throw new Error(
+      `Tool name collisions: ${formatToolNameCollisions(collisions)}. Rename the virtual tool, or choose another --collision-strategy.`
+    );
+  }
+
+  return client;
+}
+
+/**
+ * Call every step in parallel and merge their content in step order
+ *
+ * A failed step contributes a text item describing the failure; the result
+ * is only marked as an error if every step failed.
+ */
+async function runFanOut(
+  steps: VirtualToolStep[],
+  callStep: (step: VirtualToolStep, scope: TemplateScope) => Promise<CallToolResult>,
+  input: Record<string, unknown>
+): Promise<CallToolResult> {
+  const outcomes = await Promise.allSettled(steps.map(step => callStep(step, { input })));
+
+  const content: CallToolResult['content'] = [];
+  let failures = 0;
+  outcomes.forEach((outcome, index) => {
+    if (outcome.status === 'fulfilled' && outcome.value.isError !== true) {
+      content.push(...outcome.value.content);
+      return;
+    }
+    failures++;
+    const reason = outcome.status === 'fulfilled' ? getText(outcome.value) : getErrorMessage(outcome.reason);
+    content.push({ type: 'text', text: `Step '${steps[index]!.tool}' failed: ${reason}` });
+  });
+
+  return failures === steps.length ? { content, isError: true } : { content };
+}
+
+/**
+ * Call the steps in sequence, each with access to the previous step's output
+ *
+ * Stops at the first failed step and returns an error result naming it;
+ * otherwise returns the last step's result.
+ */
+async function runChain(
+  steps: VirtualToolStep[],
+  callStep: (step: VirtualToolStep, scope: TemplateScope) => Promise<CallToolResult>,
+  input: Record<string, unknown>,
+  signal: AbortSignal
+): Promise<CallToolResult> {
+  let result: CallToolResult | undefined;
+
+  for (const [index, step] of steps.entries()) {
+    const scope: TemplateScope = result ? { input, previous: toPreviousScope(result) } : { input };
+    const failure = `Step ${index + 1} ('${step.tool}') failed`;
+
+    try {
+      result = await callStep(step, scope);
+    } catch (error) {
+      // A cancelled virtual tool call is not a step failure
+      if (signal.aborted) {
+        throw error;
+      }
+      return { content: [{ type: 'text', text: `${failure}: ${getErrorMessage(error)}` }], isError: true };
+    }
+
+    if (result.isError === true) {
+      return { content: [{ type: 'text', text: `${failure}:` }, ...result.content], isError: true };
+    }
+  }
+
+  return result!;
+}
+
+/**
+ * Expose a step's result to the placeholders of the next step
+ */
+function toPreviousScope(result: CallToolResult): NonNullable<TemplateScope['previous']> {
+  const text = getText(result);
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    json = undefined;
+  }
+  return { text, json, structuredContent: result.structuredContent };
+}
+
+/**
+ * Replace placeholders in strings, recursing into arrays and objects
+ */
+function renderTemplate(value: unknown, scope: TemplateScope): unknown {
+  if (typeof value === 'string') {
+    const whole = /^\{\{\s*([^{}]*?)\s*\}\}$/.exec(value);
+    if (whole) {
+      return resolvePlaceholder(whole[1]!, scope);
+    }
+    return value.replace(PLACEHOLDER, (_match, path: string) => {
+      const resolved = resolvePlaceholder(path, scope);
+      if (resolved === undefined) return '';
+      return typeof resolved === 'string' ? resolved : JSON.stringify(resolved);
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => renderTemplate(item, scope));
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const rendered: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const resolved = renderTemplate(item, scope);
+      if (resolved !== undefined) {
+        rendered[key] = resolved;
+      }
+    }
+    return rendered;
+  }
+
+  return value;
+}
+
+/**
+ * Look up a dot-separated placeholder path, e.g. "input.query" or "previous.json.items.0.id"
+ */
+function resolvePlaceholder(path: string, scope: TemplateScope): unknown {
+  let value: unknown = scope;
+  for (const segment of path.split('.')) {
+    if (typeof value !== 'object' || value === null || !Object.hasOwn(value, segment)) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+/**
+ * Join the text content items of a tool result
+ */
+function getText(result: CallToolResult): string {
+  return result.content
+    .filter((item): item is { type: 'text'; text: string } => item.type === 'text')
+    .map(item => item.text)
+    .join('\n');
+}
+
+/**
+ * Message of a thrown value
+ */
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Connect an in-process server to a new client over an in-memory transport
+ */
+async function connectInMemory(server: Server, clientName: string): Promise<Client> {
+  const client = new Client({ name: clientName, version: '1.0.0' }, { capabilities: {} });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
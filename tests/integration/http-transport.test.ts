@@ -0,0 +1,192 @@
+import { request } from 'node:http';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolRegistry } from '../../src/types.js';
+import { addServerTools } from '../../src/registry.js';
+import { createAggregatorServer, setupToolCallHandler, DEFAULT_CALL_TIMEOUT_MS } from '../../src/server.js';
+import { startHttpServer, MAX_HTTP_BODY_SIZE } from '../../src/http-server.js';
+import type { HttpAggregatorServer } from '../../src/http-server.js';
+import { createToolListChangedNotifier } from '../../src/notifications.js';
+
+/**
+ * Integration tests for the HTTP downstream transport
+ *
+ * Several MCP clients connect to one aggregator over Streamable HTTP and
+ * HTTP+SSE and share the same registry and child connections.
+ */
+
+describe('HTTP Transport', () => {
+  let registry: ToolRegistry;
+  let child: Client;
+  let http: HttpAggregatorServer;
+  const upstreams: Client[] = [];
+
+  const connect = async (kind: 'streamable' | 'sse'): Promise<Client> => {
+    const client = new Client({ name: `test-${kind}`, version: '1.0.0' }, { capabilities: {} });
+    const transport = kind === 'streamable'
+      ? new StreamableHTTPClientTransport(new URL(`${http.url}/mcp`))
+      : new SSEClientTransport(new URL(`${http.url}/sse`));
+    await client.connect(transport);
+    upstreams.push(client);
+    return client;
+  };
+
+  beforeEach(async () => {
+    child = {
+      callTool: vi.fn().mockResolvedValue({ content: [{ type: 'text', text: 'rows: 1' }] })
+    } as unknown as Client;
+    registry = new Map();
+    addServerTools(registry, 'postgres', child, [
+      { name: 'query', description: 'Run SQL', inputSchema: { type: 'object' } }
+    ]);
+
+    http = await startHttpServer(() => {
+      const server = createAggregatorServer(new Map(), registry);
+      setupToolCallHandler(server, registry, ':');
+      return server;
+    }, { port: 0 });
+  });
+
+  afterEach(async () => {
+    await Promise.all(upstreams.splice(0).map((client) => client.close()));
+    await http.close();
+  });
+
+  it('should serve tools over Streamable HTTP', async () => {
+    const client = await connect('streamable');
+
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual(['postgres:query']);
+
+    const result = await client.callTool({ name: 'postgres:query', arguments: { sql: 'select 1' } });
+    expect(result.content).toEqual([{ type: 'text', text: 'rows: 1' }]);
+    expect(child.callTool).toHaveBeenCalledWith(
+      { name: 'query', arguments: { sql: 'select 1' } },
+      undefined,
+      expect.objectContaining({ timeout: DEFAULT_CALL_TIMEOUT_MS })
+    );
+  });
+
+  it('should serve tools over HTTP+SSE', async () => {
+    const client = await connect('sse');
+
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual(['postgres:query']);
+  });
+
+  it('should share children across concurrent sessions and notify each of them', async () => {
+    const first = await connect('streamable');
+    const second = await connect('sse');
+    expect(http.servers.size).toBe(2);
+
+    const notified = [first, second].map((client) => new Promise<void>((resolve) => {
+      client.setNotificationHandler(ToolListChangedNotificationSchema, async () => resolve());
+    }));
+
+    addServerTools(registry, 'postgres', child, [
+      { name: 'explain', inputSchema: { type: 'object' } }
+    ]);
+    createToolListChangedNotifier(http.servers, 1).notify();
+    await Promise.all(notified);
+
+    for (const client of [first, second]) {
+      const { tools } = await client.listTools();
+      expect(tools.map((tool) => tool.name)).toEqual(['postgres:query', 'postgres:explain']);
+    }
+  });
+
+  it('should drop a session when its client disconnects', async () => {
+    const client = await connect('sse');
+    expect(http.servers.size).toBe(1);
+
+    await client.close();
+    await vi.waitFor(() => expect(http.servers.size).toBe(0));
+  });
+
+  it('should reject unknown sessions and paths', async () => {
+    const noSession = await fetch(`${http.url}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+    expect(noSession.status).toBe(400);
+
+    const badJson = await fetch(`${http.url}/mcp`, { method: 'POST', body: '{' });
+    expect(badJson.status).toBe(400);
+    expect((await badJson.json()).error.code).toBe(-32700);
+
+    const notFound = await fetch(`${http.url}/nope`);
+    expect(notFound.status).toBe(404);
+  });
+
+  it('should reject request bodies larger than the limit with 413', async () => {
+    const { port } = new URL(http.url);
+    // Chunked, so the limit is enforced while reading rather than from Content-Length
+    const response = await new Promise<{ status: number | undefined; body: string }>((resolve, reject) => {
+      const req = request({ host: '127.0.0.1', port, path: '/mcp', method: 'POST' }, (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => resolve({ status: res.statusCode, body: Buffer.concat(chunks).toString('utf-8') }));
+      });
+      req.on('error', reject);
+      const chunk = Buffer.alloc(64 * 1024, ' ');
+      for (let written = 0; written <= MAX_HTTP_BODY_SIZE; written += chunk.length) {
+        req.write(chunk);
+      }
+      req.end();
+    });
+
+    expect(response.status).toBe(413);
+    expect(JSON.parse(response.body)).toMatchObject({ jsonrpc: '2.0', error: { code: -32000 }, id: null });
+
+    const declared = await fetch(`${http.url}/mcp`, {
+      method: 'POST',
+      body: ' '.repeat(MAX_HTTP_BODY_SIZE + 1)
+    });
+    expect(declared.status).toBe(413);
+  });
+
+  describe('DNS rebinding protection', () => {
+    const initialize = (headers: Record<string, string>) => fetch(`${http.url}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'browser', version: '1.0.0' } }
+      })
+    });
+
+    it('should reject a foreign Origin with 403 on every endpoint', async () => {
+      const streamable = await initialize({ Origin: 'http://evil.example' });
+      expect(streamable.status).toBe(403);
+      expect((await streamable.json()).error.message).toContain('Invalid Origin header: http://evil.example');
+
+      const sse = await fetch(`${http.url}/sse`, { headers: { Origin: 'http://evil.example' } });
+      expect(sse.status).toBe(403);
+      expect(http.servers.size).toBe(0);
+    });
+
+    it('should reject a Host header naming another host', async () => {
+      const { port } = new URL(http.url);
+      const status = await new Promise<number | undefined>((resolve, reject) => {
+        request({ host: '127.0.0.1', port, path: '/sse', headers: { Host: `evil.example:${port}` } }, (res) => {
+          res.resume();
+          resolve(res.statusCode);
+        }).on('error', reject).end();
+      });
+      expect(status).toBe(403);
+    });
+
+    it('should accept the bind host and loopback origins', async () => {
+      const { port } = new URL(http.url);
+
+      expect((await initialize({ Origin: http.url })).status).toBe(200);
+      expect((await initialize({ Origin: `http://localhost:${port}` })).status).toBe(200);
+    });
+  });
+});
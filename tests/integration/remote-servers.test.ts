@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { ChildServerClient, McpConfig } from '../../src/types.js';
+import { ServerStatus, ChildServerError, ErrorPhase } from '../../src/types.js';
+import { initializeChildren, getServerStatuses, shutdownAllChildren } from '../../src/child-manager.js';
+import { buildToolRegistry } from '../../src/registry.js';
+import { startHttpServer } from '../../src/http-server.js';
+import type { HttpAggregatorServer } from '../../src/http-server.js';
+
+/**
+ * Integration tests for remote child servers
+ *
+ * An in-process MCP server served over Streamable HTTP and HTTP+SSE stands in
+ * for an already-running remote server; the aggregator connects to it by url
+ * alongside the usual local config and builds one registry from both.
+ */
+
+/**
+ * Create a stand-in remote server whose `whoami` tool echoes the
+ * Authorization header it received
+ */
+function createRemoteServer(): Server {
+  const server = new Server({ name: 'remote-standin', version: '1.0.0' }, { capabilities: { tools: {} } });
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [
+      { name: 'whoami', description: 'Echo the Authorization header', inputSchema: { type: 'object' } },
+      { name: 'search', description: 'Search the index', inputSchema: { type: 'object' } }
+    ]
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => ({
+    content: [{
+      type: 'text',
+      text: request.params.name === 'whoami'
+        ? String(extra.requestInfo?.headers['authorization'] ?? 'anonymous')
+        : 'results: 3'
+    }]
+  }));
+
+  return server;
+}
+
+describe('Remote Child Servers', () => {
+  let remote: HttpAggregatorServer;
+  let children: Map<string, ChildServerClient> | undefined;
+
+  beforeEach(async () => {
+    remote = await startHttpServer(createRemoteServer, { port: 0 });
+  });
+
+  afterEach(async () => {
+    if (children) {
+      await shutdownAllChildren(children);
+      children = undefined;
+    }
+    await remote.close();
+  });
+
+  it('should connect over Streamable HTTP and SSE and send configured headers', async () => {
+    const config: McpConfig = {
+      mcpServers: {
+        streamable: {
+          url: `${remote.url}/mcp`,
+          headers: { Authorization: 'Bearer streamable-token' }
+        },
+        sse: {
+          url: `${remote.url}/sse`,
+          transport: 'sse',
+          headers: { Authorization: 'Bearer sse-token' }
+        }
+      }
+    };
+
+    children = await initializeChildren(config);
+
+    expect(children.get('streamable')?.status).toBe(ServerStatus.RUNNING);
+    expect(children.get('sse')?.status).toBe(ServerStatus.RUNNING);
+
+    for (const [serverKey, token] of [['streamable', 'streamable-token'], ['sse', 'sse-token']]) {
+      const result = await children.get(serverKey!)!.client.callTool({ name: 'whoami', arguments: {} });
+      expect(result.content).toEqual([{ type: 'text', text: `Bearer ${token}` }]);
+    }
+  });
+
+  it('should build one registry from remote servers with filters and overrides applied', async () => {
+    const config: McpConfig = {
+      mcpServers: {
+        search: {
+          url: `${remote.url}/mcp`,
+          excludeTools: ['whoami'],
+          tools: { search: { name: 'find' } }
+        }
+      }
+    };
+
+    children = await initializeChildren(config);
+    const clients = new Map(Array.from(children, ([serverKey, child]) => [serverKey, child.client]));
+    const registry = await buildToolRegistry(clients, ':', config.mcpServers);
+
+    expect(Array.from(registry.keys())).toEqual(['search:find']);
+    const entry = registry.get('search:find')!;
+    const result = await entry.client.callTool({ name: entry.originalName, arguments: {} });
+    expect(result.content).toEqual([{ type: 'text', text: 'results: 3' }]);
+  });
+
+  it('should record an unreachable remote server as FAILED (bestEffort)', async () => {
+    const closed = await startHttpServer(createRemoteServer, { port: 0 });
+    await closed.close();
+
+    children = await initializeChildren(
+      {
+        mcpServers: {
+          reachable: { url: `${remote.url}/mcp` },
+          unreachable: { url: `${closed.url}/mcp`, startupTimeoutMs: 5000 }
+        }
+      },
+      { mode: 'bestEffort' }
+    );
+
+    const statuses = getServerStatuses(children);
+    expect(statuses.map((s) => [s.serverKey, s.status])).toEqual([
+      ['reachable', ServerStatus.RUNNING],
+      ['unreachable', ServerStatus.FAILED]
+    ]);
+
+    const error = children.get('unreachable')?.error as ChildServerError;
+    expect(error).toBeInstanceOf(ChildServerError);
+    expect(error.phase).toBe(ErrorPhase.STARTUP);
+    expect(error.message).toContain(`curl -i ${closed.url}/mcp`);
+  });
+});
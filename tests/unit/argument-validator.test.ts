@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { JSONSchema, ToolRegistry } from '../../src/types.js';
+import { addServerTools } from '../../src/registry.js';
+import { createAggregatorServer, setupToolCallHandler } from '../../src/server.js';
+import { validateArguments, formatArgumentErrors } from '../../src/argument-validator.js';
+
+/**
+ * Test Suite: Argument Validation
+ *
+ * Covers validation of tool call arguments against the tool's inputSchema
+ * and the uniform InvalidParams error returned before a call is forwarded.
+ */
+
+const searchSchema = {
+  type: 'object',
+  properties: {
+    query: { type: 'string', minLength: 1 },
+    limit: { type: 'integer', minimum: 1, maximum: 100 },
+    sort: { enum: ['relevance', 'date'] },
+    filters: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { field: { type: 'string' }, value: { type: ['string', 'number'] } },
+        required: ['field'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['query']
+} as JSONSchema;
+
+describe('Argument Validation', () => {
+  describe('validateArguments', () => {
+    it('should accept valid arguments', () => {
+      expect(validateArguments(searchSchema, {
+        query: 'mcp',
+        limit: 10,
+        sort: 'date',
+        filters: [{ field: 'year', value: 2024 }]
+      })).toEqual([]);
+    });
+
+    it('should report every failing path', () => {
+      const errors = validateArguments(searchSchema, {
+        limit: 0,
+        sort: 'stars',
+        filters: [{ value: true, op: 'eq' }]
+      });
+
+      expect(errors).toEqual([
+        { path: '$.query', message: 'is required' },
+        { path: '$.limit', message: 'must be >= 1' },
+        { path: '$.sort', message: 'must be one of: "relevance", "date"' },
+        { path: '$.filters[0].field', message: 'is required' },
+        { path: '$.filters[0].value', message: 'must be a string or a number' },
+        { path: '$.filters[0].op', message: 'is not a known property' }
+      ]);
+    });
+
+    it('should report type mismatches once per value', () => {
+      expect(validateArguments(searchSchema, { query: 42, limit: 1.5 })).toEqual([
+        { path: '$.query', message: 'must be a string' },
+        { path: '$.limit', message: 'must be an integer' }
+      ]);
+    });
+
+    it('should resolve local $ref and check combinators', () => {
+      const schema = {
+        type: 'object',
+        $defs: { id: { type: 'string', pattern: '^[a-z]+-\\d+$' } },
+        properties: {
+          id: { $ref: '#/$defs/id' },
+          target: { oneOf: [{ type: 'string' }, { type: 'integer' }] }
+        }
+      } as JSONSchema;
+
+      expect(validateArguments(schema, { id: 'abc-1', target: 3 })).toEqual([]);
+      expect(validateArguments(schema, { id: 'ABC', target: false })).toEqual([
+        { path: '$.id', message: 'must match pattern ^[a-z]+-\\d+$' },
+        { path: '$.target', message: 'must match one of the allowed schemas (oneOf)' }
+      ]);
+    });
+
+    it('should ignore keywords it does not understand', () => {
+      const schema = {
+        type: 'object',
+        properties: { email: { type: 'string', format: 'email' } }
+      } as JSONSchema;
+
+      expect(validateArguments(schema, { email: 'not an email' })).toEqual([]);
+    });
+
+    it('should stop at self-referencing schemas', () => {
+      expect(validateArguments({ $ref: '#' } as unknown as JSONSchema, {})).toEqual([]);
+    });
+
+    it('should format errors as path: message pairs', () => {
+      expect(formatArgumentErrors([
+        { path: '$.query', message: 'is required' },
+        { path: '$.limit', message: 'must be >= 1' }
+      ])).toBe('$.query: is required; $.limit: must be >= 1');
+    });
+  });
+
+  describe('tools/call', () => {
+    const connect = async (): Promise<{ upstream: Client; child: { callTool: ReturnType<typeof vi.fn> } }> => {
+      const child = { callTool: vi.fn().mockResolvedValue({ content: [{ type: 'text', text: 'ok' }] }) };
+      const registry: ToolRegistry = new Map();
+      addServerTools(registry, 'search', child as unknown as Client, [{ name: 'search', inputSchema: searchSchema }]);
+
+      const server = createAggregatorServer(new Map(), registry);
+      setupToolCallHandler(server, registry, ':');
+      const upstream = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: {} });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([server.connect(serverTransport), upstream.connect(clientTransport)]);
+      return { upstream, child };
+    };
+
+    it('should reject invalid arguments with InvalidParams without forwarding', async () => {
+      const { upstream, child } = await connect();
+
+      const error = await upstream.callTool({ name: 'search:search', arguments: { limit: 'ten' } })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(McpError);
+      expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+      expect((error as McpError).message).toContain(
+        "Invalid arguments for tool 'search:search': $.query: is required; $.limit: must be an integer"
+      );
+      expect((error as McpError).data).toEqual({
+        errors: [
+          { path: '$.query', message: 'is required' },
+          { path: '$.limit', message: 'must be an integer' }
+        ]
+      });
+      expect(child.callTool).not.toHaveBeenCalled();
+
+      await upstream.close();
+    });
+
+    it('should forward valid arguments', async () => {
+      const { upstream, child } = await connect();
+
+      await upstream.callTool({ name: 'search:search', arguments: { query: 'mcp' } });
+
+      expect(child.callTool).toHaveBeenCalledTimes(1);
+
+      await upstream.close();
+    });
+  });
+});
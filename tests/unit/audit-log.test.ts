@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { ToolRegistry } from '../../src/types.js';
+import { addServerTools } from '../../src/registry.js';
+import { createAggregatorServer, setupToolCallHandler } from '../../src/server.js';
+import { openAuditLog, createAuditRecord, redactArguments, REDACTED } from '../../src/audit-log.js';
+import type { AuditLog } from '../../src/audit-log.js';
+
+/**
+ * Test Suite: Audit Log
+ *
+ * Covers argument redaction, audit record contents and the records appended
+ * by the tools/call handler for successful, failed and rejected calls.
+ */
+
+describe('Audit Log', () => {
+  describe('redactArguments', () => {
+    const args = {
+      user: 'ann',
+      auth: { token: 'abc', scheme: 'bearer' },
+      items: [{ id: 1, secret: 's1' }, { id: 2, secret: 's2' }]
+    };
+
+    it('should redact nested and wildcard paths without modifying the arguments', () => {
+      expect(redactArguments(args, ['auth.token', 'items.*.secret', 'missing.path'])).toEqual({
+        user: 'ann',
+        auth: { token: REDACTED, scheme: 'bearer' },
+        items: [{ id: 1, secret: REDACTED }, { id: 2, secret: REDACTED }]
+      });
+      expect(args.auth.token).toBe('abc');
+    });
+
+    it('should redact every top-level argument with *', () => {
+      expect(redactArguments(args, ['*'])).toEqual({ user: REDACTED, auth: REDACTED, items: REDACTED });
+    });
+  });
+
+  describe('createAuditRecord', () => {
+    it('should digest arguments independently of key order', () => {
+      const first = createAuditRecord({ tool: 'a:b', args: { x: 1, y: 2 }, durationMs: 1, result: {} });
+      const second = createAuditRecord({ tool: 'a:b', args: { y: 2, x: 1 }, durationMs: 1, result: {} });
+
+      expect(first.argumentsDigest).toMatch(/^sha256:[0-9a-f]{64}$/);
+      expect(first.argumentsDigest).toBe(second.argumentsDigest);
+    });
+
+    it('should record the forwarded arguments with pinned and default arguments, redacted', () => {
+      const entry = {
+        client: {} as Client,
+        serverKey: 'github',
+        originalName: 'search_issues',
+        schema: { name: 'github:search_issues', inputSchema: { type: 'object' as const } },
+        redactArguments: ['token'],
+        pinnedArguments: { repo: 'our-org/main', token: 'pinned-secret' },
+        defaultArguments: { limit: 50 }
+      };
+
+      const record = createAuditRecord({
+        tool: 'github:search_issues',
+        entry,
+        args: { query: 'is:open', repo: 'other/repo' },
+        durationMs: 1,
+        result: {}
+      });
+
+      expect(record.arguments).toEqual({ limit: 50, query: 'is:open', repo: 'our-org/main', token: REDACTED });
+      expect(record.argumentsDigest).toBe(createAuditRecord({
+        tool: 'github:search_issues',
+        args: { limit: 50, query: 'is:open', repo: 'our-org/main', token: 'pinned-secret' },
+        durationMs: 1,
+        result: {}
+      }).argumentsDigest);
+    });
+
+    it('should record isError results with their text as the error', () => {
+      const record = createAuditRecord({
+        tool: 'a:b',
+        args: {},
+        durationMs: 1,
+        result: { isError: true, content: [{ type: 'text', text: 'File not found' }] }
+      });
+
+      expect(record).toMatchObject({ success: false, isError: true, error: 'File not found' });
+    });
+  });
+
+  describe('tools/call', () => {
+    let dir: string;
+    let auditPath: string;
+    let audit: AuditLog;
+    let upstream: Client;
+
+    const child = {
+      callTool: vi.fn()
+    };
+
+    const readRecords = async (): Promise<any[]> =>
+      (await readFile(auditPath, 'utf-8')).trim().split('\n').map((line) => JSON.parse(line));
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'mcp-aggregator-audit-'));
+      auditPath = join(dir, 'audit.jsonl');
+      audit = openAuditLog(auditPath);
+      child.callTool.mockReset().mockResolvedValue({ content: [{ type: 'text', text: 'ok' }] });
+
+      const registry: ToolRegistry = new Map();
+      addServerTools(registry, 'crm', child as unknown as Client, [{
+        name: 'create_contact',
+        inputSchema: {
+          type: 'object',
+          properties: { name: { type: 'string' }, apiKey: { type: 'string' } },
+          required: ['name']
+        }
+      }], ':', {
+        command: 'node',
+        redactArguments: ['apiKey'],
+        tools: { create_contact: { aliases: ['add'], redactArguments: ['name'] } }
+      });
+
+      const server = createAggregatorServer(new Map(), registry);
+      setupToolCallHandler(server, registry, ':', { audit });
+      upstream = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: {} });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([server.connect(serverTransport), upstream.connect(clientTransport)]);
+    });
+
+    afterEach(async () => {
+      await upstream.close();
+      audit.close();
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should record a successful call with server and per-tool redaction', async () => {
+      await upstream.callTool({ name: 'crm:add', arguments: { name: 'Ann', apiKey: 'secret' } });
+
+      const [record] = await readRecords();
+      expect(record).toEqual({
+        timestamp: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+        requestId: expect.any(Number),
+        tool: 'crm:add',
+        originalName: 'create_contact',
+        serverKey: 'crm',
+        arguments: { name: REDACTED, apiKey: REDACTED },
+        argumentsDigest: expect.stringMatching(/^sha256:/),
+        durationMs: expect.any(Number),
+        success: true,
+        isError: false
+      });
+      expect(JSON.stringify(record)).not.toContain('secret');
+    });
+
+    it('should record failed, rejected and unknown calls', async () => {
+      child.callTool.mockRejectedValueOnce(new Error('connection reset'));
+
+      await expect(upstream.callTool({ name: 'crm:create_contact', arguments: { name: 'Ann' } })).rejects.toThrow();
+      await expect(upstream.callTool({ name: 'crm:create_contact', arguments: {} })).rejects.toThrow();
+      await expect(upstream.callTool({ name: 'crm:delete_all', arguments: { confirm: true } })).rejects.toThrow();
+
+      const records = await readRecords();
+      expect(records.map((r) => [r.tool, r.success, r.error])).toEqual([
+        ['crm:create_contact', false, expect.stringContaining('connection reset')],
+        ['crm:create_contact', false, expect.stringContaining("Invalid arguments for tool 'crm:create_contact'")],
+        ['crm:delete_all', false, expect.stringContaining('Tool not found: crm:delete_all')]
+      ]);
+      expect(records[2]).not.toHaveProperty('serverKey');
+      expect(records[2].arguments).toEqual({ confirm: true });
+    });
+  });
+});
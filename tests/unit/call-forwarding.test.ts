@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ErrorCode,
+  McpError
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Progress } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolRegistry, ServerConfig } from '../../src/types.js';
+import { addServerTools } from '../../src/registry.js';
+import { createAggregatorServer, setupToolCallHandler, DEFAULT_CALL_TIMEOUT_MS } from '../../src/server.js';
+
+/**
+ * Test Suite: Call Forwarding
+ *
+ * Covers per-call timeouts, propagation of upstream cancellation to the
+ * owning child, and relaying of child progress notifications back to the
+ * caller with the caller's progress token.
+ */
+
+/**
+ * In-memory child with a `build` tool that reports progress until it is
+ * released or aborted, and records whether it saw a cancellation
+ */
+async function createChild(): Promise<{ client: Client; aborted: Promise<void>; release: () => void }> {
+  const server = new Server({ name: 'child', version: '1.0.0' }, { capabilities: { tools: {} } });
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => { release = resolve; });
+  let markAborted!: () => void;
+  const aborted = new Promise<void>((resolve) => { markAborted = resolve; });
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: 'build', inputSchema: { type: 'object' } }]
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    extra.signal.addEventListener('abort', () => markAborted());
+
+    const progressToken = request.params._meta?.progressToken;
+    if (progressToken !== undefined) {
+      for (const progress of [1, 2]) {
+        await extra.sendNotification({
+          method: 'notifications/progress',
+          params: { progressToken, progress, total: 2, message: `step ${progress}` }
+        });
+      }
+    }
+
+    await Promise.race([released, aborted]);
+    return { content: [{ type: 'text', text: 'built' }] };
+  });
+
+  const client = new Client({ name: 'aggregator', version: '1.0.0' }, { capabilities: {} });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  return { client, aborted, release };
+}
+
+describe('Call Forwarding', () => {
+  let child: Awaited<ReturnType<typeof createChild>>;
+  let upstream: Client;
+
+  const connectUpstream = async (serverConfig: ServerConfig, defaultTimeoutMs?: number): Promise<void> => {
+    const registry: ToolRegistry = new Map();
+    addServerTools(registry, 'ci', child.client, [{ name: 'build', inputSchema: { type: 'object' } }], ':', serverConfig);
+
+    const server = createAggregatorServer(new Map(), registry);
+    setupToolCallHandler(server, registry, ':', { callTimeoutMs: defaultTimeoutMs ?? DEFAULT_CALL_TIMEOUT_MS });
+    upstream = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: {} });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), upstream.connect(clientTransport)]);
+  };
+
+  beforeEach(async () => {
+    child = await createChild();
+  });
+
+  afterEach(async () => {
+    child.release();
+    await upstream.close();
+    await child.client.close();
+  });
+
+  it('should relay child progress with the caller\'s progress token', async () => {
+    await connectUpstream({ command: 'node' });
+    const received: Progress[] = [];
+
+    const call = upstream.callTool({ name: 'ci:build', arguments: {} }, undefined, {
+      onprogress: (progress) => {
+        received.push(progress);
+        if (received.length === 2) child.release();
+      }
+    });
+
+    expect((await call).content).toEqual([{ type: 'text', text: 'built' }]);
+    expect(received).toEqual([
+      { progress: 1, total: 2, message: 'step 1' },
+      { progress: 2, total: 2, message: 'step 2' }
+    ]);
+  });
+
+  it('should forward upstream cancellation to the child', async () => {
+    await connectUpstream({ command: 'node' });
+    const controller = new AbortController();
+
+    const call = upstream.callTool({ name: 'ci:build', arguments: {} }, undefined, {
+      signal: controller.signal
+    });
+    setTimeout(() => controller.abort('user cancelled'), 20);
+
+    await expect(call).rejects.toThrow();
+    await child.aborted;
+  });
+
+  it('should time out with the per-tool callTimeoutMs and cancel the child', async () => {
+    await connectUpstream({ command: 'node', callTimeoutMs: 60000, tools: { build: { callTimeoutMs: 30 } } });
+
+    const error = await upstream.callTool({ name: 'ci:build', arguments: {} }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(McpError);
+    expect((error as McpError).code).toBe(ErrorCode.RequestTimeout);
+    expect((error as McpError).message).toContain("Tool 'ci:build' timed out after 30ms");
+    await child.aborted;
+  });
+
+  it('should fall back to the server\'s callTimeoutMs', async () => {
+    await connectUpstream({ command: 'node', callTimeoutMs: 30 }, 60000);
+
+    await expect(upstream.callTool({ name: 'ci:build', arguments: {} }))
+      .rejects.toThrow(/timed out after 30ms/);
+  });
+
+  it('should fall back to the default timeout', async () => {
+    await connectUpstream({ command: 'node' }, 40);
+
+    await expect(upstream.callTool({ name: 'ci:build', arguments: {} }))
+      .rejects.toThrow(/timed out after 40ms/);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { PassThrough } from 'stream';
+import { mkdtemp, mkdir, rm, readFile, readdir } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { captureChildStderr, formatStderrTail, setChildLogDir } from '../../src/child-stderr.js';
+import { connectToChild } from '../../src/child-manager.js';
+import { setLogFile, setLogLevel, resetLogger } from '../../src/logger.js';
+import { ChildServerError, ErrorPhase } from '../../src/types.js';
+
+/**
+ * Test Suite: Child Stderr Capture
+ *
+ * Covers routing child stderr through the logger or per-child log files and
+ * attaching the last lines to the ChildServerError of a failed start.
+ */
+
+describe('Child Stderr Capture', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'mcp-aggregator-stderr-'));
+  });
+
+  afterEach(async () => {
+    resetLogger();
+    setChildLogDir(null);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should write each line through the logger tagged with the server key', async () => {
+    const logPath = join(dir, 'aggregator.log');
+    setLogLevel('info');
+    setLogFile(logPath);
+    const stream = new PassThrough();
+
+    const capture = captureChildStderr('filesystem', stream);
+    stream.write('Starting server\nListening on st');
+    stream.end('dio\n');
+    await capture.ended;
+    resetLogger();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const content = await readFile(logPath, 'utf-8');
+    expect(content).toContain('[INFO] [filesystem] Starting server serverKey=filesystem stream=stderr');
+    expect(content).toContain('[INFO] [filesystem] Listening on stdio serverKey=filesystem stream=stderr');
+  });
+
+  it('should keep only the last lines', async () => {
+    const stream = new PassThrough();
+
+    const capture = captureChildStderr('filesystem', stream, 2);
+    stream.end('one\ntwo\nthree\n');
+    await capture.ended;
+
+    expect(capture.tail).toEqual(['two', 'three']);
+  });
+
+  it('should write to a per-child log file when a child log directory is set', async () => {
+    setChildLogDir(dir);
+    const stream = new PassThrough();
+
+    const capture = captureChildStderr('github', stream);
+    stream.end('rate limited\n');
+    await capture.ended;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(await readFile(join(dir, 'github.log'), 'utf-8'))
+      .toMatch(/^\d{4}-\d{2}-\d{2}T\S+ rate limited\n$/);
+  });
+
+  it('should keep log files of server keys with path characters in the log directory', async () => {
+    setChildLogDir(join(dir, 'children'));
+    await mkdir(join(dir, 'children'));
+    const stream = new PassThrough();
+
+    const capture = captureChildStderr('../escaped', stream);
+    stream.end('hello\n');
+    await capture.ended;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(await readdir(join(dir, 'children'))).toEqual(['.._escaped.log']);
+    expect(await readdir(dir)).toEqual(['children']);
+  });
+
+  it('should format the tail for error messages', () => {
+    expect(formatStderrTail([])).toBe('');
+    expect(formatStderrTail(['Error: missing API_KEY'])).toBe(
+      '\n\nLast 1 line of stderr:\n  Error: missing API_KEY'
+    );
+  });
+
+  it('should attach the last stderr lines to the error of a child that fails to start', async () => {
+    const script = "console.error('Loading config...'); console.error('Error: GITHUB_TOKEN is not set'); process.exit(1)";
+
+    const error = await connectToChild('github', {
+      command: 'node',
+      args: ['-e', script],
+      startupTimeoutMs: 5000
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ChildServerError);
+    expect((error as ChildServerError).phase).toBe(ErrorPhase.STARTUP);
+    expect((error as ChildServerError).stderr).toEqual([
+      'Loading config...',
+      'Error: GITHUB_TOKEN is not set'
+    ]);
+    expect((error as ChildServerError).message).toContain(
+      'Last 2 lines of stderr:\n  Loading config...\n  Error: GITHUB_TOKEN is not set'
+    );
+  });
+});
@@ -1,5 +1,9 @@
 import { describe, it, expect, vi } from 'vitest';
-import { parseCliArgs, validateCliArgs, validateSeparator } from '../../src/index.js';
+import { readFileSync, rmSync } from 'fs';
+import { parseCliArgs, validateCliArgs, validateSeparator, parseStartupPolicy, parseStartupConcurrency, parseCallTimeout, parseTransport, parsePort, parseAllowedHosts,
+  parseLogLevel, parseLogFormat, parseLogMaxSize, parseLogRotate, parseLogMaxFiles, parseOtlpEndpoint,
+  parseToolNamePolicy, parseCollisionStrategy, configureLogging } from '../../src/index.js';
+import { logError, logWarn, logInfo, resetLogger } from '../../src/logger.js';
 
 describe('CLI Argument Parsing', () => {
   describe('T054: Parse --config argument', () => {
@@ -305,4 +309,250 @@ describe('CLI Argument Parsing', () => {
       }
     });
   });
+
+  describe('--startup-policy', () => {
+    it('should parse --startup-policy in both syntaxes', () => {
+      expect(parseCliArgs(['--config', 'c.json', '--startup-policy', 'bestEffort']).startupPolicy)
+        .toBe('bestEffort');
+      expect(parseCliArgs(['--config', 'c.json', '--startup-policy=requireAtLeast:2']).startupPolicy)
+        .toBe('requireAtLeast:2');
+      expect(parseCliArgs(['--config', 'c.json']).startupPolicy).toBeUndefined();
+    });
+
+    it('should parse known policies', () => {
+      expect(parseStartupPolicy('failFast')).toEqual({ mode: 'failFast' });
+      expect(parseStartupPolicy('bestEffort')).toEqual({ mode: 'bestEffort' });
+      expect(parseStartupPolicy('requireAtLeast:3')).toEqual({ mode: 'requireAtLeast', count: 3 });
+    });
+
+    it('should reject unknown policies and invalid counts', () => {
+      expect(() => parseStartupPolicy('lenient')).toThrow(/invalid startup policy/i);
+      expect(() => parseStartupPolicy('requireAtLeast:abc')).toThrow(/invalid startup policy/i);
+      expect(() => parseStartupPolicy('requireAtLeast:0')).toThrow(/at least 1/);
+    });
+  });
+
+  describe('--tool-name-policy', () => {
+    it('should parse --tool-name-policy in both syntaxes', () => {
+      expect(parseCliArgs(['--config', 'c.json', '--tool-name-policy', 'strict']).toolNamePolicy).toBe('strict');
+      expect(parseCliArgs(['--config', 'c.json', '--tool-name-policy=strict:48']).toolNamePolicy).toBe('strict:48');
+    });
+
+    it('should accept preserve, strict and strict:<maxLength>', () => {
+      expect(parseToolNamePolicy('preserve')).toEqual({ mode: 'preserve' });
+      expect(parseToolNamePolicy('strict')).toEqual({ mode: 'strict', maxLength: 64 });
+      expect(parseToolNamePolicy('strict:48')).toEqual({ mode: 'strict', maxLength: 48 });
+      expect(() => parseToolNamePolicy('strict:8')).toThrow(/at least 16/);
+      expect(() => parseToolNamePolicy('ascii')).toThrow(/invalid tool name policy/i);
+    });
+  });
+
+  describe('--collision-strategy', () => {
+    it('should parse --collision-strategy in both syntaxes', () => {
+      expect(parseCliArgs(['--config', 'c.json', '--collision-strategy', 'first-wins']).collisionStrategy)
+        .toBe('first-wins');
+      expect(parseCliArgs(['--config', 'c.json', '--collision-strategy=auto-suffix']).collisionStrategy)
+        .toBe('auto-suffix');
+    });
+
+    it('should accept known strategies only', () => {
+      expect(parseCollisionStrategy('last-wins')).toBe('last-wins');
+      expect(() => parseCollisionStrategy('random')).toThrow(/invalid collision strategy/i);
+    });
+  });
+
+  describe('--startup-concurrency', () => {
+    it('should parse --startup-concurrency in both syntaxes', () => {
+      expect(parseCliArgs(['--config', 'c.json', '--startup-concurrency', '8']).startupConcurrency)
+        .toBe('8');
+      expect(parseCliArgs(['--config', 'c.json', '--startup-concurrency=2']).startupConcurrency)
+        .toBe('2');
+    });
+
+    it('should accept positive integers only', () => {
+      expect(parseStartupConcurrency('8')).toBe(8);
+      expect(() => parseStartupConcurrency('0')).toThrow(/invalid startup concurrency/i);
+      expect(() => parseStartupConcurrency('1.5')).toThrow(/invalid startup concurrency/i);
+      expect(() => parseStartupConcurrency('many')).toThrow(/invalid startup concurrency/i);
+    });
+  });
+
+  describe('--watch', () => {
+    it('should parse --watch and leave it unset by default', () => {
+      expect(parseCliArgs(['--config', 'c.json', '--watch']).watch).toBe(true);
+      expect(parseCliArgs(['--config', 'c.json']).watch).toBeUndefined();
+    });
+  });
+
+  describe('--management-tools', () => {
+    it('should parse --management-tools and leave it unset by default', () => {
+      expect(parseCliArgs(['--config', 'c.json', '--management-tools']).managementTools).toBe(true);
+      expect(parseCliArgs(['--config', 'c.json']).managementTools).toBeUndefined();
+    });
+  });
+
+  describe('--schema-cache', () => {
+    it('should parse --schema-cache in both syntaxes', () => {
+      expect(parseCliArgs(['--config', 'c.json', '--schema-cache', '/tmp/schemas.json']).schemaCache)
+        .toBe('/tmp/schemas.json');
+      expect(parseCliArgs(['--config', 'c.json', '--schema-cache=/tmp/s.json']).schemaCache)
+        .toBe('/tmp/s.json');
+      expect(parseCliArgs(['--config', 'c.json']).schemaCache).toBeUndefined();
+    });
+  });
+
+  describe('--metrics-port', () => {
+    it('should parse --metrics-port in both syntaxes', () => {
+      expect(parseCliArgs(['--config', 'c.json', '--metrics-port', '9464']).metricsPort).toBe('9464');
+      expect(parseCliArgs(['--config', 'c.json', '--metrics-port=9100']).metricsPort).toBe('9100');
+      expect(parseCliArgs(['--config', 'c.json']).metricsPort).toBeUndefined();
+    });
+  });
+
+  describe('--otlp-endpoint', () => {
+    it('should parse --otlp-endpoint in both syntaxes', () => {
+      expect(parseCliArgs(['--config', 'c.json', '--otlp-endpoint', 'http://127.0.0.1:4318']).otlpEndpoint)
+        .toBe('http://127.0.0.1:4318');
+      expect(parseCliArgs(['--config', 'c.json', '--otlp-endpoint=http://collector:4318/v1/traces']).otlpEndpoint)
+        .toBe('http://collector:4318/v1/traces');
+    });
+
+    it('should append the traces path to a bare collector URL', () => {
+      expect(parseOtlpEndpoint('http://127.0.0.1:4318')).toBe('http://127.0.0.1:4318/v1/traces');
+      expect(parseOtlpEndpoint('https://otel.local/custom/traces')).toBe('https://otel.local/custom/traces');
+      expect(() => parseOtlpEndpoint('127.0.0.1:4318')).toThrow(/invalid otlp endpoint/i);
+      expect(() => parseOtlpEndpoint('grpc://127.0.0.1:4317')).toThrow(/invalid otlp endpoint/i);
+    });
+  });
+
+  describe('logging options', () => {
+    it('should parse the logging and audit flags in both syntaxes', () => {
+      const args = parseCliArgs([
+        '--config', 'c.json',
+        '--log-level', 'trace',
+        '--log-format=json',
+        '--log-max-size', '10M',
+        '--log-rotate=daily',
+        '--log-max-files', '7',
+        '--child-log-dir=/var/log/mcp',
+        '--audit-log', '/var/log/mcp-audit.jsonl'
+      ]);
+
+      expect(args).toMatchObject({
+        logLevel: 'trace',
+        logFormat: 'json',
+        logMaxSize: '10M',
+        logRotate: 'daily',
+        logMaxFiles: '7',
+        childLogDir: '/var/log/mcp',
+        auditLog: '/var/log/mcp-audit.jsonl'
+      });
+    });
+
+    it('should accept known log levels, formats and intervals only', () => {
+      expect(parseLogLevel('warn')).toBe('warn');
+      expect(() => parseLogLevel('verbose')).toThrow(/invalid log level/i);
+      expect(parseLogFormat('json')).toBe('json');
+      expect(() => parseLogFormat('xml')).toThrow(/invalid log format/i);
+      expect(parseLogRotate('hourly')).toBe('hourly');
+      expect(() => parseLogRotate('weekly')).toThrow(/invalid log rotation/i);
+    });
+
+    it('should parse sizes with optional K, M or G suffix', () => {
+      expect(parseLogMaxSize('4096')).toBe(4096);
+      expect(parseLogMaxSize('512K')).toBe(512 * 1024);
+      expect(parseLogMaxSize('10M')).toBe(10 * 1024 * 1024);
+      expect(parseLogMaxSize('1gb')).toBe(1024 ** 3);
+      expect(() => parseLogMaxSize('0')).toThrow(/invalid log max size/i);
+      expect(() => parseLogMaxSize('ten')).toThrow(/invalid log max size/i);
+    });
+
+    it('should accept a non-negative number of rotated files', () => {
+      expect(parseLogMaxFiles('0')).toBe(0);
+      expect(parseLogMaxFiles('7')).toBe(7);
+      expect(() => parseLogMaxFiles('-1')).toThrow(/invalid log max files/i);
+    });
+
+    it('should write errors and warnings to the default log file without any logging option', async () => {
+      const logFilePath = `/tmp/mcp-aggregator-${process.pid}.log`;
+      rmSync(logFilePath, { force: true });
+      try {
+        configureLogging(parseCliArgs(['--config', 'c.json']));
+        logError('[ERROR] child crashed');
+        logWarn('[WARN] config ignored');
+        logInfo('child started');
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        const content = readFileSync(logFilePath, 'utf-8');
+        expect(content).toContain('[ERROR] child crashed');
+        expect(content).toContain('[WARN] config ignored');
+        expect(content).not.toContain('child started');
+      } finally {
+        resetLogger();
+        rmSync(logFilePath, { force: true });
+      }
+    });
+
+    it('should let --log-level decide what is written to the log file', async () => {
+      const logFilePath = `/tmp/mcp-aggregator-${process.pid}.log`;
+      rmSync(logFilePath, { force: true });
+      try {
+        configureLogging(parseCliArgs(['--config', 'c.json', '--log-level', 'error']));
+        logError('[ERROR] child crashed');
+        logWarn('[WARN] config ignored');
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        const content = readFileSync(logFilePath, 'utf-8');
+        expect(content).toContain('[ERROR] child crashed');
+        expect(content).not.toContain('config ignored');
+      } finally {
+        resetLogger();
+        rmSync(logFilePath, { force: true });
+      }
+    });
+  });
+
+  describe('--call-timeout', () => {
+    it('should parse --call-timeout in both syntaxes', () => {
+      expect(parseCliArgs(['--config', 'c.json', '--call-timeout', '120000']).callTimeout)
+        .toBe('120000');
+      expect(parseCliArgs(['--config', 'c.json', '--call-timeout=5000']).callTimeout)
+        .toBe('5000');
+    });
+
+    it('should accept a positive number of milliseconds only', () => {
+      expect(parseCallTimeout('120000')).toBe(120000);
+      expect(() => parseCallTimeout('0')).toThrow(/invalid call timeout/i);
+      expect(() => parseCallTimeout('30s')).toThrow(/invalid call timeout/i);
+    });
+  });
+
+  describe('--transport, --port and --host', () => {
+    it('should parse transport options', () => {
+      const parsed = parseCliArgs([
+        '--config', 'c.json', '--transport', 'http', '--port=8080', '--host', '0.0.0.0',
+        '--allowed-hosts=aggregator.internal'
+      ]);
+
+      expect(parsed.transport).toBe('http');
+      expect(parsed.port).toBe('8080');
+      expect(parsed.host).toBe('0.0.0.0');
+      expect(parsed.allowedHosts).toBe('aggregator.internal');
+    });
+
+    it('should validate transport and port values', () => {
+      expect(parseTransport('stdio')).toBe('stdio');
+      expect(parseTransport('http')).toBe('http');
+      expect(() => parseTransport('websocket')).toThrow(/invalid transport/i);
+
+      expect(parseAllowedHosts('aggregator.internal, 10.0.0.5,[fd00::1]'))
+        .toEqual(['aggregator.internal', '10.0.0.5', '[fd00::1]']);
+      expect(() => parseAllowedHosts('http://aggregator.internal')).toThrow(/invalid allowed host/i);
+      expect(() => parseAllowedHosts('a.internal,,b.internal')).toThrow(/invalid allowed host/i);
+
+      expect(parsePort('3000')).toBe(3000);
+      expect(() => parsePort('70000')).toThrow(/invalid port/i);
+      expect(() => parsePort('http')).toThrow(/invalid port/i);
+    });
+  });
 });
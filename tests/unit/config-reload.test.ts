@@ -0,0 +1,390 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { writeFile, mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { ChildServerClient, McpConfig, ToolRegistry } from '../../src/types.js';
+import { ServerStatus } from '../../src/types.js';
+
+// Replace the SDK client and stdio transport so reloads never spawn processes.
+// Each connection gets a fresh mock client exposing the tools listed for its server.
+const { toolsByServer, createdClients } = vi.hoisted(() => ({
+  toolsByServer: new Map<string, string[]>(),
+  createdClients: [] as Array<{ serverKey: string; client: Client }>
+}));
+
+vi.mock('@modelcontextprotocol/sdk/client/index.js', async () => {
+  const { vi: vitest } = await import('vitest');
+  return {
+    Client: vitest.fn((info: { name: string }) => {
+      const serverKey = info.name.replace('mcp-aggregator-client-', '');
+      const client = {
+        connect: vitest.fn().mockResolvedValue(undefined),
+        listTools: vitest.fn(async () => ({
+          tools: (toolsByServer.get(serverKey) ?? []).map((name) => ({
+            name,
+            inputSchema: { type: 'object' }
+          }))
+        })),
+        close: vitest.fn().mockResolvedValue(undefined),
+        setNotificationHandler: vitest.fn()
+      } as unknown as Client;
+      createdClients.push({ serverKey, client });
+      return client;
+    })
+  };
+});
+
+vi.mock('@modelcontextprotocol/sdk/client/stdio.js', () => ({
+  StdioClientTransport: vi.fn()
+}));
+
+vi.mock('../../src/logger.js', async (importOriginal) => {
+  const logger = await importOriginal<typeof import('../../src/logger.js')>();
+  return { ...logger, logWarn: vi.fn(logger.logWarn) };
+});
+
+import { initializeChildren, setupErrorHandlers, shutdownAllChildren } from '../../src/child-manager.js';
+import { buildToolRegistry } from '../../src/registry.js';
+import { diffServerConfigs, applyConfigChanges, createConfigReloader } from '../../src/config-reload.js';
+import { createChildActivator } from '../../src/lazy-start.js';
+import { saveCachedTools, getCachedTools } from '../../src/schema-cache.js';
+import type { SchemaCache } from '../../src/schema-cache.js';
+import { logWarn } from '../../src/logger.js';
+
+/**
+ * Test Suite: Config Reload
+ *
+ * Covers diffing a reloaded config against the running servers, applying
+ * the diff to children and the tool registry, and reloading from the config
+ * file on demand and on file changes.
+ */
+
+const initialConfig: McpConfig = {
+  mcpServers: {
+    filesystem: { command: 'node', args: ['fs.js'] },
+    postgres: { command: 'node', args: ['pg.js'] },
+    github: { command: 'node', args: ['gh.js'] }
+  }
+};
+
+async function startAggregator(config: McpConfig): Promise<{
+  children: Map<string, ChildServerClient>;
+  registry: ToolRegistry;
+}> {
+  const children = await initializeChildren(config);
+  const clients = new Map(Array.from(children, ([serverKey, child]) => [serverKey, child.client]));
+  const registry = await buildToolRegistry(clients, ':', config.mcpServers);
+  return { children, registry };
+}
+
+function clientsFor(serverKey: string): Client[] {
+  return createdClients.filter((c) => c.serverKey === serverKey).map((c) => c.client);
+}
+
+describe('Config Reload', () => {
+  let children: Map<string, ChildServerClient> | undefined;
+
+  beforeEach(() => {
+    createdClients.length = 0;
+    toolsByServer.clear();
+    toolsByServer.set('filesystem', ['read_file']);
+    toolsByServer.set('postgres', ['query', 'drop_table']);
+    toolsByServer.set('github', ['create_issue']);
+    toolsByServer.set('search', ['find']);
+  });
+
+  afterEach(async () => {
+    if (children) {
+      await shutdownAllChildren(children);
+      children = undefined;
+    }
+  });
+
+  describe('diffServerConfigs', () => {
+    it('should group servers by the action a reload takes', () => {
+      const diff = diffServerConfigs(initialConfig.mcpServers, {
+        filesystem: { command: 'node', args: ['fs.js'] },
+        postgres: { command: 'node', args: ['pg.js'], excludeTools: ['drop_*'] },
+        github: { command: 'node', args: ['gh.js'], env: { GITHUB_TOKEN: 'x' } },
+        search: { url: 'http://localhost:8080/mcp' }
+      });
+
+      expect(diff).toEqual({
+        added: ['search'],
+        removed: [],
+        restarted: ['github'],
+        updated: ['postgres']
+      });
+    });
+
+    it('should detect removed servers and ignore key order', () => {
+      const diff = diffServerConfigs(
+        { a: { command: 'node', env: { X: '1', Y: '2' } }, b: { command: 'node' } },
+        { a: { env: { Y: '2', X: '1' }, command: 'node' } }
+      );
+
+      expect(diff).toEqual({ added: [], removed: ['b'], restarted: [], updated: [] });
+    });
+  });
+
+  describe('applyConfigChanges', () => {
+    it('should start, stop, restart and update servers and the registry', async () => {
+      const started = await startAggregator(initialConfig);
+      children = started.children;
+      const { registry } = started;
+      const onToolsChanged = vi.fn();
+      setupErrorHandlers(children, registry, { onToolsChanged });
+
+      const originalGithub = children.get('github')!.client;
+
+      const diff = await applyConfigChanges(
+        children,
+        {
+          mcpServers: {
+            search: { command: 'node', args: ['search.js'] },
+            postgres: { command: 'node', args: ['pg.js'], excludeTools: ['drop_*'] },
+            github: { command: 'node', args: ['gh.js', '--v2'] }
+          }
+        },
+        registry,
+        { onToolsChanged }
+      );
+
+      expect(diff).toEqual({
+        added: ['search'],
+        removed: ['filesystem'],
+        restarted: ['github'],
+        updated: ['postgres']
+      });
+
+      expect(Array.from(registry.keys()).sort()).toEqual([
+        'github:create_issue',
+        'postgres:query',
+        'search:find'
+      ]);
+      expect(Array.from(children.keys())).toEqual(['search', 'postgres', 'github']);
+
+      expect(clientsFor('filesystem')[0]!.close).toHaveBeenCalled();
+      expect(originalGithub.close).toHaveBeenCalled();
+      expect(children.get('github')!.client).not.toBe(originalGithub);
+      expect(children.get('github')!.config.args).toEqual(['gh.js', '--v2']);
+      expect(children.get('postgres')!.status).toBe(ServerStatus.RUNNING);
+      expect(onToolsChanged).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep a server that fails to start as FAILED and retry it in the background', async () => {
+      const started = await startAggregator(initialConfig);
+      children = started.children;
+
+      const failing = vi.fn();
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      vi.mocked(Client).mockImplementationOnce(((info: { name: string }) => {
+        failing(info.name);
+        return {
+          connect: vi.fn().mockRejectedValue(new Error('spawn ENOENT')),
+          close: vi.fn().mockResolvedValue(undefined)
+        };
+      }) as never);
+
+      await applyConfigChanges(
+        children,
+        { mcpServers: { ...initialConfig.mcpServers, search: { command: 'missing' } } },
+        started.registry
+      );
+
+      expect(failing).toHaveBeenCalledWith('mcp-aggregator-client-search');
+      expect(children.get('search')?.status).toBe(ServerStatus.FAILED);
+      expect(children.get('filesystem')?.status).toBe(ServerStatus.RUNNING);
+    });
+
+    it('should register lazy servers from the schema cache and re-register idle ones', async () => {
+      const started = await startAggregator(initialConfig);
+      children = started.children;
+      const { registry } = started;
+      const dir = await mkdtemp(join(tmpdir(), 'mcp-aggregator-reload-'));
+      const schemaCache: SchemaCache = { path: join(dir, 'schemas.json'), entries: {} };
+      const search = { command: 'node', args: ['search.js'], lazy: true };
+      await saveCachedTools(schemaCache, 'search', search, [
+        { name: 'find', inputSchema: { type: 'object' } },
+        { name: 'find_all', inputSchema: { type: 'object' } }
+      ]);
+
+      try {
+        await applyConfigChanges(
+          children,
+          { mcpServers: { ...initialConfig.mcpServers, search } },
+          registry,
+          {},
+          schemaCache
+        );
+
+        expect(children.get('search')?.status).toBe(ServerStatus.IDLE);
+        expect(clientsFor('search')[0]!.connect).not.toHaveBeenCalled();
+        expect(registry.has('search:find_all')).toBe(true);
+
+        const diff = await applyConfigChanges(
+          children,
+          { mcpServers: { ...initialConfig.mcpServers, search: { ...search, excludeTools: ['find_all'] } } },
+          registry,
+          {},
+          schemaCache
+        );
+
+        expect(diff.updated).toEqual(['search']);
+        expect(children.get('search')?.status).toBe(ServerStatus.IDLE);
+        expect(registry.has('search:find')).toBe(true);
+        expect(registry.has('search:find_all')).toBe(false);
+        expect(getCachedTools(schemaCache, children.get('search')!.config)).toHaveLength(2);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should start the idle timer of servers a reload starts', async () => {
+      const started = await startAggregator(initialConfig);
+      children = started.children;
+      const activator = createChildActivator(children, started.registry);
+
+      try {
+        const diff = await applyConfigChanges(
+          children,
+          {
+            mcpServers: {
+              ...initialConfig.mcpServers,
+              github: { command: 'node', args: ['gh.js', '--v2'], idleTimeoutMs: 20 },
+              search: { command: 'node', args: ['search.js'], idleTimeoutMs: 20 }
+            }
+          },
+          started.registry,
+          {},
+          undefined,
+          activator
+        );
+
+        expect(diff.added).toEqual(['search']);
+        expect(diff.restarted).toEqual(['github']);
+        await vi.waitFor(() => {
+          expect(children!.get('search')?.status).toBe(ServerStatus.IDLE);
+          expect(children!.get('github')?.status).toBe(ServerStatus.IDLE);
+        });
+        expect(children.get('filesystem')?.status).toBe(ServerStatus.RUNNING);
+        expect(started.registry.has('search:find')).toBe(true);
+      } finally {
+        activator.close();
+      }
+    });
+
+    it('should restart an idle lazy server that is no longer lazy', async () => {
+      const started = await startAggregator(initialConfig);
+      children = started.children;
+      const { registry } = started;
+      const dir = await mkdtemp(join(tmpdir(), 'mcp-aggregator-reload-'));
+      const schemaCache: SchemaCache = { path: join(dir, 'schemas.json'), entries: {} };
+      const search = { command: 'node', args: ['search.js'], lazy: true };
+      await saveCachedTools(schemaCache, 'search', search, [{ name: 'find', inputSchema: { type: 'object' } }]);
+
+      try {
+        await applyConfigChanges(
+          children,
+          { mcpServers: { ...initialConfig.mcpServers, search } },
+          registry,
+          {},
+          schemaCache
+        );
+        expect(children.get('search')?.status).toBe(ServerStatus.IDLE);
+
+        const diff = await applyConfigChanges(
+          children,
+          { mcpServers: { ...initialConfig.mcpServers, search: { ...search, lazy: false } } },
+          registry,
+          {},
+          schemaCache
+        );
+
+        expect(diff.restarted).toEqual(['search']);
+        expect(children.get('search')?.status).toBe(ServerStatus.RUNNING);
+        expect(clientsFor('search').at(-1)!.connect).toHaveBeenCalled();
+        expect(registry.has('search:find')).toBe(true);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should not notify when nothing changed', async () => {
+      const started = await startAggregator(initialConfig);
+      children = started.children;
+      const onToolsChanged = vi.fn();
+
+      const diff = await applyConfigChanges(children, initialConfig, started.registry, { onToolsChanged });
+
+      expect(diff).toEqual({ added: [], removed: [], restarted: [], updated: [] });
+      expect(onToolsChanged).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createConfigReloader', () => {
+    let dir: string;
+    let configPath: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'mcp-aggregator-reload-'));
+      configPath = join(dir, 'config.json');
+      await writeFile(configPath, JSON.stringify(initialConfig));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should keep the running config when the reloaded file is invalid', async () => {
+      const started = await startAggregator(initialConfig);
+      children = started.children;
+      const reloader = createConfigReloader(configPath, children, started.registry);
+
+      await writeFile(configPath, '{ "mcpServers": ');
+
+      expect(await reloader.reload()).toBeUndefined();
+      expect(Array.from(children.keys())).toEqual(['filesystem', 'postgres', 'github']);
+      expect(started.registry.size).toBe(4);
+    });
+
+    it('should warn that changed virtual tools need a restart', async () => {
+      const started = await startAggregator(initialConfig);
+      children = started.children;
+      const virtualTools = { search_all: { mode: 'fanOut' as const, steps: [{ tool: 'github:create_issue' }] } };
+      const reloader = createConfigReloader(configPath, children, started.registry, {}, { virtualTools });
+      vi.mocked(logWarn).mockClear();
+
+      await writeFile(configPath, JSON.stringify({ ...initialConfig, virtualTools }));
+      await reloader.reload();
+      expect(logWarn).not.toHaveBeenCalled();
+
+      await writeFile(configPath, JSON.stringify(initialConfig));
+      await reloader.reload();
+      expect(logWarn).toHaveBeenCalledWith(expect.stringContaining('restart the aggregator'));
+    });
+
+    it('should reload when the watched config file changes', async () => {
+      const started = await startAggregator(initialConfig);
+      children = started.children;
+      const toolsChanged = new Promise<void>((resolve) => {
+        const reloader = createConfigReloader(
+          configPath,
+          children!,
+          started.registry,
+          { onToolsChanged: () => { reloader.close(); resolve(); } },
+          { watch: true, debounceMs: 20 }
+        );
+      });
+
+      await writeFile(configPath, JSON.stringify({
+        mcpServers: { filesystem: initialConfig.mcpServers.filesystem }
+      }));
+      await toolsChanged;
+
+      expect(Array.from(started.registry.keys())).toEqual(['filesystem:read_file']);
+      expect(Array.from(children.keys())).toEqual(['filesystem']);
+    });
+  });
+});
@@ -417,4 +417,358 @@ describe('Config Parsing', () => {
       expect(parsed.mcpServers.complete.env).toBeDefined();
     });
   });
+
+  describe('Restart policy validation', () => {
+    it('should accept a restart policy with non-negative numbers', () => {
+      const config = {
+        mcpServers: {
+          flaky: {
+            command: 'node',
+            restart: { initialDelayMs: 500, maxDelayMs: 10000, maxAttempts: 0 }
+          }
+        }
+      };
+
+      const parsed = parseConfig(config);
+      expect(parsed.mcpServers.flaky.restart).toEqual({
+        initialDelayMs: 500,
+        maxDelayMs: 10000,
+        maxAttempts: 0
+      });
+    });
+
+    it('should reject invalid restart policies', () => {
+      const result = validateConfig({
+        mcpServers: {
+          a: { command: 'node', restart: 'always' },
+          b: { command: 'node', restart: { maxAttempts: -1, initialDelayMs: '1s' } }
+        }
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map((e) => e.path)).toEqual([
+        '$.mcpServers.a.restart',
+        '$.mcpServers.b.restart.initialDelayMs',
+        '$.mcpServers.b.restart.maxAttempts'
+      ]);
+    });
+  });
+
+  describe('Required server validation', () => {
+    it('should accept a boolean required flag', () => {
+      const parsed = parseConfig({
+        mcpServers: { core: { command: 'node', required: true } }
+      });
+      expect(parsed.mcpServers.core.required).toBe(true);
+    });
+
+    it('should reject a non-boolean required flag', () => {
+      const result = validateConfig({
+        mcpServers: { core: { command: 'node', required: 'yes' } }
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]?.path).toBe('$.mcpServers.core.required');
+    });
+  });
+
+  describe('Startup timeout validation', () => {
+    it('should accept a positive startupTimeoutMs', () => {
+      const parsed = parseConfig({
+        mcpServers: { slow: { command: 'npx', startupTimeoutMs: 120000 } }
+      });
+      expect(parsed.mcpServers.slow.startupTimeoutMs).toBe(120000);
+    });
+
+    it('should reject zero, negative and non-numeric timeouts', () => {
+      const result = validateConfig({
+        mcpServers: {
+          a: { command: 'node', startupTimeoutMs: 0 },
+          b: { command: 'node', startupTimeoutMs: -5 },
+          c: { command: 'node', startupTimeoutMs: '30s' }
+        }
+      });
+
+      expect(result.errors.map((e) => e.path)).toEqual([
+        '$.mcpServers.a.startupTimeoutMs',
+        '$.mcpServers.b.startupTimeoutMs',
+        '$.mcpServers.c.startupTimeoutMs'
+      ]);
+    });
+  });
+
+  describe('Call timeout validation', () => {
+    it('should accept server and per-tool callTimeoutMs', () => {
+      const parsed = parseConfig({
+        mcpServers: {
+          builder: { command: 'node', callTimeoutMs: 600000, tools: { lint: { callTimeoutMs: 10000 } } }
+        }
+      });
+      expect(parsed.mcpServers.builder.callTimeoutMs).toBe(600000);
+      expect(parsed.mcpServers.builder.tools?.lint?.callTimeoutMs).toBe(10000);
+    });
+
+    it('should reject non-positive call timeouts', () => {
+      const result = validateConfig({
+        mcpServers: {
+          a: { command: 'node', callTimeoutMs: 0 },
+          b: { command: 'node', tools: { build: { callTimeoutMs: '10m' } } }
+        }
+      });
+
+      expect(result.errors.map((e) => e.path)).toEqual([
+        '$.mcpServers.a.callTimeoutMs',
+        '$.mcpServers.b.tools.build.callTimeoutMs'
+      ]);
+    });
+  });
+
+  describe('Lazy startup validation', () => {
+    it('should accept lazy and idleTimeoutMs', () => {
+      const parsed = parseConfig({
+        mcpServers: { reports: { command: 'node', lazy: true, idleTimeoutMs: 300000 } }
+      });
+      expect(parsed.mcpServers.reports.lazy).toBe(true);
+      expect(parsed.mcpServers.reports.idleTimeoutMs).toBe(300000);
+    });
+
+    it('should reject a non-boolean lazy flag and non-positive idle timeouts', () => {
+      const result = validateConfig({
+        mcpServers: {
+          a: { command: 'node', lazy: 'yes' },
+          b: { command: 'node', idleTimeoutMs: 0 }
+        }
+      });
+
+      expect(result.errors.map((e) => e.path)).toEqual([
+        '$.mcpServers.a.lazy',
+        '$.mcpServers.b.idleTimeoutMs'
+      ]);
+    });
+  });
+
+  describe('Audit redaction validation', () => {
+    it('should accept server and per-tool redactArguments', () => {
+      const parsed = parseConfig({
+        mcpServers: {
+          crm: { command: 'node', redactArguments: ['apiKey'], tools: { login: { redactArguments: ['auth.*'] } } }
+        }
+      });
+      expect(parsed.mcpServers.crm.redactArguments).toEqual(['apiKey']);
+      expect(parsed.mcpServers.crm.tools?.login?.redactArguments).toEqual(['auth.*']);
+    });
+
+    it('should reject non-array lists and empty path segments', () => {
+      const result = validateConfig({
+        mcpServers: {
+          a: { command: 'node', redactArguments: 'apiKey' },
+          b: { command: 'node', tools: { login: { redactArguments: ['auth..token', 42] } } }
+        }
+      });
+
+      expect(result.errors.map((e) => e.path)).toEqual([
+        '$.mcpServers.a.redactArguments',
+        '$.mcpServers.b.tools.login.redactArguments[0]',
+        '$.mcpServers.b.tools.login.redactArguments[1]'
+      ]);
+    });
+  });
+
+  describe('Tool filter validation', () => {
+    it('should accept includeTools and excludeTools pattern lists', () => {
+      const parsed = parseConfig({
+        mcpServers: {
+          postgres: { command: 'node', includeTools: ['query', 'list_*'], excludeTools: ['drop_*'] }
+        }
+      });
+      expect(parsed.mcpServers.postgres.excludeTools).toEqual(['drop_*']);
+    });
+
+    it('should reject non-array filters and empty patterns', () => {
+      const result = validateConfig({
+        mcpServers: {
+          a: { command: 'node', includeTools: 'query' },
+          b: { command: 'node', excludeTools: ['drop_*', '', 3] }
+        }
+      });
+
+      expect(result.errors.map((e) => e.path)).toEqual([
+        '$.mcpServers.a.includeTools',
+        '$.mcpServers.b.excludeTools[1]',
+        '$.mcpServers.b.excludeTools[2]'
+      ]);
+    });
+  });
+
+  describe('Tool prefix validation', () => {
+    it('should accept a custom prefix and false', () => {
+      const parsed = parseConfig({
+        mcpServers: {
+          filesystem: { command: 'node', prefix: 'fs' },
+          github: { command: 'node', prefix: false }
+        }
+      });
+      expect(parsed.mcpServers.filesystem.prefix).toBe('fs');
+      expect(parsed.mcpServers.github.prefix).toBe(false);
+    });
+
+    it('should reject empty, true and non-string prefixes', () => {
+      const result = validateConfig({
+        mcpServers: {
+          a: { command: 'node', prefix: '' },
+          b: { command: 'node', prefix: true },
+          c: { command: 'node', prefix: 3 }
+        }
+      });
+
+      expect(result.errors.map((e) => e.path)).toEqual([
+        '$.mcpServers.a.prefix',
+        '$.mcpServers.b.prefix',
+        '$.mcpServers.c.prefix'
+      ]);
+    });
+  });
+
+  describe('Virtual tool validation', () => {
+    it('should accept fanOut and chain virtual tools', () => {
+      const parsed = parseConfig({
+        mcpServers: { docs: { command: 'node' } },
+        virtualTools: {
+          search_everywhere: { mode: 'fanOut', steps: [{ tool: 'docs:search' }, { tool: 'jira:search' }] },
+          summarize_page: {
+            mode: 'chain',
+            steps: [
+              { tool: 'docs:get_page', arguments: { id: '{{input.page}}' } },
+              { tool: 'llm:summarize', arguments: { text: '{{previous.text}}' } }
+            ]
+          }
+        }
+      });
+      expect(parsed.virtualTools?.summarize_page?.steps).toHaveLength(2);
+    });
+
+    it('should reject malformed virtual tools and misplaced placeholders', () => {
+      const result = validateConfig({
+        mcpServers: { docs: { command: 'node' } },
+        virtualTools: {
+          'bad name': { mode: 'parallel', steps: [] },
+          fan: { mode: 'fanOut', steps: [{ tool: 'docs:search', arguments: { q: '{{previous.text}}' } }, 'jira:search'] },
+          chain: {
+            mode: 'chain',
+            steps: [
+              { tool: 'docs:get_page', arguments: { id: '{{page}}' } },
+              { tool: 'fan' }
+            ]
+          }
+        }
+      });
+
+      expect(result.errors.map((e) => e.path)).toEqual([
+        '$.virtualTools.bad name',
+        '$.virtualTools.bad name.mode',
+        '$.virtualTools.bad name.steps',
+        '$.virtualTools.fan.steps[0].arguments',
+        '$.virtualTools.fan.steps[1]',
+        '$.virtualTools.chain.steps[0].arguments',
+        '$.virtualTools.chain.steps[1].tool'
+      ]);
+    });
+  });
+
+  describe('Tool override validation', () => {
+    it('should accept rename, alias and description overrides', () => {
+      const parsed = parseConfig({
+        mcpServers: {
+          warehouse: {
+            command: 'node',
+            tools: {
+              run_query: { name: 'query', aliases: ['sql'], description: 'Query', appendDescription: 'Read-only.' }
+            }
+          }
+        }
+      });
+      expect(parsed.mcpServers.warehouse.tools?.run_query?.aliases).toEqual(['sql']);
+    });
+
+    it('should reject malformed overrides', () => {
+      const result = validateConfig({
+        mcpServers: {
+          a: { command: 'node', tools: ['run_query'] },
+          b: {
+            command: 'node',
+            tools: {
+              run_query: { name: 'run query', aliases: ['sql', ''], description: 42 },
+              explain: 'EXPLAIN'
+            }
+          }
+        }
+      });
+
+      expect(result.errors.map((e) => e.path)).toEqual([
+        '$.mcpServers.a.tools',
+        '$.mcpServers.b.tools.run_query.name',
+        '$.mcpServers.b.tools.run_query.aliases[1]',
+        '$.mcpServers.b.tools.run_query.description',
+        '$.mcpServers.b.tools.explain'
+      ]);
+    });
+
+    it('should reject non-object argument overrides and arguments both pinned and defaulted', () => {
+      const result = validateConfig({
+        mcpServers: {
+          github: {
+            command: 'node',
+            tools: {
+              search_issues: { pinnedArguments: ['repo'], defaultArguments: { limit: 50 } },
+              create_issue: { pinnedArguments: { repo: 'our-org/main' }, defaultArguments: { repo: 'x', labels: [] } }
+            }
+          }
+        }
+      });
+
+      expect(result.errors.map((e) => e.path)).toEqual([
+        '$.mcpServers.github.tools.search_issues.pinnedArguments',
+        '$.mcpServers.github.tools.create_issue.defaultArguments.repo'
+      ]);
+    });
+  });
+
+  describe('Remote server validation', () => {
+    it('should accept url servers with transport and headers alongside command servers', () => {
+      const parsed = parseConfig({
+        mcpServers: {
+          local: { command: 'node', transport: 'stdio' },
+          search: { url: 'https://mcp.example.com/mcp', headers: { Authorization: 'Bearer ${TOKEN}' } },
+          legacy: { url: 'http://localhost:8080/sse', transport: 'sse' },
+          templated: { url: '${SEARCH_URL}', transport: 'streamable-http' }
+        }
+      });
+      expect(parsed.mcpServers.legacy.transport).toBe('sse');
+      expect(parsed.mcpServers.search.command).toBeUndefined();
+    });
+
+    it('should reject invalid urls, mismatched transports and malformed headers', () => {
+      const result = validateConfig({
+        mcpServers: {
+          a: { command: 'node', url: 'http://localhost:8080/mcp' },
+          b: { url: 'ftp://example.com' },
+          c: { url: 'not a url' },
+          d: { url: 'http://localhost:8080/mcp', transport: 'stdio' },
+          e: { command: 'node', transport: 'sse' },
+          f: { url: 'http://localhost:8080/mcp', headers: { 'X-Retries': 3 } },
+          g: { command: 'node', headers: { Authorization: 'Bearer x' } }
+        }
+      });
+
+      expect(result.errors.map((e) => e.path)).toEqual([
+        '$.mcpServers.a',
+        '$.mcpServers.b.url',
+        '$.mcpServers.c.url',
+        '$.mcpServers.d.transport',
+        '$.mcpServers.e.transport',
+        '$.mcpServers.f.headers.X-Retries',
+        '$.mcpServers.g.headers'
+      ]);
+    });
+  });
 });
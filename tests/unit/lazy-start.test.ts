@@ -0,0 +1,269 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile, readFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { McpConfig, ChildServerClient, ToolRegistry, ResourceRegistry } from '../../src/types.js';
+import { ServerStatus } from '../../src/types.js';
+
+// Serve every "spawned" child from an in-process MCP server over an in-memory transport
+const { spawned } = vi.hoisted(() => ({ spawned: { count: 0 } }));
+
+vi.mock('@modelcontextprotocol/sdk/client/stdio.js', async () => {
+  const { InMemoryTransport: LinkedTransport } = await import('@modelcontextprotocol/sdk/inMemory.js');
+  const { Server } = await import('@modelcontextprotocol/sdk/server/index.js');
+  const {
+    ListToolsRequestSchema,
+    CallToolRequestSchema,
+    ListResourcesRequestSchema,
+    ReadResourceRequestSchema
+  } = await import('@modelcontextprotocol/sdk/types.js');
+
+  return {
+    StdioClientTransport: function (options: { args: string[] }) {
+      spawned.count++;
+      const server = new Server({ name: 'child', version: '1.0.0' }, { capabilities: { tools: {}, resources: {} } });
+      server.setRequestHandler(ListToolsRequestSchema, async () => ({
+        tools: options.args.map((name) => ({ name, inputSchema: { type: 'object' as const } }))
+      }));
+      server.setRequestHandler(CallToolRequestSchema, async (request) => ({
+        content: [{ type: 'text', text: `called ${request.params.name}` }]
+      }));
+      server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+        resources: [{ uri: 'status://current', name: 'status' }]
+      }));
+      server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
+        contents: [{ uri: request.params.uri, text: `process ${spawned.count}` }]
+      }));
+      const [clientTransport, serverTransport] = LinkedTransport.createLinkedPair();
+      void server.connect(serverTransport);
+      return clientTransport;
+    }
+  };
+});
+
+import { initializeChildren, setupErrorHandlers, shutdownAllChildren } from '../../src/child-manager.js';
+import { buildToolRegistry } from '../../src/registry.js';
+import { buildResourceRegistry } from '../../src/resource-registry.js';
+import { createAggregatorServer, setupToolCallHandler, setupResourceHandlers } from '../../src/server.js';
+import { createChildActivator, registerLazyServers } from '../../src/lazy-start.js';
+import type { ChildActivator } from '../../src/lazy-start.js';
+import { loadSchemaCache, saveCachedTools, getCachedTools, hashServerConfig } from '../../src/schema-cache.js';
+
+/**
+ * Test Suite: Lazy Startup
+ *
+ * Covers lazy servers served from the schema cache until their first call,
+ * filling the cache, and shutting idle servers down after idleTimeoutMs.
+ */
+
+// Each child exposes the tools named in its args
+const config: McpConfig = {
+  mcpServers: {
+    filesystem: { command: 'node', args: ['read_file'] },
+    reports: { command: 'node', args: ['weekly_report', 'monthly_report'], lazy: true }
+  }
+};
+
+describe('Lazy Startup', () => {
+  let dir: string;
+  let cachePath: string;
+  let children: Map<string, ChildServerClient>;
+  let registry: ToolRegistry;
+  let resourceRegistry: ResourceRegistry;
+  let activator: ChildActivator;
+  let upstream: Client;
+  let booted: boolean;
+
+  /** Boot the aggregator the way main() does and connect one upstream client */
+  const boot = async (bootConfig: McpConfig): Promise<void> => {
+    const schemaCache = await loadSchemaCache(cachePath);
+    children = await initializeChildren(bootConfig, { mode: 'failFast' }, 4, schemaCache);
+    const running = new Map(
+      Array.from(children)
+        .filter(([, child]) => child.status === ServerStatus.RUNNING)
+        .map(([key, child]) => [key, child.client])
+    );
+    registry = await buildToolRegistry(running, ':', bootConfig.mcpServers);
+    resourceRegistry = await buildResourceRegistry(running, ':');
+    await registerLazyServers(children, registry, schemaCache, ':');
+    setupErrorHandlers(children, registry, { resourceRegistry });
+    activator = createChildActivator(children, registry, { resourceRegistry }, schemaCache);
+
+    const server = createAggregatorServer(new Map(), registry);
+    setupToolCallHandler(server, registry, ':', { acquire: activator.acquire });
+    setupResourceHandlers(server, resourceRegistry, ':', activator.acquire);
+    upstream = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: {} });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), upstream.connect(clientTransport)]);
+    booted = true;
+  };
+
+  const shutdown = async (): Promise<void> => {
+    if (booted) {
+      activator.close();
+      await upstream.close();
+    }
+    await shutdownAllChildren(children);
+  };
+
+  beforeEach(async () => {
+    spawned.count = 0;
+    booted = false;
+    dir = await mkdtemp(join(tmpdir(), 'mcp-aggregator-lazy-'));
+    cachePath = join(dir, 'schemas.json');
+  });
+
+  afterEach(async () => {
+    await shutdown();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should start a lazy server without a cache entry once and cache its tools', async () => {
+    await boot(config);
+
+    expect(spawned.count).toBe(2);
+    expect(children.get('reports')?.status).toBe(ServerStatus.RUNNING);
+
+    const cache = await loadSchemaCache(cachePath);
+    expect(getCachedTools(cache, config.mcpServers.reports!)?.map((tool) => tool.name))
+      .toEqual(['weekly_report', 'monthly_report']);
+  });
+
+  it('should serve cached tools without spawning and start the server on its first call', async () => {
+    const cache = await loadSchemaCache(cachePath);
+    await saveCachedTools(cache, 'reports', config.mcpServers.reports!, [
+      { name: 'weekly_report', inputSchema: { type: 'object' } },
+      { name: 'monthly_report', inputSchema: { type: 'object' } }
+    ]);
+
+    await boot(config);
+
+    expect(spawned.count).toBe(1);
+    expect(children.get('reports')?.status).toBe(ServerStatus.IDLE);
+    const { tools } = await upstream.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual([
+      'filesystem:read_file',
+      'reports:weekly_report',
+      'reports:monthly_report'
+    ]);
+
+    // Concurrent first calls share a single start
+    const results = await Promise.all([
+      upstream.callTool({ name: 'reports:weekly_report', arguments: {} }),
+      upstream.callTool({ name: 'reports:monthly_report', arguments: {} })
+    ]);
+
+    expect(results.map((result) => result.content)).toEqual([
+      [{ type: 'text', text: 'called weekly_report' }],
+      [{ type: 'text', text: 'called monthly_report' }]
+    ]);
+    expect(spawned.count).toBe(2);
+    expect(children.get('reports')?.status).toBe(ServerStatus.RUNNING);
+  });
+
+  it('should shut an idle server down, keep its tools and restart it on the next call', async () => {
+    await boot({
+      mcpServers: { filesystem: { command: 'node', args: ['read_file'], idleTimeoutMs: 30 } }
+    });
+
+    await upstream.callTool({ name: 'filesystem:read_file', arguments: {} });
+    await vi.waitFor(() => expect(children.get('filesystem')?.status).toBe(ServerStatus.IDLE));
+    expect(registry.has('filesystem:read_file')).toBe(true);
+
+    const result = await upstream.callTool({ name: 'filesystem:read_file', arguments: {} });
+
+    expect(result.content).toEqual([{ type: 'text', text: 'called read_file' }]);
+    expect(spawned.count).toBe(2);
+  });
+
+  it('should restart an idle server to read one of its resources', async () => {
+    await boot({
+      mcpServers: { filesystem: { command: 'node', args: ['read_file'], idleTimeoutMs: 30 } }
+    });
+
+    await vi.waitFor(() => expect(children.get('filesystem')?.status).toBe(ServerStatus.IDLE));
+    const result = await upstream.readResource({ uri: 'filesystem:status://current' });
+
+    expect(result.contents).toEqual([{ uri: 'filesystem:status://current', text: 'process 2' }]);
+    expect(children.get('filesystem')?.status).toBe(ServerStatus.RUNNING);
+  });
+
+  it('should start a new process for a call that arrives while an idle server is closing', async () => {
+    await boot({
+      mcpServers: { filesystem: { command: 'node', args: ['read_file'], idleTimeoutMs: 30 } }
+    });
+
+    // Hold the idle shutdown open until the call below has been routed
+    const closing = children.get('filesystem')!.client;
+    const close = closing.close.bind(closing);
+    let finishClose!: () => void;
+    closing.close = () => new Promise<void>((resolve) => {
+      finishClose = () => resolve(close());
+    });
+
+    await vi.waitFor(() => expect(finishClose).toBeDefined());
+    expect(children.get('filesystem')?.status).toBe(ServerStatus.IDLE);
+    const result = await upstream.callTool({ name: 'filesystem:read_file', arguments: {} });
+    finishClose();
+
+    expect(result.content).toEqual([{ type: 'text', text: 'called read_file' }]);
+    expect(children.get('filesystem')?.client).not.toBe(closing);
+    expect(spawned.count).toBe(2);
+  });
+
+  it('should keep a server busy while calls are in flight', async () => {
+    await boot({
+      mcpServers: { filesystem: { command: 'node', args: ['read_file'], idleTimeoutMs: 30 } }
+    });
+
+    const release = await activator.acquire('filesystem');
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(children.get('filesystem')?.status).toBe(ServerStatus.RUNNING);
+
+    release();
+    await vi.waitFor(() => expect(children.get('filesystem')?.status).toBe(ServerStatus.IDLE));
+  });
+
+  it('should fail on cached tool names that collide under the error collision strategy', async () => {
+    const reports = { command: 'node', args: ['read_file'], lazy: true, prefix: 'filesystem' };
+    const cache = await loadSchemaCache(cachePath);
+    await saveCachedTools(cache, 'reports', reports, [{ name: 'read_file', inputSchema: { type: 'object' } }]);
+
+    await expect(boot({ mcpServers: { filesystem: config.mcpServers.filesystem!, reports } })).rejects.toThrow(
+      "Tool name collisions: 'filesystem:read_file' (server 'filesystem' tool 'read_file' and server 'reports' tool 'read_file')"
+    );
+  });
+
+  describe('schema cache', () => {
+    it('should key entries by config regardless of field order', () => {
+      expect(hashServerConfig({ command: 'node', args: ['a'], lazy: true }))
+        .toBe(hashServerConfig({ lazy: true, args: ['a'], command: 'node' }));
+      expect(hashServerConfig({ command: 'node', args: ['a'] }))
+        .not.toBe(hashServerConfig({ command: 'node', args: ['b'] }));
+    });
+
+    it('should key entries by connection settings only', () => {
+      const base = { command: 'node', args: ['a'], env: { TOKEN: 'x' } };
+
+      expect(hashServerConfig({ ...base, lazy: true, idleTimeoutMs: 1000, prefix: 'files', tools: { a: { name: 'read' } } }))
+        .toBe(hashServerConfig(base));
+      expect(hashServerConfig({ ...base, env: { TOKEN: 'y' } })).not.toBe(hashServerConfig(base));
+      expect(hashServerConfig({ url: 'http://127.0.0.1:1/mcp', headers: { A: '1' } }))
+        .not.toBe(hashServerConfig({ url: 'http://127.0.0.1:1/mcp', headers: { A: '2' } }));
+    });
+
+    it('should treat a missing or corrupt cache file as empty', async () => {
+      expect((await loadSchemaCache(cachePath)).entries).toEqual({});
+
+      await writeFile(cachePath, '{ not json');
+      expect((await loadSchemaCache(cachePath)).entries).toEqual({});
+
+      await boot(config);
+      expect(JSON.parse(await readFile(cachePath, 'utf-8'))).toHaveProperty(
+        hashServerConfig(config.mcpServers.reports!)
+      );
+    });
+  });
+});
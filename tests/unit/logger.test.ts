@@ -10,10 +10,16 @@ import {
   logInfo,
   logDebug,
   logError,
+  logWarn,
+  logTrace,
+  log,
   isDebugEnabled,
-  resetLogger
+  resetLogger,
+  setLogLevel,
+  setLogFormat,
+  setLogRotation
 } from '../../src/logger.js';
-import { existsSync, unlinkSync, readFileSync, mkdirSync, rmSync } from 'fs';
+import { existsSync, unlinkSync, readFileSync, mkdirSync, rmSync, readdirSync } from 'fs';
 import { join } from 'path';
 
 describe('Logger', () => {
@@ -281,4 +287,126 @@ describe('Logger', () => {
       expect(existsSync(testLogPath)).toBe(false);
     });
   });
+
+  describe('log levels', () => {
+    it('should write warnings and errors by default', async () => {
+      setLogFile(testLogPath);
+      logWarn('warning message');
+      logInfo('info message');
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const content = readFileSync(testLogPath, 'utf-8');
+      expect(content).toContain('[WARN] warning message');
+      expect(content).not.toContain('info message');
+    });
+
+    it('should write only levels up to the configured level', async () => {
+      setLogLevel('info');
+      setLogFile(testLogPath);
+      logInfo('info message');
+      logDebug('debug message');
+      logError('error message');
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const content = readFileSync(testLogPath, 'utf-8');
+      expect(content).toContain('info message');
+      expect(content).not.toContain('debug message');
+      expect(content).toContain('error message');
+      expect(isDebugEnabled()).toBe(false);
+    });
+
+    it('should write trace messages at trace level', async () => {
+      setLogLevel('trace');
+      setLogFile(testLogPath);
+      logTrace('trace message');
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(readFileSync(testLogPath, 'utf-8')).toContain('[TRACE] trace message');
+      expect(isDebugEnabled()).toBe(true);
+    });
+  });
+
+  describe('structured fields', () => {
+    it('should append fields as key=value in text format', async () => {
+      setLogLevel('debug');
+      setLogFile(testLogPath);
+      log('debug', 'Tool call completed', { serverKey: 'github', tool: 'github:create_issue', durationMs: 12 });
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(readFileSync(testLogPath, 'utf-8'))
+        .toContain('[DEBUG] Tool call completed serverKey=github tool=github:create_issue durationMs=12');
+    });
+
+    it('should write one JSON object per line in json format', async () => {
+      setLogLevel('debug');
+      setLogFormat('json');
+      setLogFile(testLogPath);
+      log('debug', 'Tool call completed', { requestId: 7, serverKey: 'github', durationMs: 12 });
+      logError('[ERROR] Restart failed:', 'spawn ENOENT');
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const lines = readFileSync(testLogPath, 'utf-8').trim().split('\n').map((line) => JSON.parse(line));
+      expect(lines[0]).toEqual({
+        timestamp: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+        level: 'debug',
+        message: 'Tool call completed',
+        requestId: 7,
+        serverKey: 'github',
+        durationMs: 12
+      });
+      expect(lines[1]).toMatchObject({ level: 'error', message: 'Restart failed: spawn ENOENT' });
+    });
+  });
+
+  describe('rotation', () => {
+    const rotatedFiles = (): string[] =>
+      readdirSync(testDir).filter((name) => name !== 'app.log').sort();
+
+    it('should rotate by size and keep maxFiles rotated files', async () => {
+      mkdirSync(testDir, { recursive: true });
+      const logPath = join(testDir, 'app.log');
+      setLogRotation({ maxSize: 100, maxFiles: 2 });
+      setLogFile(logPath);
+
+      for (let i = 1; i <= 4; i++) {
+        logError(`message ${i} ${'x'.repeat(60)}`);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(rotatedFiles()).toEqual(['app.log.1', 'app.log.2']);
+      expect(readFileSync(logPath, 'utf-8')).toContain('message 4');
+      expect(readFileSync(`${logPath}.1`, 'utf-8')).toContain('message 3');
+      expect(readFileSync(`${logPath}.2`, 'utf-8')).toContain('message 2');
+    });
+
+    it('should rotate when the day changes', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      try {
+        mkdirSync(testDir, { recursive: true });
+        const logPath = join(testDir, 'app.log');
+        setLogRotation({ interval: 'daily' });
+        setLogFile(logPath);
+
+        vi.setSystemTime(new Date('2025-03-01T23:59:00Z'));
+        logError('before midnight');
+        logError('still before midnight');
+        vi.setSystemTime(new Date('2025-03-02T00:01:00Z'));
+        logError('after midnight');
+
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        expect(rotatedFiles()).toEqual(['app.log.1']);
+        expect(readFileSync(`${logPath}.1`, 'utf-8')).toContain('still before midnight');
+        expect(readFileSync(logPath, 'utf-8')).not.toContain('before midnight');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
 });
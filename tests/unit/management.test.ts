@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { McpConfig, ChildServerClient, ToolRegistry } from '../../src/types.js';
+import { ServerStatus } from '../../src/types.js';
+
+// Serve every "spawned" child from an in-process MCP server over an in-memory transport
+const { spawned } = vi.hoisted(() => ({ spawned: { count: 0 } }));
+
+vi.mock('@modelcontextprotocol/sdk/client/stdio.js', async () => {
+  const { InMemoryTransport } = await import('@modelcontextprotocol/sdk/inMemory.js');
+  const { Server } = await import('@modelcontextprotocol/sdk/server/index.js');
+  const { ListToolsRequestSchema } = await import('@modelcontextprotocol/sdk/types.js');
+
+  return {
+    StdioClientTransport: function (options: { args: string[] }) {
+      spawned.count++;
+      const server = new Server({ name: 'child', version: '1.0.0' }, { capabilities: { tools: {} } });
+      server.setRequestHandler(ListToolsRequestSchema, async () => ({
+        tools: options.args.map((name) => ({ name, inputSchema: { type: 'object' as const } }))
+      }));
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      void server.connect(serverTransport);
+      return clientTransport;
+    }
+  };
+});
+
+import { initializeChildren, shutdownAllChildren } from '../../src/child-manager.js';
+import { buildToolRegistry } from '../../src/registry.js';
+import { connectManagementTools, MANAGEMENT_SERVER_KEY } from '../../src/management.js';
+import { assertNoReservedServerKeys } from '../../src/config.js';
+
+/**
+ * Test Suite: Management Tools
+ *
+ * Covers the aggregator:* tools that report child server status and
+ * restart or disable children from within an MCP session.
+ */
+
+// Each child exposes the tools named in its args
+const config: McpConfig = {
+  mcpServers: {
+    filesystem: { command: 'node', args: ['read_file', 'write_file'] },
+    github: { command: 'node', args: ['create_issue'] },
+    broken: { command: 'node', args: [] }
+  }
+};
+
+describe('Management Tools', () => {
+  let children: Map<string, ChildServerClient>;
+  let registry: ToolRegistry;
+  let management: Client;
+  const onToolsChanged = vi.fn();
+
+  const call = async (name: string, args: Record<string, unknown> = {}): Promise<any> => {
+    const entry = registry.get(`${MANAGEMENT_SERVER_KEY}:${name}`)!;
+    const result = await entry.client.callTool({ name: entry.originalName, arguments: args });
+    return JSON.parse((result.content as Array<{ text: string }>)[0]!.text);
+  };
+
+  beforeEach(async () => {
+    spawned.count = 0;
+    onToolsChanged.mockClear();
+    children = await initializeChildren(config);
+    const clients = new Map(Array.from(children, ([serverKey, child]) => [serverKey, child.client]));
+    registry = await buildToolRegistry(clients, ':', config.mcpServers);
+
+    // Simulate a server that failed to start
+    const broken = children.get('broken')!;
+    await broken.client.close();
+    broken.status = ServerStatus.FAILED;
+    broken.error = new Error('spawn ENOENT');
+
+    management = await connectManagementTools(children, registry, { onToolsChanged });
+  });
+
+  afterEach(async () => {
+    await management.close();
+    await shutdownAllChildren(children);
+  });
+
+  it('should register the management tools under the reserved namespace', () => {
+    expect(Array.from(registry.keys()).filter((name) => name.startsWith('aggregator:'))).toEqual([
+      'aggregator:list_servers',
+      'aggregator:status',
+      'aggregator:restart_server',
+      'aggregator:disable_server'
+    ]);
+  });
+
+  it('should list servers with status, transport and tool count', async () => {
+    expect(await call('list_servers')).toEqual({
+      servers: [
+        { serverKey: 'filesystem', status: 'running', transport: 'stdio', toolCount: 2 },
+        { serverKey: 'github', status: 'running', transport: 'stdio', toolCount: 1 },
+        { serverKey: 'broken', status: 'failed', transport: 'stdio', toolCount: 0 }
+      ]
+    });
+  });
+
+  it('should report last error, uptime and tool count', async () => {
+    const status = await call('status');
+
+    expect(status.totalTools).toBe(registry.size);
+    expect(status.servers[0]).toMatchObject({ serverKey: 'filesystem', status: 'running', toolCount: 2 });
+    expect(status.servers[0].uptimeMs).toBeGreaterThanOrEqual(0);
+    expect(status.servers[2]).toMatchObject({
+      serverKey: 'broken',
+      status: 'failed',
+      uptimeMs: null,
+      error: { message: 'spawn ENOENT' }
+    });
+
+    const single = await call('status', { server: 'github' });
+    expect(single.servers.map((s: { serverKey: string }) => s.serverKey)).toEqual(['github']);
+  });
+
+  it('should disable a server and remove its tools until it is restarted', async () => {
+    expect(await call('disable_server', { server: 'filesystem' }))
+      .toEqual({ serverKey: 'filesystem', status: 'stopped' });
+    expect(registry.has('filesystem:read_file')).toBe(false);
+    expect(onToolsChanged).toHaveBeenCalledTimes(1);
+
+    const restarted = await call('restart_server', { server: 'filesystem' });
+
+    expect(restarted).toEqual({ serverKey: 'filesystem', status: 'running', toolCount: 2 });
+    expect(registry.has('filesystem:read_file')).toBe(true);
+    expect(children.get('filesystem')!.restartCount).toBe(1);
+    expect(Array.from(children.keys())).toEqual(['filesystem', 'github', 'broken']);
+    expect(onToolsChanged).toHaveBeenCalledTimes(2);
+  });
+
+  it('should restart a failed server', async () => {
+    const spawnedBefore = spawned.count;
+
+    expect(await call('restart_server', { server: 'broken' }))
+      .toMatchObject({ serverKey: 'broken', status: 'running' });
+    expect(spawned.count).toBe(spawnedBefore + 1);
+  });
+
+  it('should reject unknown or missing servers', async () => {
+    await expect(call('restart_server', { server: 'nope' })).rejects.toThrow(/Unknown server: 'nope'/);
+    await expect(call('disable_server')).rejects.toThrow(/Missing required argument: server/);
+  });
+
+  it('should reserve the management namespace in the config', () => {
+    expect(() => assertNoReservedServerKeys(
+      { mcpServers: { aggregator: { command: 'node' } } },
+      [MANAGEMENT_SERVER_KEY]
+    )).toThrow(/reserved by the aggregator/);
+    expect(() => assertNoReservedServerKeys(config, [MANAGEMENT_SERVER_KEY])).not.toThrow();
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { ChildServerClient, ToolRegistry } from '../../src/types.js';
+import { ServerStatus } from '../../src/types.js';
+import { addServerTools } from '../../src/registry.js';
+import { createAggregatorServer, setupToolCallHandler } from '../../src/server.js';
+import { createMetrics, startMetricsServer } from '../../src/metrics.js';
+import type { AggregatorMetrics, MetricsServer } from '../../src/metrics.js';
+
+/**
+ * Test Suite: Metrics
+ *
+ * Covers the Prometheus text output for tool calls, child status, restarts
+ * and registry size, the calls recorded by the tools/call handler and the
+ * --metrics-port endpoint.
+ */
+
+describe('Metrics', () => {
+  let children: Map<string, ChildServerClient>;
+  let registry: ToolRegistry;
+  let metrics: AggregatorMetrics;
+
+  const child = {
+    callTool: vi.fn()
+  };
+
+  beforeEach(() => {
+    registry = new Map();
+    addServerTools(registry, 'github', child as unknown as Client, [
+      { name: 'create_issue', inputSchema: { type: 'object' } },
+      { name: 'list_issues', inputSchema: { type: 'object' } }
+    ], ':');
+    addServerTools(registry, 'filesystem', child as unknown as Client, [
+      { name: 'read_file', inputSchema: { type: 'object' } }
+    ], ':');
+
+    children = new Map([
+      ['github', {
+        serverKey: 'github',
+        client: child as unknown as Client,
+        config: { command: 'node' },
+        status: ServerStatus.RUNNING,
+        restartCount: 2
+      }],
+      ['filesystem', {
+        serverKey: 'filesystem',
+        client: child as unknown as Client,
+        config: { command: 'node' },
+        status: ServerStatus.FAILED,
+        restartCount: 0
+      }]
+    ]);
+    metrics = createMetrics(children, registry, [0.1, 1]);
+  });
+
+  describe('render', () => {
+    it('should count calls and build cumulative latency histograms', () => {
+      metrics.recordToolCall({ serverKey: 'github', tool: 'github:create_issue', success: true, durationMs: 50 });
+      metrics.recordToolCall({ serverKey: 'github', tool: 'github:create_issue', success: true, durationMs: 500 });
+      metrics.recordToolCall({ serverKey: 'github', tool: 'github:create_issue', success: false, durationMs: 2000 });
+
+      const lines = metrics.render().split('\n');
+      expect(lines).toContain('# TYPE mcp_aggregator_tool_calls_total counter');
+      expect(lines).toContain('mcp_aggregator_tool_calls_total{server="github",tool="github:create_issue",status="success"} 2');
+      expect(lines).toContain('mcp_aggregator_tool_calls_total{server="github",tool="github:create_issue",status="error"} 1');
+      expect(lines).toContain('# TYPE mcp_aggregator_tool_call_duration_seconds histogram');
+      expect(lines).toContain('mcp_aggregator_tool_call_duration_seconds_bucket{server="github",tool="github:create_issue",le="0.1"} 1');
+      expect(lines).toContain('mcp_aggregator_tool_call_duration_seconds_bucket{server="github",tool="github:create_issue",le="1"} 2');
+      expect(lines).toContain('mcp_aggregator_tool_call_duration_seconds_bucket{server="github",tool="github:create_issue",le="+Inf"} 3');
+      expect(lines).toContain('mcp_aggregator_tool_call_duration_seconds_sum{server="github",tool="github:create_issue"} 2.55');
+      expect(lines).toContain('mcp_aggregator_tool_call_duration_seconds_count{server="github",tool="github:create_issue"} 3');
+    });
+
+    it('should report child status, restarts and registry size from live state', () => {
+      registry.delete('github:list_issues');
+      children.get('filesystem')!.status = ServerStatus.RUNNING;
+
+      const lines = metrics.render().split('\n');
+      expect(lines).toContain('mcp_aggregator_child_restarts_total{server="github"} 2');
+      expect(lines).toContain('mcp_aggregator_child_status{server="filesystem",status="running"} 1');
+      expect(lines).toContain('mcp_aggregator_child_status{server="filesystem",status="failed"} 0');
+      expect(lines).toContain('mcp_aggregator_registry_tools 2');
+      expect(lines).toContain('mcp_aggregator_server_tools{server="github"} 1');
+      expect(lines).toContain('mcp_aggregator_server_tools{server="filesystem"} 1');
+    });
+
+    it('should escape label values', () => {
+      metrics.recordToolCall({ serverKey: 'x', tool: 'x:say "hi"\\\n', success: true, durationMs: 1 });
+
+      expect(metrics.render()).toContain('tool="x:say \\"hi\\"\\\\\\n",status="success"} 1');
+    });
+  });
+
+  describe('tools/call', () => {
+    let upstream: Client;
+
+    beforeEach(async () => {
+      const server = createAggregatorServer(new Map(), registry);
+      setupToolCallHandler(server, registry, ':', { metrics });
+      upstream = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: {} });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([server.connect(serverTransport), upstream.connect(clientTransport)]);
+    });
+
+    afterEach(async () => {
+      await upstream.close();
+    });
+
+    it('should record successful, isError and failed calls routed to a child', async () => {
+      child.callTool
+        .mockReset()
+        .mockResolvedValueOnce({ content: [{ type: 'text', text: 'ok' }] })
+        .mockResolvedValueOnce({ isError: true, content: [{ type: 'text', text: 'rate limited' }] })
+        .mockRejectedValueOnce(new Error('connection reset'));
+
+      await upstream.callTool({ name: 'github:create_issue', arguments: {} });
+      await upstream.callTool({ name: 'github:create_issue', arguments: {} });
+      await expect(upstream.callTool({ name: 'github:list_issues', arguments: {} })).rejects.toThrow();
+      await expect(upstream.callTool({ name: 'github:delete_repo', arguments: {} })).rejects.toThrow();
+
+      const output = metrics.render();
+      expect(output).toContain('mcp_aggregator_tool_calls_total{server="github",tool="github:create_issue",status="success"} 1');
+      expect(output).toContain('mcp_aggregator_tool_calls_total{server="github",tool="github:create_issue",status="error"} 1');
+      expect(output).toContain('mcp_aggregator_tool_calls_total{server="github",tool="github:list_issues",status="error"} 1');
+      expect(output).not.toContain('github:delete_repo');
+    });
+  });
+
+  describe('startMetricsServer', () => {
+    let metricsServer: MetricsServer;
+
+    beforeEach(async () => {
+      metricsServer = await startMetricsServer(metrics, { port: 0 });
+    });
+
+    afterEach(async () => {
+      await metricsServer.close();
+    });
+
+    it('should serve the metrics on /metrics in the Prometheus text format', async () => {
+      expect(metricsServer.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/metrics$/);
+
+      const response = await fetch(metricsServer.url);
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toContain('text/plain; version=0.0.4');
+      expect(await response.text()).toContain('mcp_aggregator_registry_tools 3');
+    });
+
+    it('should answer 404 for other paths', async () => {
+      const response = await fetch(metricsServer.url.replace('/metrics', '/health'));
+      expect(response.status).toBe(404);
+    });
+  });
+});
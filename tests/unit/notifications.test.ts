@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { ChildServerClient, ToolRegistry } from '../../src/types.js';
+import { ServerStatus } from '../../src/types.js';
+import {
+  createToolListChangedNotifier,
+  subscribeToToolListChanges
+} from '../../src/notifications.js';
+import { addServerTools } from '../../src/registry.js';
+import { updateChildServerConfig } from '../../src/child-manager.js';
+import { createAggregatorServer } from '../../src/server.js';
+
+/**
+ * Test Suite: Tool List Change Notifications
+ *
+ * Covers debouncing of notifications/tools/list_changed and re-fetching a
+ * child's tools when the child announces its own list change.
+ */
+
+describe('Tool List Change Notifications', () => {
+  describe('createToolListChangedNotifier', () => {
+    let server: Server;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      server = {
+        sendToolListChanged: vi.fn().mockResolvedValue(undefined)
+      } as unknown as Server;
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should collapse a burst of changes into one notification', async () => {
+      const notifier = createToolListChangedNotifier(server, 50);
+
+      notifier.notify();
+      await vi.advanceTimersByTimeAsync(30);
+      notifier.notify();
+      notifier.notify();
+      await vi.advanceTimersByTimeAsync(49);
+      expect(server.sendToolListChanged).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(server.sendToolListChanged).toHaveBeenCalledTimes(1);
+    });
+
+    it('should send immediately on flush and nothing after cancel', async () => {
+      const notifier = createToolListChangedNotifier(server, 50);
+
+      notifier.notify();
+      notifier.flush();
+      expect(server.sendToolListChanged).toHaveBeenCalledTimes(1);
+
+      notifier.notify();
+      notifier.cancel();
+      await vi.advanceTimersByTimeAsync(100);
+      expect(server.sendToolListChanged).toHaveBeenCalledTimes(1);
+    });
+
+    it('should swallow send failures when not connected', async () => {
+      vi.mocked(server.sendToolListChanged).mockRejectedValue(new Error('Not connected'));
+      const notifier = createToolListChangedNotifier(server, 10);
+
+      notifier.notify();
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(server.sendToolListChanged).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reach a connected MCP client', async () => {
+      vi.useRealTimers();
+      const aggregator = createAggregatorServer(new Map(), new Map());
+      const upstream = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: {} });
+      const received = new Promise<void>((resolve) => {
+        upstream.setNotificationHandler(ToolListChangedNotificationSchema, async () => resolve());
+      });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([
+        aggregator.connect(serverTransport),
+        upstream.connect(clientTransport)
+      ]);
+
+      expect(upstream.getServerCapabilities()?.tools).toEqual({ listChanged: true });
+
+      createToolListChangedNotifier(aggregator, 1).notify();
+      await received;
+
+      await upstream.close();
+    });
+  });
+
+  describe('subscribeToToolListChanges', () => {
+    let handler: (() => Promise<void>) | undefined;
+    let client: Client;
+    let child: ChildServerClient;
+    let registry: ToolRegistry;
+
+    beforeEach(() => {
+      handler = undefined;
+      client = {
+        listTools: vi.fn(),
+        setNotificationHandler: vi.fn((_schema, fn) => {
+          handler = fn;
+        })
+      } as unknown as Client;
+      child = {
+        serverKey: 'plugins',
+        client,
+        config: { command: 'node' },
+        status: ServerStatus.RUNNING,
+        restartCount: 0
+      };
+      registry = new Map();
+      addServerTools(registry, 'plugins', client, [
+        { name: 'hello', inputSchema: { type: 'object' } }
+      ]);
+    });
+
+    it('should re-fetch the child tools and report a change', async () => {
+      vi.mocked(client.listTools).mockResolvedValue({
+        tools: [
+          { name: 'hello', inputSchema: { type: 'object' } },
+          { name: 'goodbye', inputSchema: { type: 'object' } }
+        ]
+      });
+      const onChanged = vi.fn();
+
+      subscribeToToolListChanges(child, registry, ':', onChanged);
+      expect(client.setNotificationHandler).toHaveBeenCalledWith(
+        ToolListChangedNotificationSchema,
+        expect.any(Function)
+      );
+      await handler!();
+
+      expect(Array.from(registry.keys())).toEqual(['plugins:hello', 'plugins:goodbye']);
+      expect(onChanged).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not report when the tool list is unchanged', async () => {
+      vi.mocked(client.listTools).mockResolvedValue({
+        tools: [{ name: 'hello', inputSchema: { type: 'object' } }]
+      });
+      const onChanged = vi.fn();
+
+      subscribeToToolListChanges(child, registry, ':', onChanged);
+      await handler!();
+
+      expect(registry.size).toBe(1);
+      expect(onChanged).not.toHaveBeenCalled();
+    });
+
+    it('should apply a reloaded config to later list changes', async () => {
+      vi.mocked(client.listTools).mockResolvedValue({
+        tools: [
+          { name: 'hello', inputSchema: { type: 'object' } },
+          { name: 'goodbye', inputSchema: { type: 'object' } }
+        ]
+      });
+      subscribeToToolListChanges(child, registry, ':', vi.fn());
+
+      // Hot reload excludes a tool without subscribing again
+      await updateChildServerConfig(child, { command: 'node', excludeTools: ['goodbye'] }, registry);
+      expect(Array.from(registry.keys())).toEqual(['plugins:hello']);
+
+      await handler!();
+
+      expect(Array.from(registry.keys())).toEqual(['plugins:hello']);
+    });
+
+    it('should keep existing tools when re-fetching fails', async () => {
+      vi.mocked(client.listTools).mockRejectedValue(new Error('Not connected'));
+      const onChanged = vi.fn();
+
+      subscribeToToolListChanges(child, registry, ':', onChanged);
+      await handler!();
+
+      expect(registry.has('plugins:hello')).toBe(true);
+      expect(onChanged).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { PromptRegistry } from '../../src/types.js';
+import {
+  buildPromptRegistry,
+  addServerPrompts,
+  removeServerPrompts,
+  lookupPrompt
+} from '../../src/prompt-registry.js';
+import { handlePromptsList, handleGetPrompt } from '../../src/server.js';
+
+/**
+ * Test Suite: Prompt Registry
+ *
+ * Covers namespacing of prompt names and routing of prompts/get to the
+ * owning child with the original name and arguments.
+ */
+
+describe('Prompt Registry', () => {
+  let githubClient: Client;
+  let jiraClient: Client;
+
+  beforeEach(() => {
+    githubClient = {
+      listPrompts: vi.fn().mockResolvedValue({ prompts: [] }),
+      getPrompt: vi.fn(),
+      close: vi.fn()
+    } as unknown as Client;
+
+    jiraClient = {
+      listPrompts: vi.fn().mockResolvedValue({ prompts: [] }),
+      getPrompt: vi.fn(),
+      close: vi.fn()
+    } as unknown as Client;
+  });
+
+  describe('buildPromptRegistry', () => {
+    it('should prefix prompt names with serverKey', async () => {
+      vi.mocked(githubClient.listPrompts).mockResolvedValue({
+        prompts: [
+          {
+            name: 'review_pr',
+            description: 'Review a pull request',
+            arguments: [{ name: 'number', required: true }]
+          }
+        ]
+      });
+      vi.mocked(jiraClient.listPrompts).mockResolvedValue({
+        prompts: [{ name: 'triage' }]
+      });
+
+      const registry = await buildPromptRegistry(
+        new Map([
+          ['github', githubClient],
+          ['jira', jiraClient]
+        ])
+      );
+
+      expect(registry.size).toBe(2);
+      expect(registry.get('github:review_pr')?.schema).toEqual({
+        name: 'github:review_pr',
+        description: 'Review a pull request',
+        arguments: [{ name: 'number', required: true }]
+      });
+      expect(registry.get('jira:triage')?.originalName).toBe('triage');
+    });
+
+    it('should use custom separator', async () => {
+      vi.mocked(githubClient.listPrompts).mockResolvedValue({
+        prompts: [{ name: 'review_pr' }]
+      });
+
+      const registry = await buildPromptRegistry(new Map([['github', githubClient]]), '__');
+
+      expect(registry.has('github__review_pr')).toBe(true);
+    });
+
+    it('should treat children without prompts support as empty', async () => {
+      vi.mocked(githubClient.listPrompts).mockRejectedValue(
+        new McpError(ErrorCode.MethodNotFound, 'Method not found')
+      );
+
+      const registry = await buildPromptRegistry(new Map([['github', githubClient]]));
+
+      expect(registry.size).toBe(0);
+    });
+  });
+
+  describe('removeServerPrompts', () => {
+    it('should remove only the crashed server prompts', () => {
+      const registry: PromptRegistry = new Map();
+      addServerPrompts(registry, 'github', githubClient, [{ name: 'review_pr' }]);
+      addServerPrompts(registry, 'jira', jiraClient, [{ name: 'triage' }]);
+
+      removeServerPrompts(registry, 'github');
+
+      expect(Array.from(registry.keys())).toEqual(['jira:triage']);
+      expect(lookupPrompt(registry, 'github:review_pr')).toBeUndefined();
+    });
+  });
+
+  describe('server handlers', () => {
+    let registry: PromptRegistry;
+
+    beforeEach(() => {
+      registry = new Map();
+      addServerPrompts(registry, 'github', githubClient, [{ name: 'review_pr' }]);
+    });
+
+    it('should list prefixed prompts', () => {
+      expect(handlePromptsList(registry)).toEqual({
+        prompts: [{ name: 'github:review_pr' }]
+      });
+    });
+
+    it('should forward original name and arguments to the child', async () => {
+      const childResponse = {
+        messages: [{ role: 'user', content: { type: 'text', text: 'Review #42' } }]
+      };
+      vi.mocked(githubClient.getPrompt).mockResolvedValue(childResponse);
+
+      const result = await handleGetPrompt(registry, 'github:review_pr', { number: '42' });
+
+      expect(githubClient.getPrompt).toHaveBeenCalledWith({
+        name: 'review_pr',
+        arguments: { number: '42' }
+      });
+      expect(result).toEqual(childResponse);
+    });
+
+    it('should route with a custom separator', async () => {
+      const custom: PromptRegistry = new Map();
+      addServerPrompts(custom, 'github', githubClient, [{ name: 'review_pr' }], '__');
+      vi.mocked(githubClient.getPrompt).mockResolvedValue({ messages: [] });
+
+      await handleGetPrompt(custom, 'github__review_pr', undefined, '__');
+
+      expect(githubClient.getPrompt).toHaveBeenCalledWith({ name: 'review_pr' });
+    });
+
+    it('should reject names without a prefix', async () => {
+      await expect(handleGetPrompt(registry, 'review_pr', undefined)).rejects.toMatchObject({
+        code: ErrorCode.InvalidRequest
+      });
+    });
+
+    it('should reject unknown prompts', async () => {
+      await expect(handleGetPrompt(registry, 'github:unknown', undefined)).rejects.toMatchObject({
+        code: ErrorCode.InvalidParams
+      });
+    });
+
+    it('should forward child McpErrors unchanged', async () => {
+      const childError = new McpError(ErrorCode.InvalidParams, 'Missing argument: number');
+      vi.mocked(githubClient.getPrompt).mockRejectedValue(childError);
+
+      await expect(handleGetPrompt(registry, 'github:review_pr', {})).rejects.toBe(childError);
+    });
+  });
+});
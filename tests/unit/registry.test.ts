@@ -21,6 +21,7 @@ import {
  * - T071 [P] [US2] Preserve original tool name for routing
  * - T072 [P] [US2] Remove tools when server crashes
  * - T073 [P] [US2] Lookup tool by prefixed name in O(1) time
+ * - Custom and disabled prefixes, with ownership tracked per entry
  */
 
 describe('Tool Registry', () => {
@@ -335,6 +336,18 @@ describe('Tool Registry', () => {
       expect(registry.has('db2:query')).toBe(true);
       expect(registry.has('database:query')).toBe(true);
     });
+
+    it('should report whether any tools were added or removed', () => {
+      const registry: ToolRegistry = new Map();
+      const tools: ToolSchema[] = [
+        { name: 'query', description: 'Query', inputSchema: { type: 'object' } }
+      ];
+
+      expect(addServerTools(registry, 'db', mockClient1, tools)).toBe(true);
+      expect(addServerTools(registry, 'db', mockClient1, tools)).toBe(false);
+      expect(removeServerTools(registry, 'db')).toBe(true);
+      expect(removeServerTools(registry, 'db')).toBe(false);
+    });
   });
 
   // T073 [P] [US2] Write test: Lookup tool by prefixed name in O(1) time
@@ -577,4 +590,48 @@ describe('Tool Registry', () => {
       expect(registry.has('database:query')).toBe(false);
     });
   });
+
+  describe('prefix option', () => {
+    const tool = (name: string): ToolSchema => ({ name, inputSchema: { type: 'object' } });
+
+    it('should expose tools under a custom prefix or their own names', () => {
+      const registry: ToolRegistry = new Map();
+
+      addServerTools(registry, 'filesystem', mockClient1, [tool('read_file')], ':', { command: 'node', prefix: 'fs' });
+      addServerTools(registry, 'github', mockClient2, [tool('create_issue')], ':', { command: 'node', prefix: false });
+
+      expect(Array.from(registry.keys())).toEqual(['fs:read_file', 'create_issue']);
+      expect(lookupTool(registry, 'create_issue')).toMatchObject({
+        serverKey: 'github',
+        originalName: 'create_issue',
+        schema: { name: 'create_issue' }
+      });
+    });
+
+    it('should remove tools by owner rather than by name prefix', () => {
+      const registry: ToolRegistry = new Map();
+
+      // Server 'db' is unprefixed while server 'replica' uses the prefix 'db'
+      addServerTools(registry, 'db', mockClient1, [tool('query')], ':', { command: 'node', prefix: false });
+      addServerTools(registry, 'replica', mockClient2, [tool('query')], ':', { command: 'node', prefix: 'db' });
+
+      expect(removeServerTools(registry, 'db')).toBe(true);
+      expect(Array.from(registry.keys())).toEqual(['db:query']);
+      expect(registry.get('db:query')?.serverKey).toBe('replica');
+    });
+
+    it('should report conflicts between unprefixed tools at startup', async () => {
+      const listTools = (tools: ToolSchema[]) => ({ listTools: vi.fn().mockResolvedValue({ tools }) });
+
+      await expect(buildToolRegistry(new Map([
+        ['github', listTools([tool('search')]) as unknown as Client],
+        ['gitlab', listTools([tool('search'), tool('merge')]) as unknown as Client]
+      ]), ':', {
+        github: { command: 'node', prefix: false },
+        gitlab: { command: 'node', prefix: false }
+      })).rejects.toThrow(
+        /Tool name collisions: 'search' \(server 'github' tool 'search' and server 'gitlab' tool 'search'\)\. .*set a "prefix"/
+      );
+    });
+  });
 });
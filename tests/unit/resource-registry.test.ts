@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { ResourceRegistry } from '../../src/types.js';
+import {
+  buildResourceRegistry,
+  addServerResources,
+  removeServerResources,
+  lookupResource,
+  createResourceRegistry
+} from '../../src/resource-registry.js';
+import {
+  handleResourcesList,
+  handleResourceTemplatesList,
+  handleReadResource
+} from '../../src/server.js';
+
+/**
+ * Test Suite: Resource Registry
+ *
+ * Covers namespacing of resource URIs and URI templates, routing of
+ * resources/read back to the owning child, and cleanup on crash.
+ */
+
+describe('Resource Registry', () => {
+  let fsClient: Client;
+  let dbClient: Client;
+
+  beforeEach(() => {
+    fsClient = {
+      listResources: vi.fn().mockResolvedValue({ resources: [] }),
+      listResourceTemplates: vi.fn().mockResolvedValue({ resourceTemplates: [] }),
+      readResource: vi.fn(),
+      close: vi.fn()
+    } as unknown as Client;
+
+    dbClient = {
+      listResources: vi.fn().mockResolvedValue({ resources: [] }),
+      listResourceTemplates: vi.fn().mockResolvedValue({ resourceTemplates: [] }),
+      readResource: vi.fn(),
+      close: vi.fn()
+    } as unknown as Client;
+  });
+
+  describe('buildResourceRegistry', () => {
+    it('should prefix resource URIs and URI templates with serverKey', async () => {
+      vi.mocked(fsClient.listResources).mockResolvedValue({
+        resources: [{ uri: 'file:///tmp/a.txt', name: 'a.txt', mimeType: 'text/plain' }]
+      });
+      vi.mocked(dbClient.listResourceTemplates).mockResolvedValue({
+        resourceTemplates: [{ uriTemplate: 'db://{table}', name: 'Table' }]
+      });
+
+      const registry = await buildResourceRegistry(
+        new Map([
+          ['filesystem', fsClient],
+          ['postgres', dbClient]
+        ])
+      );
+
+      expect(registry.resources.size).toBe(1);
+      expect(registry.resources.get('filesystem:file:///tmp/a.txt')?.schema).toEqual({
+        uri: 'filesystem:file:///tmp/a.txt',
+        name: 'a.txt',
+        mimeType: 'text/plain'
+      });
+      expect(registry.templates.get('postgres:db://{table}')?.originalUriTemplate).toBe(
+        'db://{table}'
+      );
+    });
+
+    it('should follow pagination cursors', async () => {
+      vi.mocked(fsClient.listResources)
+        .mockResolvedValueOnce({
+          resources: [{ uri: 'file:///a', name: 'a' }],
+          nextCursor: 'page-2'
+        })
+        .mockResolvedValueOnce({
+          resources: [{ uri: 'file:///b', name: 'b' }]
+        });
+
+      const registry = await buildResourceRegistry(new Map([['fs', fsClient]]));
+
+      expect(fsClient.listResources).toHaveBeenCalledTimes(2);
+      expect(fsClient.listResources).toHaveBeenLastCalledWith({ cursor: 'page-2' });
+      expect(Array.from(registry.resources.keys())).toEqual(['fs:file:///a', 'fs:file:///b']);
+    });
+
+    it('should treat children without resources support as empty', async () => {
+      vi.mocked(fsClient.listResources).mockRejectedValue(
+        new McpError(ErrorCode.MethodNotFound, 'Method not found')
+      );
+      vi.mocked(fsClient.listResourceTemplates).mockRejectedValue(
+        new McpError(ErrorCode.MethodNotFound, 'Method not found')
+      );
+
+      const registry = await buildResourceRegistry(new Map([['fs', fsClient]]));
+
+      expect(registry.resources.size).toBe(0);
+      expect(registry.templates.size).toBe(0);
+    });
+
+    it('should use custom separator', async () => {
+      vi.mocked(fsClient.listResources).mockResolvedValue({
+        resources: [{ uri: 'file:///a', name: 'a' }]
+      });
+
+      const registry = await buildResourceRegistry(new Map([['fs', fsClient]]), '__');
+
+      expect(registry.resources.has('fs__file:///a')).toBe(true);
+    });
+  });
+
+  describe('removeServerResources', () => {
+    it('should remove only the crashed server resources and templates', () => {
+      const registry = createResourceRegistry();
+      addServerResources(registry, 'fs', fsClient, [{ uri: 'file:///a', name: 'a' }], [
+        { uriTemplate: 'file:///{path}', name: 'File' }
+      ]);
+      addServerResources(registry, 'db', dbClient, [{ uri: 'db://users', name: 'users' }], []);
+
+      removeServerResources(registry, 'fs');
+
+      expect(Array.from(registry.resources.keys())).toEqual(['db:db://users']);
+      expect(registry.templates.size).toBe(0);
+    });
+  });
+
+  describe('lookupResource', () => {
+    let registry: ResourceRegistry;
+
+    beforeEach(() => {
+      registry = createResourceRegistry();
+      addServerResources(registry, 'fs', fsClient, [{ uri: 'file:///a', name: 'a' }], []);
+      addServerResources(registry, 'db', dbClient, [], [
+        { uriTemplate: 'db://{table}', name: 'Table' }
+      ]);
+    });
+
+    it('should resolve listed resources exactly', () => {
+      expect(lookupResource(registry, 'fs:file:///a')).toEqual({
+        client: fsClient,
+        serverKey: 'fs',
+        originalUri: 'file:///a'
+      });
+    });
+
+    it('should route template-expanded URIs by prefix', () => {
+      expect(lookupResource(registry, 'db:db://orders')).toEqual({
+        client: dbClient,
+        serverKey: 'db',
+        originalUri: 'db://orders'
+      });
+    });
+
+    it('should return undefined for unknown servers or unprefixed URIs', () => {
+      expect(lookupResource(registry, 'unknown:file:///a')).toBeUndefined();
+      expect(lookupResource(registry, 'no-prefix')).toBeUndefined();
+    });
+  });
+
+  describe('server handlers', () => {
+    let registry: ResourceRegistry;
+
+    beforeEach(() => {
+      registry = createResourceRegistry();
+      addServerResources(registry, 'fs', fsClient, [{ uri: 'file:///a', name: 'a' }], [
+        { uriTemplate: 'file:///{path}', name: 'File' }
+      ]);
+    });
+
+    it('should list prefixed resources and templates', () => {
+      expect(handleResourcesList(registry).resources).toEqual([
+        { uri: 'fs:file:///a', name: 'a' }
+      ]);
+      expect(handleResourceTemplatesList(registry).resourceTemplates).toEqual([
+        { uriTemplate: 'fs:file:///{path}', name: 'File' }
+      ]);
+    });
+
+    it('should forward reads with the original URI and prefix returned contents', async () => {
+      vi.mocked(fsClient.readResource).mockResolvedValue({
+        contents: [{ uri: 'file:///a', mimeType: 'text/plain', text: 'hello' }]
+      });
+
+      const result = await handleReadResource(registry, 'fs:file:///a');
+
+      expect(fsClient.readResource).toHaveBeenCalledWith({ uri: 'file:///a' });
+      expect(result.contents).toEqual([
+        { uri: 'fs:file:///a', mimeType: 'text/plain', text: 'hello' }
+      ]);
+    });
+
+    it('should reject reads of unknown resources with InvalidParams', async () => {
+      await expect(handleReadResource(registry, 'other:file:///a')).rejects.toMatchObject({
+        code: ErrorCode.InvalidParams
+      });
+    });
+
+    it('should wrap non-MCP child errors as InternalError', async () => {
+      vi.mocked(fsClient.readResource).mockRejectedValue(new Error('disk on fire'));
+
+      await expect(handleReadResource(registry, 'fs:file:///a')).rejects.toMatchObject({
+        code: ErrorCode.InternalError,
+        message: expect.stringContaining('disk on fire')
+      });
+    });
+  });
+});
@@ -10,6 +10,9 @@
  */
 
 import { describe, it, expect } from 'vitest';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { ToolRegistry } from '../../src/types.js';
+import { addServerTools } from '../../src/registry.js';
 import { parseToolPrefix } from '../../src/server.js';
 
 describe('Request Routing', () => {
@@ -61,6 +64,21 @@ describe('Request Routing', () => {
         toolName: 'tool:with:colons'
       });
     });
+
+    it('should resolve custom-prefixed and unprefixed names from the registry', () => {
+      const registry: ToolRegistry = new Map();
+      const client = {} as Client;
+      addServerTools(registry, 'filesystem', client, [
+        { name: 'read_file', inputSchema: { type: 'object' } }
+      ], ':', { command: 'node', prefix: false });
+      addServerTools(registry, 'postgres', client, [
+        { name: 'query', inputSchema: { type: 'object' } }
+      ], ':', { command: 'node', prefix: 'db' });
+
+      expect(parseToolPrefix('read_file', ':', registry)).toEqual({ serverKey: 'filesystem', toolName: 'read_file' });
+      expect(parseToolPrefix('db:query', ':', registry)).toEqual({ serverKey: 'postgres', toolName: 'query' });
+      expect(parseToolPrefix('write_file', ':', registry)).toBeNull();
+    });
   });
 
 });
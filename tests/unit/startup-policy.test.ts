@@ -0,0 +1,238 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { McpConfig } from '../../src/types.js';
+import { ServerStatus, ChildServerError, ErrorPhase } from '../../src/types.js';
+
+// Replace the SDK client and stdio transport so startup never spawns processes.
+// Clients are looked up by server key via the client name set in createChildClient().
+const { clientsByServer } = vi.hoisted(() => ({ clientsByServer: new Map<string, unknown>() }));
+
+vi.mock('@modelcontextprotocol/sdk/client/index.js', () => ({
+  Client: vi.fn((info: { name: string }) =>
+    clientsByServer.get(info.name.replace('mcp-aggregator-client-', ''))
+  )
+}));
+
+vi.mock('@modelcontextprotocol/sdk/client/stdio.js', () => ({
+  StdioClientTransport: vi.fn()
+}));
+
+import { initializeChildren, getServerStatuses, connectToChild } from '../../src/child-manager.js';
+
+/**
+ * Test Suite: Startup Policies
+ *
+ * Covers failFast, bestEffort and requireAtLeast startup, per-server
+ * `required`, status reporting for failed servers, and parallel startup
+ * with per-server timeouts.
+ */
+
+function createMockClient(options: { connectError?: Error; healthError?: Error } = {}): Client {
+  return {
+    connect: options.connectError
+      ? vi.fn().mockRejectedValue(options.connectError)
+      : vi.fn().mockResolvedValue(undefined),
+    listTools: options.healthError
+      ? vi.fn().mockRejectedValue(options.healthError)
+      : vi.fn().mockResolvedValue({ tools: [] }),
+    close: vi.fn().mockResolvedValue(undefined)
+  } as unknown as Client;
+}
+
+const config: McpConfig = {
+  mcpServers: {
+    filesystem: { command: 'node' },
+    broken: { command: 'does-not-exist' },
+    unhealthy: { command: 'node' }
+  }
+};
+
+describe('Startup Policies', () => {
+  beforeEach(() => {
+    clientsByServer.clear();
+    clientsByServer.set('filesystem', createMockClient());
+    clientsByServer.set('broken', createMockClient({ connectError: new Error('spawn ENOENT') }));
+    clientsByServer.set('unhealthy', createMockClient({ healthError: new Error('Method not found') }));
+  });
+
+  it('should abort on the first failure by default (failFast)', async () => {
+    await expect(initializeChildren(config)).rejects.toMatchObject({
+      serverKey: 'broken',
+      phase: ErrorPhase.STARTUP
+    });
+  });
+
+  it('should start healthy servers and record failures with their phase (bestEffort)', async () => {
+    const children = await initializeChildren(config, { mode: 'bestEffort' });
+
+    expect(children.get('filesystem')?.status).toBe(ServerStatus.RUNNING);
+
+    const broken = children.get('broken');
+    expect(broken?.status).toBe(ServerStatus.FAILED);
+    expect(broken?.error).toBeInstanceOf(ChildServerError);
+    expect((broken?.error as ChildServerError).phase).toBe(ErrorPhase.STARTUP);
+
+    const unhealthy = children.get('unhealthy');
+    expect(unhealthy?.status).toBe(ServerStatus.FAILED);
+    expect((unhealthy?.error as ChildServerError).phase).toBe(ErrorPhase.INITIALIZATION);
+  });
+
+  it('should close a child that started but failed its health check', async () => {
+    await initializeChildren(config, { mode: 'bestEffort' });
+
+    expect((clientsByServer.get('unhealthy') as Client).close).toHaveBeenCalled();
+  });
+
+  it('should enforce the minimum number of running servers (requireAtLeast)', async () => {
+    const children = await initializeChildren(config, { mode: 'requireAtLeast', count: 1 });
+    expect(children.size).toBe(3);
+
+    await expect(
+      initializeChildren(config, { mode: 'requireAtLeast', count: 2 })
+    ).rejects.toThrow(/Only 1 of 3 child servers started/);
+  });
+
+  it('should abort when a required server fails under any policy', async () => {
+    const requiredConfig: McpConfig = {
+      mcpServers: {
+        ...config.mcpServers,
+        unhealthy: { command: 'node', required: true }
+      }
+    };
+
+    await expect(
+      initializeChildren(requiredConfig, { mode: 'bestEffort' })
+    ).rejects.toMatchObject({
+      serverKey: 'unhealthy',
+      phase: ErrorPhase.INITIALIZATION
+    });
+  });
+
+  it('should report status, phase and required flag for each server', async () => {
+    const children = await initializeChildren(
+      {
+        mcpServers: {
+          filesystem: { command: 'node', required: true },
+          broken: { command: 'does-not-exist' }
+        }
+      },
+      { mode: 'bestEffort' }
+    );
+
+    const statuses = getServerStatuses(children);
+
+    expect(statuses).toEqual([
+      {
+        serverKey: 'filesystem',
+        status: ServerStatus.RUNNING,
+        required: true,
+        restartCount: 0,
+        restartPending: false
+      },
+      {
+        serverKey: 'broken',
+        status: ServerStatus.FAILED,
+        required: false,
+        restartCount: 0,
+        restartPending: false,
+        error: {
+          message: expect.stringContaining('spawn ENOENT'),
+          phase: ErrorPhase.STARTUP
+        }
+      }
+    ]);
+  });
+
+  describe('parallel startup', () => {
+    it('should start children concurrently up to the limit', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const servers: McpConfig['mcpServers'] = {};
+
+      for (let i = 1; i <= 5; i++) {
+        const client = createMockClient();
+        vi.mocked(client.connect).mockImplementation(async () => {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          inFlight--;
+        });
+        clientsByServer.set(`server${i}`, client);
+        servers[`server${i}`] = { command: 'node' };
+      }
+
+      const children = await initializeChildren({ mcpServers: servers }, { mode: 'failFast' }, 2);
+
+      expect(maxInFlight).toBe(2);
+      expect(Array.from(children.keys())).toEqual([
+        'server1', 'server2', 'server3', 'server4', 'server5'
+      ]);
+    });
+
+    it('should start 6 slow child servers faster concurrently than sequentially', async () => {
+      const servers: McpConfig['mcpServers'] = {};
+      for (let i = 1; i <= 6; i++) {
+        // Simulates the install/boot time of a real child (e.g., `npx -y some-server`)
+        const client = createMockClient();
+        vi.mocked(client.connect).mockImplementation(() => new Promise((resolve) => setTimeout(resolve, 30)));
+        clientsByServer.set(`server${i}`, client);
+        servers[`server${i}`] = { command: 'node' };
+      }
+
+      const measure = async (concurrency: number): Promise<number> => {
+        const startTime = Date.now();
+        await initializeChildren({ mcpServers: servers }, { mode: 'failFast' }, concurrency);
+        return Date.now() - startTime;
+      };
+
+      const sequentialTime = await measure(1);
+      const parallelTime = await measure(6);
+
+      // Boot delays overlap when started concurrently
+      expect(parallelTime).toBeLessThan(sequentialTime * 0.75);
+    });
+
+    it('should shut down started children when startup is aborted', async () => {
+      await expect(initializeChildren(config, { mode: 'failFast' }, 3)).rejects.toMatchObject({
+        serverKey: 'broken'
+      });
+
+      expect((clientsByServer.get('filesystem') as Client).close).toHaveBeenCalled();
+    });
+
+    it('should fail with an INITIALIZATION error when a child exceeds startupTimeoutMs', async () => {
+      const hanging = createMockClient();
+      vi.mocked(hanging.connect).mockReturnValue(new Promise(() => {}));
+      clientsByServer.set('hanging', hanging);
+
+      const error = await connectToChild('hanging', { command: 'node', startupTimeoutMs: 20 })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ChildServerError);
+      expect((error as ChildServerError).phase).toBe(ErrorPhase.INITIALIZATION);
+      expect((error as ChildServerError).message).toContain('did not finish starting within 20ms');
+      expect(hanging.close).toHaveBeenCalled();
+    });
+
+    it('should keep serving other children when one times out (bestEffort)', async () => {
+      const hanging = createMockClient();
+      vi.mocked(hanging.listTools).mockReturnValue(new Promise(() => {}));
+      clientsByServer.set('hanging', hanging);
+
+      const children = await initializeChildren(
+        {
+          mcpServers: {
+            filesystem: { command: 'node' },
+            hanging: { command: 'node', startupTimeoutMs: 20 }
+          }
+        },
+        { mode: 'bestEffort' }
+      );
+
+      expect(children.get('filesystem')?.status).toBe(ServerStatus.RUNNING);
+      expect(children.get('hanging')?.status).toBe(ServerStatus.FAILED);
+      expect((children.get('hanging')?.error as ChildServerError).phase)
+        .toBe(ErrorPhase.INITIALIZATION);
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { ChildServerClient, ToolRegistry } from '../../src/types.js';
+import { ServerStatus, ChildServerError, ErrorPhase } from '../../src/types.js';
+
+// Replace the SDK client and stdio transport so restarts never spawn processes
+const { clientQueue } = vi.hoisted(() => ({ clientQueue: [] as unknown[] }));
+
+vi.mock('@modelcontextprotocol/sdk/client/index.js', () => ({
+  Client: vi.fn(() => clientQueue.shift())
+}));
+
+vi.mock('@modelcontextprotocol/sdk/client/stdio.js', () => ({
+  StdioClientTransport: vi.fn()
+}));
+
+import { setupErrorHandlers, shutdownChild } from '../../src/child-manager.js';
+import {
+  DEFAULT_RESTART_POLICY,
+  resolveRestartPolicy,
+  computeRestartDelay,
+  scheduleRestart,
+  cancelRestart,
+  isRestartPending
+} from '../../src/supervisor.js';
+
+/**
+ * Test Suite: Child Server Supervisor
+ *
+ * Covers exponential backoff, restart bookkeeping on ChildServerClient, and
+ * re-registration of tools after a crashed child comes back.
+ */
+
+function createMockClient(toolNames: string[] = []): Client {
+  return {
+    connect: vi.fn().mockResolvedValue(undefined),
+    listTools: vi.fn().mockResolvedValue({
+      tools: toolNames.map((name) => ({ name, inputSchema: { type: 'object' } }))
+    }),
+    callTool: vi.fn(),
+    setNotificationHandler: vi.fn(),
+    close: vi.fn().mockResolvedValue(undefined)
+  } as unknown as Client;
+}
+
+function createChild(client: Client, restart?: ChildServerClient['config']['restart']): ChildServerClient {
+  return {
+    serverKey: 'flaky',
+    client,
+    config: restart ? { command: 'node', restart } : { command: 'node' },
+    status: ServerStatus.FAILED,
+    restartCount: 0
+  };
+}
+
+describe('Supervisor', () => {
+  const connectToChild = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    connectToChild.mockReset();
+    clientQueue.length = 0;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('backoff', () => {
+    it('should fill unset policy fields with defaults', () => {
+      expect(resolveRestartPolicy()).toEqual(DEFAULT_RESTART_POLICY);
+      expect(resolveRestartPolicy({ maxAttempts: 2 })).toEqual({
+        ...DEFAULT_RESTART_POLICY,
+        maxAttempts: 2
+      });
+    });
+
+    it('should double the delay per attempt up to the cap', () => {
+      const policy = { initialDelayMs: 100, maxDelayMs: 500, maxAttempts: 10 };
+
+      expect(computeRestartDelay(1, policy)).toBe(100);
+      expect(computeRestartDelay(2, policy)).toBe(200);
+      expect(computeRestartDelay(3, policy)).toBe(400);
+      expect(computeRestartDelay(4, policy)).toBe(500);
+      expect(computeRestartDelay(10, policy)).toBe(500);
+    });
+  });
+
+  describe('scheduleRestart', () => {
+    it('should reconnect after the initial delay and update the child in place', async () => {
+      const oldClient = createMockClient();
+      const newClient = createMockClient();
+      const child = createChild(oldClient, { initialDelayMs: 100 });
+      child.error = new Error('boom');
+      connectToChild.mockResolvedValue({ ...child, client: newClient });
+      const onRestarted = vi.fn();
+
+      expect(scheduleRestart(child, connectToChild, onRestarted)).toBe(true);
+      expect(isRestartPending(child)).toBe(true);
+
+      await vi.advanceTimersByTimeAsync(99);
+      expect(connectToChild).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(connectToChild).toHaveBeenCalledWith('flaky', child.config);
+      expect(child.client).toBe(newClient);
+      expect(child.status).toBe(ServerStatus.RUNNING);
+      expect(child.error).toBeUndefined();
+      expect(child.restartCount).toBe(1);
+      expect(onRestarted).toHaveBeenCalledWith(child);
+    });
+
+    it('should retry with backoff and give up after maxAttempts', async () => {
+      const child = createChild(createMockClient(), {
+        initialDelayMs: 100,
+        maxDelayMs: 1000,
+        maxAttempts: 3
+      });
+      connectToChild.mockRejectedValue(
+        new ChildServerError('spawn failed', 'flaky', ErrorPhase.STARTUP)
+      );
+      const onRestarted = vi.fn();
+
+      scheduleRestart(child, connectToChild, onRestarted);
+
+      await vi.advanceTimersByTimeAsync(100); // attempt 1
+      await vi.advanceTimersByTimeAsync(200); // attempt 2
+      await vi.advanceTimersByTimeAsync(400); // attempt 3
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(connectToChild).toHaveBeenCalledTimes(3);
+      expect(isRestartPending(child)).toBe(false);
+      expect(child.status).toBe(ServerStatus.FAILED);
+      expect(child.error).toBeInstanceOf(ChildServerError);
+      expect(child.restartCount).toBe(0);
+      expect(onRestarted).not.toHaveBeenCalled();
+    });
+
+    it('should not schedule anything when maxAttempts is 0', () => {
+      const child = createChild(createMockClient(), { maxAttempts: 0 });
+
+      expect(scheduleRestart(child, connectToChild, vi.fn())).toBe(false);
+      expect(isRestartPending(child)).toBe(false);
+    });
+
+    it('should not restart a cancelled or stopped child', async () => {
+      const child = createChild(createMockClient(), { initialDelayMs: 100 });
+
+      scheduleRestart(child, connectToChild, vi.fn());
+      cancelRestart(child);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(connectToChild).not.toHaveBeenCalled();
+
+      scheduleRestart(child, connectToChild, vi.fn());
+      await shutdownChild(child);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(connectToChild).not.toHaveBeenCalled();
+      expect(child.status).toBe(ServerStatus.STOPPED);
+    });
+  });
+
+  describe('setupErrorHandlers integration', () => {
+    it('should remove tools on crash and re-register them after restart', async () => {
+      const oldClient = createMockClient(['query']);
+      const newClient = createMockClient(['query', 'explain']);
+      const child = createChild(oldClient, { initialDelayMs: 50 });
+      child.status = ServerStatus.RUNNING;
+      const children = new Map([['flaky', child]]);
+      const registry: ToolRegistry = new Map();
+      registry.set('flaky__query', {
+        client: oldClient,
+        serverKey: 'flaky',
+        originalName: 'query',
+        schema: { name: 'flaky__query', inputSchema: { type: 'object' } }
+      });
+      clientQueue.push(newClient);
+
+      setupErrorHandlers(children, registry, { separator: '__' });
+
+      // Child process exits
+      oldClient.onclose?.();
+
+      expect(child.status).toBe(ServerStatus.FAILED);
+      expect(registry.size).toBe(0);
+      expect(oldClient.close).toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(child.status).toBe(ServerStatus.RUNNING);
+      expect(child.restartCount).toBe(1);
+      expect(Array.from(registry.keys())).toEqual(['flaky__query', 'flaky__explain']);
+      expect(registry.get('flaky__query')?.client).toBe(newClient);
+
+      // Late events from the replaced client are ignored
+      oldClient.onerror?.(new Error('stale'));
+      expect(child.status).toBe(ServerStatus.RUNNING);
+    });
+
+    it('should retry servers that failed during startup in the background', async () => {
+      const newClient = createMockClient(['query']);
+      const child = createChild(createMockClient(), { initialDelayMs: 50 });
+      child.error = new ChildServerError('spawn failed', 'flaky', ErrorPhase.STARTUP);
+      const registry: ToolRegistry = new Map();
+      const onToolsChanged = vi.fn();
+      clientQueue.push(newClient);
+
+      setupErrorHandlers(new Map([['flaky', child]]), registry, { onToolsChanged });
+      expect(isRestartPending(child)).toBe(true);
+
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(child.status).toBe(ServerStatus.RUNNING);
+      expect(child.client).toBe(newClient);
+      expect(registry.has('flaky:query')).toBe(true);
+      expect(onToolsChanged).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not treat an intentional shutdown as a crash', async () => {
+      const client = createMockClient(['query']);
+      vi.mocked(client.close).mockImplementation(async () => {
+        client.onclose?.();
+      });
+      const child = createChild(client);
+      child.status = ServerStatus.RUNNING;
+
+      setupErrorHandlers(new Map([['flaky', child]]), new Map());
+      await shutdownChild(child);
+
+      expect(child.status).toBe(ServerStatus.STOPPED);
+      expect(isRestartPending(child)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { ToolRegistry, ToolSchema } from '../../src/types.js';
+import { matchesToolPattern, isToolAllowed } from '../../src/tool-filter.js';
+import { addServerTools, buildToolRegistry, lookupTool } from '../../src/registry.js';
+
+/**
+ * Test Suite: Tool Filtering
+ *
+ * Covers includeTools / excludeTools matching (exact names and globs) and
+ * their enforcement when tools are added to the registry.
+ */
+
+const tools: ToolSchema[] = [
+  { name: 'query', inputSchema: { type: 'object' } },
+  { name: 'drop_table', inputSchema: { type: 'object' } },
+  { name: 'drop_index', inputSchema: { type: 'object' } },
+  { name: 'list_tables', inputSchema: { type: 'object' } }
+];
+
+describe('Tool Filtering', () => {
+  describe('matchesToolPattern', () => {
+    it('should match exact names', () => {
+      expect(matchesToolPattern('query', 'query')).toBe(true);
+      expect(matchesToolPattern('query_all', 'query')).toBe(false);
+    });
+
+    it('should support * and ? globs', () => {
+      expect(matchesToolPattern('drop_table', 'drop_*')).toBe(true);
+      expect(matchesToolPattern('table_drop', 'drop_*')).toBe(false);
+      expect(matchesToolPattern('delete_branch', 'delete_?ranch')).toBe(true);
+      expect(matchesToolPattern('delete_branch', '*')).toBe(true);
+    });
+
+    it('should treat regex characters literally', () => {
+      expect(matchesToolPattern('read.file', 'read.*')).toBe(true);
+      expect(matchesToolPattern('readXfile', 'read.*')).toBe(false);
+      expect(matchesToolPattern('a+b', 'a+b')).toBe(true);
+    });
+  });
+
+  describe('isToolAllowed', () => {
+    it('should allow everything without filters', () => {
+      expect(isToolAllowed('drop_table', {})).toBe(true);
+    });
+
+    it('should only allow included tools when includeTools is set', () => {
+      const config = { includeTools: ['query', 'list_*'] };
+
+      expect(isToolAllowed('query', config)).toBe(true);
+      expect(isToolAllowed('list_tables', config)).toBe(true);
+      expect(isToolAllowed('drop_table', config)).toBe(false);
+    });
+
+    it('should apply excludeTools after includeTools', () => {
+      const config = { includeTools: ['*'], excludeTools: ['drop_*'] };
+
+      expect(isToolAllowed('query', config)).toBe(true);
+      expect(isToolAllowed('drop_index', config)).toBe(false);
+    });
+  });
+
+  describe('registry enforcement', () => {
+    const client = { listTools: vi.fn() } as unknown as Client;
+
+    it('should skip filtered tools in addServerTools', () => {
+      const registry: ToolRegistry = new Map();
+
+      addServerTools(registry, 'postgres', client, tools, ':', {
+        command: 'node',
+        excludeTools: ['drop_*']
+      });
+
+      expect(Array.from(registry.keys())).toEqual(['postgres:query', 'postgres:list_tables']);
+      expect(lookupTool(registry, 'postgres:drop_table')).toBeUndefined();
+    });
+
+    it('should filter per server in buildToolRegistry', async () => {
+      vi.mocked(client.listTools).mockResolvedValue({ tools });
+      const other = { listTools: vi.fn().mockResolvedValue({ tools }) } as unknown as Client;
+
+      const registry = await buildToolRegistry(
+        new Map([['postgres', client], ['replica', other]]),
+        ':',
+        { postgres: { command: 'node', includeTools: ['query'] } }
+      );
+
+      expect(registry.has('postgres:query')).toBe(true);
+      expect(registry.has('postgres:drop_table')).toBe(false);
+      expect(registry.has('replica:drop_table')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { ToolRegistry, ToolSchema, ToolNameCollision } from '../../src/types.js';
+import { addServerTools, buildToolRegistry, removeServerTools, refreshServerTools } from '../../src/registry.js';
+import { createAggregatorServer, setupToolCallHandler } from '../../src/server.js';
+import { applyToolNamePolicy, setToolNamePolicy, setToolCollisionStrategy } from '../../src/tool-names.js';
+import { parseToolPrefix } from '../../src/server.js';
+import { logError } from '../../src/logger.js';
+
+vi.mock('../../src/logger.js', async (importOriginal) => {
+  const logger = await importOriginal<typeof import('../../src/logger.js')>();
+  return { ...logger, logError: vi.fn(logger.logError) };
+});
+
+/**
+ * Test Suite: Tool Name Policy
+ *
+ * Covers sanitizing and shortening exposed tool names for strict clients,
+ * routing calls under rewritten names, and the collision strategies for
+ * different tools that end up with the same name.
+ */
+
+const STRICT_NAME = /^[a-zA-Z0-9_-]{1,64}$/;
+
+describe('Tool Name Policy', () => {
+  beforeEach(() => {
+    setToolNamePolicy({ mode: 'strict', maxLength: 64 });
+  });
+
+  afterEach(() => {
+    setToolNamePolicy({ mode: 'preserve' });
+    setToolCollisionStrategy('error');
+  });
+
+  describe('applyToolNamePolicy', () => {
+    it('should replace disallowed characters with underscores', () => {
+      expect(applyToolNamePolicy('filesystem:read_file')).toBe('filesystem_read_file');
+      expect(applyToolNamePolicy('my.server::list files')).toBe('my_server__list_files');
+      expect(applyToolNamePolicy('github-enterprise:create-issue')).toBe('github-enterprise_create-issue');
+    });
+
+    it('should shorten long names with a stable hash suffix', () => {
+      const first = 'analytics-warehouse-production:run_saved_query_against_replica_with_timeout';
+      const second = 'analytics-warehouse-production:run_saved_query_against_replica_with_retries';
+
+      const shortened = applyToolNamePolicy(first);
+      expect(shortened).toMatch(STRICT_NAME);
+      expect(shortened).toHaveLength(64);
+      expect(shortened).toMatch(/^analytics-warehouse-production_run_saved_query_against__[0-9a-f]{8}$/);
+      expect(applyToolNamePolicy(first)).toBe(shortened);
+      expect(applyToolNamePolicy(second)).not.toBe(shortened);
+    });
+
+    it('should honour a custom maximum length and leave names alone under preserve', () => {
+      setToolNamePolicy({ mode: 'strict', maxLength: 20 });
+      expect(applyToolNamePolicy('filesystem:read_multiple_files')).toMatch(/^filesystem__[0-9a-f]{8}$/);
+
+      setToolNamePolicy({ mode: 'preserve' });
+      expect(applyToolNamePolicy('filesystem:read_file')).toBe('filesystem:read_file');
+    });
+  });
+
+  describe('registry', () => {
+    const client = {} as Client;
+    const tool = (name: string): ToolSchema => ({ name, inputSchema: { type: 'object' } });
+
+    it('should register rewritten names with the original name for routing', () => {
+      const registry: ToolRegistry = new Map();
+      addServerTools(registry, 'my.files', client, [tool('read file')], ':');
+
+      expect(Array.from(registry.keys())).toEqual(['my_files_read_file']);
+      expect(registry.get('my_files_read_file')).toMatchObject({
+        serverKey: 'my.files',
+        originalName: 'read file',
+        schema: { name: 'my_files_read_file' }
+      });
+
+      expect(removeServerTools(registry, 'my.files')).toBe(true);
+      expect(registry.size).toBe(0);
+    });
+
+    it('should report collisions produced by sanitization at build time', async () => {
+      const listTools = (name: string) => ({ listTools: vi.fn().mockResolvedValue({ tools: [tool(name)] }) });
+
+      await expect(buildToolRegistry(new Map([
+        ['a.b', listTools('c') as unknown as Client],
+        ['a_b', listTools('c') as unknown as Client]
+      ]), ':')).rejects.toThrow(
+        "Tool name collisions: 'a_b_c' (server 'a.b' tool 'c' and server 'a_b' tool 'c')"
+      );
+    });
+
+    it('should keep the first tool when a later one collides', () => {
+      const registry: ToolRegistry = new Map();
+      const collisions: ToolNameCollision[] = [];
+
+      addServerTools(registry, 'a.b', client, [tool('c')], ':');
+      expect(addServerTools(registry, 'a_b', client, [tool('c')], ':', undefined, collisions)).toBe(false);
+
+      expect(registry.get('a_b_c')?.serverKey).toBe('a.b');
+      expect(collisions).toEqual([{
+        name: 'a_b_c',
+        existing: { serverKey: 'a.b', originalName: 'c' },
+        incoming: { serverKey: 'a_b', originalName: 'c' }
+      }]);
+    });
+  });
+
+  describe('collision strategies', () => {
+    const client = {} as Client;
+    const tool = (name: string): ToolSchema => ({ name, inputSchema: { type: 'object' } });
+
+    // Server 'a_b' tool 'c' and server 'a' tool 'b_c' both become 'a_b_c' with the '_' separator
+    const addColliding = (registry: ToolRegistry, collisions: ToolNameCollision[] = []): void => {
+      addServerTools(registry, 'a_b', client, [tool('c')], '_', undefined, collisions);
+      addServerTools(registry, 'a', client, [tool('b_c')], '_', undefined, collisions);
+    };
+
+    beforeEach(() => {
+      setToolNamePolicy({ mode: 'preserve' });
+    });
+
+    it('should fail buildToolRegistry under the default error strategy', async () => {
+      const listTools = (name: string) => ({ listTools: vi.fn().mockResolvedValue({ tools: [tool(name)] }) });
+
+      await expect(buildToolRegistry(new Map([
+        ['a_b', listTools('c') as unknown as Client],
+        ['a', listTools('b_c') as unknown as Client]
+      ]), '_')).rejects.toThrow(/Tool name collisions: 'a_b_c' \(server 'a_b' tool 'c' and server 'a' tool 'b_c'\)/);
+    });
+
+    it('should keep the first tool with first-wins', () => {
+      setToolCollisionStrategy('first-wins');
+      const registry: ToolRegistry = new Map();
+      const collisions: ToolNameCollision[] = [];
+
+      addColliding(registry, collisions);
+
+      expect(registry.size).toBe(1);
+      expect(registry.get('a_b_c')).toMatchObject({ serverKey: 'a_b', originalName: 'c' });
+      expect(collisions).toHaveLength(1);
+    });
+
+    it('should replace the first tool with last-wins', () => {
+      setToolCollisionStrategy('last-wins');
+      const registry: ToolRegistry = new Map();
+
+      addColliding(registry);
+
+      expect(registry.size).toBe(1);
+      expect(registry.get('a_b_c')).toMatchObject({ serverKey: 'a', originalName: 'b_c' });
+    });
+
+    it('should restore the replaced tool when the last one is removed with last-wins', () => {
+      setToolCollisionStrategy('last-wins');
+      const registry: ToolRegistry = new Map();
+
+      addColliding(registry);
+      removeServerTools(registry, 'a');
+      expect(registry.get('a_b_c')).toMatchObject({ serverKey: 'a_b', originalName: 'c' });
+      removeServerTools(registry, 'a_b');
+      expect(registry.size).toBe(0);
+
+      // Removing the replaced server first leaves nothing to restore later
+      addColliding(registry);
+      removeServerTools(registry, 'a_b');
+      expect(registry.get('a_b_c')).toMatchObject({ serverKey: 'a', originalName: 'b_c' });
+      removeServerTools(registry, 'a');
+      expect(registry.size).toBe(0);
+    });
+
+    it('should log collisions found while refreshing under the error strategy', async () => {
+      const registry: ToolRegistry = new Map();
+      addServerTools(registry, 'a_b', client, [tool('c')], '_');
+      const listTools = vi.fn().mockResolvedValue({ tools: [tool('b_c'), tool('d')] });
+      vi.mocked(logError).mockClear();
+
+      await refreshServerTools(registry, 'a', { listTools } as unknown as Client, '_');
+
+      expect(Array.from(registry.keys())).toEqual(['a_b_c', 'a_d']);
+      expect(registry.get('a_b_c')?.serverKey).toBe('a_b');
+      expect(logError).toHaveBeenCalledWith(expect.stringContaining(
+        "Tool name collisions after refreshing 'a': 'a_b_c' (server 'a_b' tool 'c' and server 'a' tool 'b_c')"
+      ));
+    });
+
+    it('should expose later tools under numbered names with auto-suffix', () => {
+      setToolCollisionStrategy('auto-suffix');
+      const registry: ToolRegistry = new Map();
+      const collisions: ToolNameCollision[] = [];
+
+      addColliding(registry, collisions);
+      // Re-adding the same tools keeps their names instead of suffixing again
+      addColliding(registry);
+
+      expect(Array.from(registry.keys())).toEqual(['a_b_c', 'a_b_c_2']);
+      expect(registry.get('a_b_c_2')).toMatchObject({
+        serverKey: 'a',
+        originalName: 'b_c',
+        schema: { name: 'a_b_c_2' }
+      });
+      expect(collisions).toEqual([expect.objectContaining({ name: 'a_b_c', resolvedName: 'a_b_c_2' })]);
+    });
+
+    it('should resolve registered names from the registry instead of splitting them', () => {
+      setToolCollisionStrategy('auto-suffix');
+      const registry: ToolRegistry = new Map();
+      addColliding(registry);
+
+      expect(parseToolPrefix('a_b_c_2', '_', registry)).toEqual({ serverKey: 'a', toolName: 'b_c' });
+      expect(parseToolPrefix('a_b_c', '_', registry)).toEqual({ serverKey: 'a_b', toolName: 'c' });
+      expect(parseToolPrefix('x_unknown', '_', registry)).toEqual({ serverKey: 'x', toolName: 'unknown' });
+    });
+  });
+
+  describe('tools/call', () => {
+    let upstream: Client;
+    const child = { callTool: vi.fn() };
+
+    beforeEach(async () => {
+      child.callTool.mockReset().mockResolvedValue({ content: [{ type: 'text', text: 'ok' }] });
+      const registry: ToolRegistry = new Map();
+      addServerTools(registry, 'filesystem', child as unknown as Client, [
+        { name: 'read_file', inputSchema: { type: 'object' } }
+      ], ':');
+
+      const server = createAggregatorServer(new Map(), registry);
+      setupToolCallHandler(server, registry, ':');
+      upstream = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: {} });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([server.connect(serverTransport), upstream.connect(clientTransport)]);
+    });
+
+    afterEach(async () => {
+      await upstream.close();
+    });
+
+    it('should list and route tools under their rewritten names', async () => {
+      const { tools } = await upstream.listTools();
+      expect(tools.map((t) => t.name)).toEqual(['filesystem_read_file']);
+
+      await upstream.callTool({ name: 'filesystem_read_file', arguments: {} });
+      expect(child.callTool.mock.calls[0]![0]).toMatchObject({ name: 'read_file' });
+
+      await expect(upstream.callTool({ name: 'filesystem:read_file', arguments: {} }))
+        .rejects.toThrow('Tool not found: filesystem:read_file');
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { ToolRegistry, ToolSchema } from '../../src/types.js';
+import { applyToolOverride, resolveToolArguments } from '../../src/tool-overrides.js';
+import { addServerTools } from '../../src/registry.js';
+import { createAggregatorServer, setupToolCallHandler, DEFAULT_CALL_TIMEOUT_MS } from '../../src/server.js';
+
+/**
+ * Test Suite: Tool Overrides
+ *
+ * Covers renaming, aliases and description overrides, pinned and default
+ * arguments, and that calls to an overridden name are still routed to the
+ * child with its original name and the resolved arguments.
+ */
+
+const searchIssues: ToolSchema = {
+  name: 'search_issues',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      repo: { type: 'string' },
+      query: { type: 'string' },
+      limit: { type: 'number' }
+    },
+    required: ['repo', 'query', 'limit'],
+    additionalProperties: false
+  }
+};
+
+const runQuery: ToolSchema = {
+  name: 'run_query',
+  description: 'Runs SQL',
+  inputSchema: { type: 'object', properties: { sql: { type: 'string' } } }
+};
+
+describe('Tool Overrides', () => {
+  describe('applyToolOverride', () => {
+    it('should return the tool unchanged without an override', () => {
+      expect(applyToolOverride(runQuery)).toEqual([runQuery]);
+    });
+
+    it('should rename and add aliases', () => {
+      const exposed = applyToolOverride(runQuery, { name: 'query', aliases: ['sql', 'query'] });
+
+      expect(exposed.map((tool) => tool.name)).toEqual(['query', 'sql']);
+      expect(exposed[1]?.inputSchema).toEqual(runQuery.inputSchema);
+    });
+
+    it('should replace and append to the description', () => {
+      expect(applyToolOverride(runQuery, { description: 'Query the warehouse' })[0]?.description)
+        .toBe('Query the warehouse');
+      expect(applyToolOverride(runQuery, { appendDescription: 'Read-only.' })[0]?.description)
+        .toBe('Runs SQL\n\nRead-only.');
+      expect(
+        applyToolOverride(runQuery, { description: 'Query the warehouse', appendDescription: 'Read-only.' })[0]
+          ?.description
+      ).toBe('Query the warehouse\n\nRead-only.');
+      expect(
+        applyToolOverride({ name: 'x', inputSchema: { type: 'object' } }, { appendDescription: 'Read-only.' })[0]
+          ?.description
+      ).toBe('Read-only.');
+    });
+  });
+
+  describe('pinned and default arguments', () => {
+    it('should hide pinned arguments and mark defaulted ones in the exposed schema', () => {
+      const [exposed] = applyToolOverride(searchIssues, {
+        pinnedArguments: { repo: 'our-org/main' },
+        defaultArguments: { limit: 50 }
+      });
+
+      expect(exposed?.inputSchema).toEqual({
+        type: 'object',
+        properties: {
+          query: { type: 'string' },
+          limit: { type: 'number', default: 50 }
+        },
+        required: ['query'],
+        additionalProperties: false
+      });
+      // The child's schema is left untouched
+      expect(searchIssues.inputSchema.required).toEqual(['repo', 'query', 'limit']);
+    });
+
+    it('should fill in defaults and let pinned arguments win over the caller', () => {
+      const entry = { pinnedArguments: { repo: 'our-org/main' }, defaultArguments: { limit: 50 } };
+
+      expect(resolveToolArguments(entry, { query: 'is:open' }))
+        .toEqual({ repo: 'our-org/main', query: 'is:open', limit: 50 });
+      expect(resolveToolArguments(entry, { query: 'is:open', limit: 5, repo: 'other/repo' }))
+        .toEqual({ repo: 'our-org/main', query: 'is:open', limit: 5 });
+      expect(resolveToolArguments({}, { query: 'is:open' })).toEqual({ query: 'is:open' });
+    });
+
+    it('should forward resolved arguments and reject pinned ones from the caller', async () => {
+      const child = {
+        callTool: vi.fn().mockResolvedValue({ content: [{ type: 'text', text: 'ok' }] })
+      } as unknown as Client;
+      const registry: ToolRegistry = new Map();
+      addServerTools(registry, 'github', child, [searchIssues], ':', {
+        command: 'node',
+        tools: { search_issues: { pinnedArguments: { repo: 'our-org/main' }, defaultArguments: { limit: 50 } } }
+      });
+
+      const server = createAggregatorServer(new Map(), registry);
+      setupToolCallHandler(server, registry, ':');
+      const upstream = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: {} });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([server.connect(serverTransport), upstream.connect(clientTransport)]);
+
+      await upstream.callTool({ name: 'github:search_issues', arguments: { query: 'is:open' } });
+      expect(child.callTool).toHaveBeenCalledWith(
+        { name: 'search_issues', arguments: { limit: 50, query: 'is:open', repo: 'our-org/main' } },
+        undefined,
+        expect.anything()
+      );
+
+      // additionalProperties: false rejects the hidden argument
+      await expect(upstream.callTool({
+        name: 'github:search_issues',
+        arguments: { query: 'is:open', repo: 'other/repo' }
+      })).rejects.toThrow(/Invalid arguments for tool 'github:search_issues'/);
+      expect(child.callTool).toHaveBeenCalledTimes(1);
+
+      await upstream.close();
+    });
+  });
+
+  describe('registry and routing', () => {
+    it('should store every exposed name with the original name for routing', () => {
+      const registry: ToolRegistry = new Map();
+      const client = {} as Client;
+
+      addServerTools(registry, 'warehouse', client, [runQuery], ':', {
+        command: 'node',
+        tools: { run_query: { name: 'query', aliases: ['sql'], appendDescription: 'Read-only.' } }
+      });
+
+      expect(Array.from(registry.keys())).toEqual(['warehouse:query', 'warehouse:sql']);
+      expect(registry.get('warehouse:sql')?.originalName).toBe('run_query');
+      expect(registry.get('warehouse:query')?.schema).toEqual({
+        ...runQuery,
+        name: 'warehouse:query',
+        description: 'Runs SQL\n\nRead-only.'
+      });
+    });
+
+    it('should forward calls to an alias with the original tool name', async () => {
+      const child = {
+        callTool: vi.fn().mockResolvedValue({ content: [{ type: 'text', text: 'ok' }] })
+      } as unknown as Client;
+      const registry: ToolRegistry = new Map();
+      addServerTools(registry, 'warehouse', child, [runQuery], ':', {
+        command: 'node',
+        tools: { run_query: { aliases: ['sql'] } }
+      });
+
+      const server = createAggregatorServer(new Map(), registry);
+      setupToolCallHandler(server, registry, ':');
+      const upstream = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: {} });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([server.connect(serverTransport), upstream.connect(clientTransport)]);
+
+      const result = await upstream.callTool({ name: 'warehouse:sql', arguments: { sql: 'select 1' } });
+
+      expect(result.content).toEqual([{ type: 'text', text: 'ok' }]);
+      expect(child.callTool).toHaveBeenCalledWith(
+        { name: 'run_query', arguments: { sql: 'select 1' } },
+        undefined,
+        expect.objectContaining({ timeout: DEFAULT_CALL_TIMEOUT_MS })
+      );
+
+      await upstream.close();
+    });
+  });
+});
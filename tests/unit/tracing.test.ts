@@ -0,0 +1,220 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createServer } from 'node:http';
+import type { Server as HttpServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { ToolRegistry } from '../../src/types.js';
+import { addServerTools, buildToolRegistry } from '../../src/registry.js';
+import { createAggregatorServer, setupToolCallHandler } from '../../src/server.js';
+import {
+  configureTracing,
+  resetTracing,
+  flushTraces,
+  withSpan,
+  startSpan,
+  parseTraceparent,
+  formatTraceparent
+} from '../../src/tracing.js';
+
+/**
+ * Test Suite: Tracing
+ *
+ * Covers span nesting, W3C traceparent handling, OTLP/HTTP JSON export, the
+ * spans of routed tool calls (with trace context sent to the child) and of
+ * registry building.
+ */
+
+describe('Tracing', () => {
+  let collector: HttpServer;
+  let endpoint: string;
+  let exported: any[];
+  let collectorStatus: number;
+
+  // Exported spans by name, flattened across export requests
+  const exportedSpans = async (): Promise<any[]> => {
+    await flushTraces();
+    return exported.flatMap((body) => body.resourceSpans[0].scopeSpans[0].spans);
+  };
+
+  beforeEach(async () => {
+    exported = [];
+    collectorStatus = 200;
+    collector = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        if (collectorStatus === 200) {
+          exported.push(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+        }
+        res.writeHead(collectorStatus, { 'Content-Type': 'application/json' }).end('{}');
+      });
+    });
+    await new Promise<void>((resolve) => collector.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(collector.address() as AddressInfo).port}/v1/traces`;
+    configureTracing({ endpoint, serviceName: 'test-aggregator' });
+  });
+
+  afterEach(async () => {
+    resetTracing();
+    collector.closeAllConnections();
+    await new Promise((resolve) => collector.close(resolve));
+  });
+
+  describe('spans', () => {
+    it('should nest spans across awaits and export them as OTLP JSON', async () => {
+      await withSpan('parent', { attributes: { 'mcp.server_count': 2 } }, async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        await withSpan('child', { kind: 'client' }, () => undefined);
+      });
+
+      await flushTraces();
+      expect(exported).toHaveLength(1);
+      expect(exported[0].resourceSpans[0].resource.attributes).toEqual([
+        { key: 'service.name', value: { stringValue: 'test-aggregator' } }
+      ]);
+
+      const [child, parent] = await exportedSpans();
+      expect(parent).toMatchObject({
+        name: 'parent',
+        kind: 1,
+        attributes: [{ key: 'mcp.server_count', value: { intValue: '2' } }],
+        status: { code: 0 }
+      });
+      expect(parent.parentSpanId).toBeUndefined();
+      expect(child).toMatchObject({ name: 'child', kind: 3, traceId: parent.traceId, parentSpanId: parent.spanId });
+      expect(BigInt(parent.endTimeUnixNano)).toBeGreaterThanOrEqual(BigInt(parent.startTimeUnixNano));
+    });
+
+    it('should mark spans whose function throws as failed', async () => {
+      await expect(withSpan('failing', {}, () => {
+        throw new Error('boom');
+      })).rejects.toThrow('boom');
+
+      const [span] = await exportedSpans();
+      expect(span.status).toEqual({ code: 2, message: 'boom' });
+    });
+
+    it('should export spans of a failed batch with the next one and drop rejected ones', async () => {
+      collectorStatus = 503;
+      await withSpan('unavailable', {}, () => undefined);
+      await flushTraces();
+      expect(exported).toEqual([]);
+
+      collectorStatus = 200;
+      await withSpan('recovered', {}, () => undefined);
+      expect((await exportedSpans()).map((span) => span.name)).toEqual(['unavailable', 'recovered']);
+
+      collectorStatus = 400;
+      await withSpan('rejected', {}, () => undefined);
+      await flushTraces();
+      collectorStatus = 200;
+      await flushTraces();
+      expect(exported).toHaveLength(1);
+    });
+
+    it('should not export anything while tracing is off', async () => {
+      resetTracing();
+
+      const span = startSpan('ignored');
+      span.end();
+      await withSpan('ignored', {}, (noop) => expect(noop.context).toBeUndefined());
+      await flushTraces();
+
+      expect(exported).toEqual([]);
+    });
+  });
+
+  describe('traceparent', () => {
+    it('should format and parse W3C traceparent values', () => {
+      const context = { traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7' };
+
+      expect(formatTraceparent(context)).toBe('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+      expect(parseTraceparent(formatTraceparent(context))).toEqual(context);
+      expect(parseTraceparent('00-00000000000000000000000000000000-00f067aa0ba902b7-01')).toBeUndefined();
+      expect(parseTraceparent('not-a-traceparent')).toBeUndefined();
+      expect(parseTraceparent(42)).toBeUndefined();
+    });
+  });
+
+  describe('tools/call', () => {
+    let upstream: Client;
+    const child = { callTool: vi.fn() };
+
+    beforeEach(async () => {
+      child.callTool.mockReset().mockResolvedValue({ content: [{ type: 'text', text: 'ok' }] });
+      const registry: ToolRegistry = new Map();
+      addServerTools(registry, 'github', child as unknown as Client, [
+        { name: 'create_issue', inputSchema: { type: 'object' } }
+      ], ':');
+
+      const server = createAggregatorServer(new Map(), registry);
+      setupToolCallHandler(server, registry, ':');
+      upstream = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: {} });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([server.connect(serverTransport), upstream.connect(clientTransport)]);
+    });
+
+    afterEach(async () => {
+      await upstream.close();
+    });
+
+    it('should trace the upstream call and the routed call, continuing the caller trace', async () => {
+      const caller = { traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7' };
+
+      await upstream.callTool({
+        name: 'github:create_issue',
+        arguments: {},
+        _meta: { traceparent: formatTraceparent(caller) }
+      });
+
+      const spans = await exportedSpans();
+      const serverSpan = spans.find((span) => span.kind === 2);
+      const clientSpan = spans.find((span) => span.kind === 3);
+      expect(serverSpan).toMatchObject({
+        name: 'tools/call github:create_issue',
+        traceId: caller.traceId,
+        parentSpanId: caller.spanId
+      });
+      expect(serverSpan.attributes).toContainEqual({ key: 'mcp.server_key', value: { stringValue: 'github' } });
+      expect(clientSpan).toMatchObject({
+        name: 'tools/call create_issue',
+        traceId: caller.traceId,
+        parentSpanId: serverSpan.spanId
+      });
+
+      // The child receives the routed call's span as its parent
+      expect(child.callTool.mock.calls[0]![0]._meta).toEqual({
+        traceparent: formatTraceparent({ traceId: caller.traceId, spanId: clientSpan.spanId })
+      });
+    });
+
+    it('should mark isError results as failed and not send trace context while tracing is off', async () => {
+      child.callTool.mockResolvedValueOnce({ isError: true, content: [{ type: 'text', text: 'rate limited' }] });
+      await upstream.callTool({ name: 'github:create_issue', arguments: {} });
+
+      const clientSpan = (await exportedSpans()).find((span) => span.kind === 3);
+      expect(clientSpan.status.code).toBe(2);
+
+      resetTracing();
+      await upstream.callTool({ name: 'github:create_issue', arguments: {} });
+      expect(child.callTool.mock.calls[1]![0]).not.toHaveProperty('_meta');
+    });
+  });
+
+  describe('startup', () => {
+    it('should trace buildToolRegistry with a tools/list span per server', async () => {
+      const client = { listTools: vi.fn().mockResolvedValue({ tools: [{ name: 'read_file', inputSchema: { type: 'object' } }] }) };
+
+      await buildToolRegistry(new Map([
+        ['filesystem', client as unknown as Client],
+        ['github', client as unknown as Client]
+      ]), ':');
+
+      const spans = await exportedSpans();
+      const root = spans.find((span) => span.name === 'buildToolRegistry');
+      expect(root.attributes).toContainEqual({ key: 'mcp.tool_count', value: { intValue: '2' } });
+      expect(spans.filter((span) => span.name === 'tools/list' && span.parentSpanId === root.spanId)).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolRegistry, ToolSchema, VirtualToolConfig } from '../../src/types.js';
+import { addServerTools } from '../../src/registry.js';
+import { createAggregatorServer, setupToolCallHandler } from '../../src/server.js';
+import {
+  connectVirtualTools,
+  renderStepArguments,
+  VIRTUAL_TOOLS_SERVER_KEY
+} from '../../src/virtual-tools.js';
+
+/**
+ * Test Suite: Virtual Tools
+ *
+ * Covers registering virtual tools, fanning out calls and merging their
+ * content, chaining calls with the previous step's output, and rendering
+ * placeholders in step arguments.
+ */
+
+const tool = (name: string): ToolSchema => ({ name, inputSchema: { type: 'object' } });
+const text = (value: string) => ({ content: [{ type: 'text', text: value }] });
+
+const virtualTools: Record<string, VirtualToolConfig> = {
+  search_everywhere: {
+    mode: 'fanOut',
+    description: 'Search docs, Jira and GitHub at once',
+    inputSchema: { type: 'object', properties: { query: { type: 'string' } }, required: ['query'] },
+    steps: [
+      { tool: 'docs:search' },
+      { tool: 'jira:search', arguments: { jql: 'text ~ "{{input.query}}"' } },
+      { tool: 'github:search_code', arguments: { q: '{{input.query}}' } }
+    ]
+  },
+  open_issue_for_page: {
+    mode: 'chain',
+    steps: [
+      { tool: 'docs:get_page', arguments: { id: '{{input.page}}' } },
+      { tool: 'github:create_issue', arguments: { title: 'Review {{previous.json.title}}', labels: '{{previous.json.labels}}' } }
+    ]
+  }
+};
+
+describe('Virtual Tools', () => {
+  let registry: ToolRegistry;
+  let upstream: Client;
+  const docs = { callTool: vi.fn() };
+  const jira = { callTool: vi.fn() };
+  const github = { callTool: vi.fn() };
+
+  beforeEach(async () => {
+    docs.callTool.mockReset();
+    jira.callTool.mockReset();
+    github.callTool.mockReset();
+
+    registry = new Map();
+    addServerTools(registry, 'docs', docs as unknown as Client, [tool('search'), tool('get_page')], ':');
+    addServerTools(registry, 'jira', jira as unknown as Client, [tool('search')], ':');
+    addServerTools(registry, 'github', github as unknown as Client, [tool('search_code'), tool('create_issue')], ':', {
+      command: 'node',
+      tools: { create_issue: { pinnedArguments: { repo: 'our-org/main' } } }
+    });
+    await connectVirtualTools(virtualTools, registry, { separator: ':' });
+
+    const server = createAggregatorServer(new Map(), registry);
+    setupToolCallHandler(server, registry, ':');
+    upstream = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: {} });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), upstream.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await upstream.close();
+  });
+
+  it('should register virtual tools unprefixed with their own inputSchema', async () => {
+    expect(registry.get('search_everywhere')).toMatchObject({
+      serverKey: VIRTUAL_TOOLS_SERVER_KEY,
+      originalName: 'search_everywhere',
+      schema: { description: 'Search docs, Jira and GitHub at once', inputSchema: { required: ['query'] } }
+    });
+
+    const { tools } = await upstream.listTools();
+    expect(tools.find((t) => t.name === 'open_issue_for_page')?.description)
+      .toBe('Calls docs:get_page, github:create_issue in sequence.');
+
+    await expect(upstream.callTool({ name: 'search_everywhere', arguments: {} }))
+      .rejects.toThrow(/Invalid arguments for tool 'search_everywhere'/);
+  });
+
+  it('should report an unknown unprefixed name as an unknown tool', async () => {
+    await expect(upstream.callTool({ name: 'search_nowhere', arguments: {} }))
+      .rejects.toMatchObject({ code: ErrorCode.MethodNotFound, message: expect.stringContaining('Unknown tool: search_nowhere') });
+  });
+
+  describe('fanOut', () => {
+    it('should call every step in parallel and merge their content in step order', async () => {
+      docs.callTool.mockResolvedValue(text('docs hit'));
+      jira.callTool.mockResolvedValue(text('jira hit'));
+      github.callTool.mockResolvedValue(text('github hit'));
+
+      const result = await upstream.callTool({ name: 'search_everywhere', arguments: { query: 'outage' } });
+
+      expect(result.content).toEqual([
+        { type: 'text', text: 'docs hit' },
+        { type: 'text', text: 'jira hit' },
+        { type: 'text', text: 'github hit' }
+      ]);
+      expect(result.isError).toBeUndefined();
+      expect(docs.callTool.mock.calls[0]![0]).toMatchObject({ name: 'search', arguments: { query: 'outage' } });
+      expect(jira.callTool.mock.calls[0]![0]).toMatchObject({ arguments: { jql: 'text ~ "outage"' } });
+      expect(github.callTool.mock.calls[0]![0]).toMatchObject({ arguments: { q: 'outage' } });
+    });
+
+    it('should report failed steps and only fail when every step failed', async () => {
+      docs.callTool.mockResolvedValue(text('docs hit'));
+      jira.callTool.mockRejectedValue(new Error('connection reset'));
+      github.callTool.mockResolvedValue({ ...text('rate limited'), isError: true });
+
+      const partial = await upstream.callTool({ name: 'search_everywhere', arguments: { query: 'outage' } });
+      expect(partial.isError).toBeUndefined();
+      expect(partial.content).toEqual([
+        { type: 'text', text: 'docs hit' },
+        { type: 'text', text: expect.stringContaining("Step 'jira:search' failed:") },
+        { type: 'text', text: "Step 'github:search_code' failed: rate limited" }
+      ]);
+
+      docs.callTool.mockRejectedValue(new Error('down'));
+      const failed = await upstream.callTool({ name: 'search_everywhere', arguments: { query: 'outage' } });
+      expect(failed.isError).toBe(true);
+    });
+  });
+
+  describe('chain', () => {
+    it('should pass the previous output to the next step and return the last result', async () => {
+      docs.callTool.mockResolvedValue(text(JSON.stringify({ title: 'Runbook', labels: ['docs'] })));
+      github.callTool.mockResolvedValue(text('issue #42'));
+
+      const result = await upstream.callTool({ name: 'open_issue_for_page', arguments: { page: 7 } });
+
+      expect(result.content).toEqual([{ type: 'text', text: 'issue #42' }]);
+      expect(docs.callTool.mock.calls[0]![0]).toMatchObject({ name: 'get_page', arguments: { id: 7 } });
+      // Steps are routed like client calls, so the pinned repo is applied
+      expect(github.callTool.mock.calls[0]![0]).toMatchObject({
+        name: 'create_issue',
+        arguments: { title: 'Review Runbook', labels: ['docs'], repo: 'our-org/main' }
+      });
+    });
+
+    it('should stop at the first failed step', async () => {
+      docs.callTool.mockResolvedValue({ ...text('page not found'), isError: true });
+
+      const result = await upstream.callTool({ name: 'open_issue_for_page', arguments: { page: 7 } });
+
+      expect(result.isError).toBe(true);
+      expect(result.content).toEqual([
+        { type: 'text', text: "Step 1 ('docs:get_page') failed:" },
+        { type: 'text', text: 'page not found' }
+      ]);
+      expect(github.callTool).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('renderStepArguments', () => {
+    it('should keep the type of whole placeholders and drop missing ones', () => {
+      const step = {
+        tool: 'x:y',
+        arguments: {
+          limit: '{{input.limit}}',
+          filter: { ids: ['{{previous.structuredContent.items.0.id}}'], text: '{{previous.text}}!' },
+          missing: '{{input.nothing}}',
+          embedded: 'first {{input.limit}} of {{input.tags}}'
+        }
+      };
+
+      expect(renderStepArguments(step, {
+        input: { limit: 5, tags: ['a'] },
+        previous: { text: 'done', json: undefined, structuredContent: { items: [{ id: 9 }] } }
+      })).toEqual({
+        limit: 5,
+        filter: { ids: [9], text: 'done!' },
+        embedded: 'first 5 of ["a"]'
+      });
+      expect(renderStepArguments({ tool: 'x:y' }, { input: { query: 'q' } })).toEqual({ query: 'q' });
+    });
+  });
+
+  it('should fail on a name taken by a child tool under the error collision strategy', async () => {
+    await expect(connectVirtualTools({ 'docs:search': { mode: 'fanOut', steps: [{ tool: 'jira:search' }] } }, registry))
+      .rejects.toThrow("Tool name collisions: 'docs:search' (server 'docs' tool 'search' and server 'virtual' tool 'docs:search')");
+  });
+});